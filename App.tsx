@@ -3,6 +3,8 @@ import { StyleSheet } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { AppNavigator } from './src/navigation/AppNavigator';
+import { TimerProvider } from './src/context/TimerContext';
+import { TimerBar } from './src/components/ui/TimerBar';
 
 import {
   configureReanimatedLogger,
@@ -19,7 +21,10 @@ function App(): React.JSX.Element {
   return (
     <GestureHandlerRootView style={styles.container}>
       <SafeAreaProvider>
-        <AppNavigator />
+        <TimerProvider>
+          <AppNavigator />
+          <TimerBar />
+        </TimerProvider>
       </SafeAreaProvider>
     </GestureHandlerRootView>
   );
@@ -0,0 +1,54 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react-native';
+import { ActionMenu } from '../../src/components/ui/ActionMenu';
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+describe('ActionMenu', () => {
+  const onClose = jest.fn();
+  const onFirst = jest.fn();
+  const onSecond = jest.fn();
+  const options = [
+    { key: 'first', label: 'First', onPress: onFirst, selected: true },
+    { key: 'second', label: 'Second', onPress: onSecond },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('renders the title and options', () => {
+    render(
+      <ActionMenu
+        visible
+        title="Sort By"
+        options={options}
+        onClose={onClose}
+      />,
+    );
+
+    expect(screen.getByText('Sort By')).toBeTruthy();
+    expect(screen.getByText('First')).toBeTruthy();
+    expect(screen.getByText('Second')).toBeTruthy();
+    expect(screen.getByText('✓')).toBeTruthy();
+  });
+
+  it('closes and runs the chosen option', () => {
+    render(<ActionMenu visible options={options} onClose={onClose} />);
+
+    fireEvent.press(screen.getByLabelText('Second'));
+
+    expect(onClose).toHaveBeenCalled();
+    expect(onSecond).toHaveBeenCalled();
+    expect(onFirst).not.toHaveBeenCalled();
+  });
+
+  it('closes without selecting on cancel', () => {
+    render(<ActionMenu visible options={options} onClose={onClose} />);
+
+    fireEvent.press(screen.getByLabelText('Cancel'));
+
+    expect(onClose).toHaveBeenCalled();
+    expect(onFirst).not.toHaveBeenCalled();
+    expect(onSecond).not.toHaveBeenCalled();
+  });
+});
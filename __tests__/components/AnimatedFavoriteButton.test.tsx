@@ -0,0 +1,51 @@
+import React from 'react';
+import { render, fireEvent } from '@testing-library/react-native';
+import { AnimatedFavoriteButton } from '../../src/components/ui/AnimatedFavoriteButton';
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import type { SharedValue } from 'react-native-reanimated';
+
+const createMockSharedValue = (initialValue: number): SharedValue<number> =>
+  ({
+    value: initialValue,
+    get: jest.fn(() => initialValue),
+    set: jest.fn(),
+    addListener: jest.fn(),
+    removeListener: jest.fn(),
+    modify: jest.fn(),
+  } as SharedValue<number>);
+
+describe('AnimatedFavoriteButton', () => {
+  const onPress = jest.fn();
+  const progress = createMockSharedValue(0.5);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('offers to add a recipe to favorites', () => {
+    const { getByLabelText, getByText } = render(
+      <AnimatedFavoriteButton
+        progress={progress}
+        isFavorite={false}
+        onPress={onPress}
+      />,
+    );
+
+    expect(getByText('Favorite')).toBeTruthy();
+    fireEvent.press(getByLabelText('Add to favorites'));
+    expect(onPress).toHaveBeenCalledTimes(1);
+  });
+
+  it('offers to remove a favorite', () => {
+    const { getByLabelText, getByText } = render(
+      <AnimatedFavoriteButton
+        progress={progress}
+        isFavorite
+        onPress={onPress}
+      />,
+    );
+
+    expect(getByText('Unfavorite')).toBeTruthy();
+    expect(getByLabelText('Remove from favorites')).toBeTruthy();
+  });
+});
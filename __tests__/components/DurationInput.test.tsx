@@ -0,0 +1,45 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react-native';
+import { DurationInput } from '../../src/components/common/DurationInput';
+import { describe, it, expect, jest } from '@jest/globals';
+
+describe('DurationInput', () => {
+  it('shows how the typed duration was understood', () => {
+    render(
+      <DurationInput label="Cook Time" value="90" onChangeText={jest.fn()} />,
+    );
+
+    expect(screen.getByText('1 hr 30 min')).toBeTruthy();
+  });
+
+  it('shows a hint for unreadable text', () => {
+    render(
+      <DurationInput
+        label="Cook Time"
+        value="a while"
+        onChangeText={jest.fn()}
+      />,
+    );
+
+    expect(screen.getByText('Try 45m, 1h 20m or 1:20')).toBeTruthy();
+  });
+
+  it('shows nothing extra when empty', () => {
+    render(
+      <DurationInput label="Cook Time" value="" onChangeText={jest.fn()} />,
+    );
+
+    expect(screen.queryByText('Try 45m, 1h 20m or 1:20')).toBeNull();
+  });
+
+  it('reports text changes', () => {
+    const onChangeText = jest.fn();
+    render(
+      <DurationInput label="Prep Time" value="" onChangeText={onChangeText} />,
+    );
+
+    fireEvent.changeText(screen.getByPlaceholderText('e.g. 1h 20m'), '1h');
+
+    expect(onChangeText).toHaveBeenCalledWith('1h');
+  });
+});
@@ -0,0 +1,23 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react-native';
+import { HighlightedText } from '../../src/components/common/HighlightedText';
+import { describe, it, expect } from '@jest/globals';
+
+describe('HighlightedText', () => {
+  it('renders plain text without a query', () => {
+    render(<HighlightedText text="Pasta Carbonara" />);
+
+    expect(screen.getByText('Pasta Carbonara')).toBeTruthy();
+  });
+
+  it('wraps matches in a nested highlighted span', () => {
+    render(<HighlightedText text="Crème Brûlée" query="brulee" />);
+
+    const highlighted = screen.getByText('Brûlée');
+    expect(highlighted.props.style).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ backgroundColor: expect.any(String) }),
+      ]),
+    );
+  });
+});
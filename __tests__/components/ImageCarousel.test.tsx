@@ -0,0 +1,46 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react-native';
+import { ImageCarousel } from '../../src/components/ui/ImageCarousel';
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+jest.mock('../../src/components/ui/ImageModal', () => {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const { Text } = require('react-native');
+  return {
+    ImageModal: ({ index }: { index: number }) => (
+      <Text>{`Modal at ${index}`}</Text>
+    ),
+  };
+});
+
+describe('ImageCarousel', () => {
+  const images = [
+    'https://example.com/image1.jpg',
+    'https://example.com/image2.jpg',
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('renders nothing without images', () => {
+    const { toJSON } = render(<ImageCarousel images={[]} />);
+
+    expect(toJSON()).toBeNull();
+  });
+
+  it('renders every image', () => {
+    render(<ImageCarousel images={images} />);
+
+    expect(screen.getByLabelText('Recipe image 1 of 2')).toBeTruthy();
+    expect(screen.getByLabelText('Recipe image 2 of 2')).toBeTruthy();
+  });
+
+  it('opens the full screen modal at the pressed image', () => {
+    render(<ImageCarousel images={images} />);
+
+    fireEvent.press(screen.getByLabelText('Recipe image 2 of 2'));
+
+    expect(screen.getByText('Modal at 1')).toBeTruthy();
+  });
+});
@@ -0,0 +1,120 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react-native';
+import { IngredientEditor } from '../../src/components/ui/IngredientEditor';
+import { Ingredient } from '../../src/types/Recipe';
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+const ingredients: Ingredient[] = [
+  { id: 'a', quantity: '2', unit: 'cups', name: 'flour' },
+  { id: 'b', quantity: '1', unit: 'tsp', name: 'salt', note: 'fine' },
+];
+
+describe('IngredientEditor', () => {
+  const handlers = {
+    onAdd: jest.fn(),
+    onUpdate: jest.fn(),
+    onRemove: jest.fn(),
+    onMove: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows an empty state without ingredients', () => {
+    render(<IngredientEditor ingredients={[]} {...handlers} />);
+
+    expect(screen.getByText('No ingredients yet')).toBeTruthy();
+  });
+
+  it('renders a row per ingredient', () => {
+    render(<IngredientEditor ingredients={ingredients} {...handlers} />);
+
+    expect(screen.getByDisplayValue('flour')).toBeTruthy();
+    expect(screen.getByDisplayValue('salt')).toBeTruthy();
+    expect(screen.getByDisplayValue('fine')).toBeTruthy();
+  });
+
+  it('reports field edits with the ingredient id', () => {
+    render(<IngredientEditor ingredients={ingredients} {...handlers} />);
+
+    fireEvent.changeText(
+      screen.getByLabelText('Ingredient 2 quantity'),
+      '1 1/2',
+    );
+
+    expect(handlers.onUpdate).toHaveBeenCalledWith('b', { quantity: '1 1/2' });
+  });
+
+  it('adds, removes and moves rows', () => {
+    render(<IngredientEditor ingredients={ingredients} {...handlers} />);
+
+    fireEvent.press(screen.getByLabelText('Add ingredient'));
+    fireEvent.press(screen.getByLabelText('Remove ingredient 1'));
+    fireEvent.press(screen.getByLabelText('Move ingredient 2 up'));
+
+    expect(handlers.onAdd).toHaveBeenCalled();
+    expect(handlers.onRemove).toHaveBeenCalledWith('a');
+    expect(handlers.onMove).toHaveBeenCalledWith(1, 0);
+  });
+
+  it('disables adding once the limit is reached', () => {
+    render(
+      <IngredientEditor
+        ingredients={ingredients}
+        maxIngredients={2}
+        {...handlers}
+      />,
+    );
+
+    fireEvent.press(screen.getByLabelText('Add ingredient'));
+
+    expect(handlers.onAdd).not.toHaveBeenCalled();
+  });
+
+  describe('pasting a list', () => {
+    it('hides the paste option without a handler', () => {
+      render(<IngredientEditor ingredients={ingredients} {...handlers} />);
+
+      expect(screen.queryByText('Paste Ingredient List')).toBeNull();
+    });
+
+    it('passes the pasted text on and closes once rows are added', () => {
+      const onPasteList = jest.fn(() => 2);
+      render(
+        <IngredientEditor
+          ingredients={ingredients}
+          {...handlers}
+          onPasteList={onPasteList}
+        />,
+      );
+
+      fireEvent.press(screen.getByText('Paste Ingredient List'));
+      fireEvent.changeText(
+        screen.getByLabelText('Ingredient list'),
+        '1 cup rice\n2 eggs',
+      );
+      fireEvent.press(screen.getByText('Add Ingredients'));
+
+      expect(onPasteList).toHaveBeenCalledWith('1 cup rice\n2 eggs');
+      expect(screen.queryByLabelText('Ingredient list')).toBeNull();
+    });
+
+    it('keeps the text when nothing could be added', () => {
+      const onPasteList = jest.fn(() => 0);
+      render(
+        <IngredientEditor
+          ingredients={ingredients}
+          {...handlers}
+          onPasteList={onPasteList}
+        />,
+      );
+
+      fireEvent.press(screen.getByText('Paste Ingredient List'));
+      fireEvent.changeText(screen.getByLabelText('Ingredient list'), '???');
+      fireEvent.press(screen.getByText('Add Ingredients'));
+
+      expect(screen.getByDisplayValue('???')).toBeTruthy();
+    });
+  });
+});
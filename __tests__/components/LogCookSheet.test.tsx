@@ -0,0 +1,66 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react-native';
+import { launchImageLibrary } from 'react-native-image-picker';
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { LogCookSheet } from '../../src/components/ui/LogCookSheet';
+
+const mockLaunchImageLibrary = launchImageLibrary as jest.MockedFunction<
+  typeof launchImageLibrary
+>;
+
+describe('LogCookSheet', () => {
+  const onSave = jest.fn();
+  const onClose = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const renderSheet = () =>
+    render(<LogCookSheet visible onSave={onSave} onClose={onClose} />);
+
+  it('saves without a rating or photo', () => {
+    renderSheet();
+
+    fireEvent.press(screen.getByText('Save'));
+
+    expect(onSave).toHaveBeenCalledWith({
+      rating: undefined,
+      photo: undefined,
+    });
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('saves the rating and the photo picked from the library', () => {
+    mockLaunchImageLibrary.mockImplementation((_options, callback) => {
+      callback?.({ assets: [{ uri: 'file:///photos/dinner.jpg' }] });
+      return Promise.resolve({});
+    });
+    renderSheet();
+
+    fireEvent.press(screen.getByLabelText('Rate 4 stars'));
+    fireEvent.press(screen.getByText('Add Photo'));
+    fireEvent.press(screen.getByText('Save'));
+
+    expect(mockLaunchImageLibrary).toHaveBeenCalledWith(
+      expect.objectContaining({ selectionLimit: 1 }),
+      expect.any(Function),
+    );
+    expect(onSave).toHaveBeenCalledWith({
+      rating: 4,
+      photo: 'file:///photos/dinner.jpg',
+    });
+  });
+
+  it('keeps no photo when picking is cancelled', () => {
+    mockLaunchImageLibrary.mockImplementation((_options, callback) => {
+      callback?.({ didCancel: true });
+      return Promise.resolve({});
+    });
+    renderSheet();
+
+    fireEvent.press(screen.getByText('Add Photo'));
+
+    expect(screen.getByText('Add Photo')).toBeTruthy();
+  });
+});
@@ -0,0 +1,45 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react-native';
+import ReactNativeHapticFeedback from 'react-native-haptic-feedback';
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { RatingControl } from '../../src/components/ui/RatingControl';
+import { HAPTIC_OPTIONS } from '../../src/constants';
+
+const mockTrigger = ReactNativeHapticFeedback.trigger as jest.MockedFunction<
+  typeof ReactNativeHapticFeedback.trigger
+>;
+
+describe('RatingControl', () => {
+  const onChange = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows the rating as filled stars', () => {
+    render(<RatingControl rating={3} onChange={onChange} />);
+
+    expect(screen.getByLabelText('Rated 3 out of 5')).toBeTruthy();
+    expect(screen.getAllByText('★')).toHaveLength(3);
+    expect(screen.getAllByText('☆')).toHaveLength(2);
+  });
+
+  it('rates with a selection haptic', () => {
+    render(<RatingControl onChange={onChange} />);
+
+    expect(screen.getByLabelText('Not rated')).toBeTruthy();
+
+    fireEvent.press(screen.getByLabelText('Rate 4 stars'));
+
+    expect(onChange).toHaveBeenCalledWith(4);
+    expect(mockTrigger).toHaveBeenCalledWith('selection', HAPTIC_OPTIONS);
+  });
+
+  it('clears the rating when the current star is tapped again', () => {
+    render(<RatingControl rating={2} onChange={onChange} />);
+
+    fireEvent.press(screen.getByLabelText('Rate 2 stars'));
+
+    expect(onChange).toHaveBeenCalledWith(undefined);
+  });
+});
@@ -1,5 +1,6 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react-native';
+import { Alert } from 'react-native';
+import { fireEvent, render, screen } from '@testing-library/react-native';
 import { RecipeCard } from '../../src/components/ui/RecipeCard';
 import { Recipe } from '../../src/types/Recipe';
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
@@ -97,4 +98,149 @@ describe('RecipeCard', () => {
 
     expect(screen.getByText('No images')).toBeTruthy();
   });
+
+  it('shows the total time when the recipe has one', () => {
+    const { rerender } = render(
+      <RecipeCard
+        recipe={{ ...mockRecipe, prepMinutes: 20, cookMinutes: 60 }}
+        onDelete={mockOnDelete}
+      />,
+    );
+
+    expect(screen.getByLabelText('Total time 1 hr 20 min')).toBeTruthy();
+
+    rerender(<RecipeCard recipe={mockRecipe} onDelete={mockOnDelete} />);
+
+    expect(screen.queryByText(/⏱/)).toBeNull();
+  });
+
+  it('shows the rating as stars', () => {
+    const { rerender } = render(
+      <RecipeCard
+        recipe={{ ...mockRecipe, rating: 4 }}
+        onDelete={mockOnDelete}
+      />,
+    );
+
+    expect(screen.getByLabelText('Rated 4 out of 5')).toBeTruthy();
+    expect(screen.getByText('★★★★☆')).toBeTruthy();
+
+    rerender(<RecipeCard recipe={mockRecipe} onDelete={mockOnDelete} />);
+
+    expect(screen.queryByLabelText(/^Rated/)).toBeNull();
+  });
+
+  it('highlights search matches in the title', () => {
+    render(
+      <RecipeCard
+        recipe={mockRecipe}
+        onPress={mockOnPress}
+        onDelete={mockOnDelete}
+        highlightQuery="recipe"
+      />,
+    );
+
+    expect(screen.getByText('Recipe')).toBeTruthy();
+  });
+
+  describe('swipe to delete', () => {
+    const pressSwipeDelete = () => {
+      const [swipeable] = screen.UNSAFE_root.findAll(
+        node => typeof node.props.renderRightActions === 'function',
+      );
+      const actions = render(swipeable.props.renderRightActions({ value: 1 }));
+      fireEvent.press(actions.getByLabelText('Delete recipe'));
+    };
+
+    it('asks for confirmation before moving the recipe to the trash', () => {
+      const alertSpy = jest.spyOn(Alert, 'alert').mockImplementation(jest.fn());
+      render(<RecipeCard recipe={mockRecipe} onDelete={mockOnDelete} />);
+
+      pressSwipeDelete();
+
+      expect(alertSpy).toHaveBeenCalledWith(
+        'Delete Recipe',
+        expect.stringContaining('to the Trash'),
+        expect.any(Array),
+      );
+      expect(mockOnDelete).not.toHaveBeenCalled();
+      alertSpy.mockRestore();
+    });
+
+    it('deletes immediately when confirmation is turned off', () => {
+      const alertSpy = jest.spyOn(Alert, 'alert').mockImplementation(jest.fn());
+      render(
+        <RecipeCard
+          recipe={mockRecipe}
+          onDelete={mockOnDelete}
+          confirmDelete={false}
+        />,
+      );
+
+      pressSwipeDelete();
+
+      expect(alertSpy).not.toHaveBeenCalled();
+      expect(mockOnDelete).toHaveBeenCalledWith(mockRecipe);
+      alertSpy.mockRestore();
+    });
+  });
+
+  describe('favorites', () => {
+    const findSwipeable = () =>
+      screen.UNSAFE_root.findAll(
+        node => typeof node.props.renderRightActions === 'function',
+      )[0];
+
+    it('shows a heart on favorite recipes', () => {
+      render(
+        <RecipeCard
+          recipe={{ ...mockRecipe, isFavorite: true }}
+          onDelete={mockOnDelete}
+        />,
+      );
+
+      expect(screen.getByLabelText('Favorite')).toBeTruthy();
+    });
+
+    it('only enables the left swipe action with a favorite handler', () => {
+      render(<RecipeCard recipe={mockRecipe} onDelete={mockOnDelete} />);
+
+      expect(findSwipeable().props.renderLeftActions).toBeUndefined();
+    });
+
+    it('toggles the favorite from the left swipe action', () => {
+      const onToggleFavorite = jest.fn();
+      render(
+        <RecipeCard
+          recipe={mockRecipe}
+          onDelete={mockOnDelete}
+          onToggleFavorite={onToggleFavorite}
+        />,
+      );
+
+      const actions = render(
+        findSwipeable().props.renderLeftActions({ value: 1 }),
+      );
+      fireEvent.press(actions.getByLabelText('Add to favorites'));
+
+      expect(onToggleFavorite).toHaveBeenCalledWith(mockRecipe);
+    });
+  });
+
+  it('opens more actions on long press', () => {
+    const onLongPress = jest.fn();
+    render(
+      <RecipeCard
+        recipe={mockRecipe}
+        onPress={mockOnPress}
+        onLongPress={onLongPress}
+        onDelete={mockOnDelete}
+      />,
+    );
+
+    fireEvent(screen.getByLabelText('Recipe: Test Recipe'), 'longPress');
+
+    expect(onLongPress).toHaveBeenCalledWith(mockRecipe);
+    expect(mockOnPress).not.toHaveBeenCalled();
+  });
 });
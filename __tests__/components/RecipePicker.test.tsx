@@ -0,0 +1,88 @@
+import React from 'react';
+import { render, fireEvent } from '@testing-library/react-native';
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import { RecipePicker } from '../../src/components/ui/RecipePicker';
+import { makeRecipe } from '../helpers/makeRecipe';
+
+const recipes = [
+  makeRecipe({ id: '1', title: 'Pancakes' }),
+  makeRecipe({ id: '2', title: 'Soup' }),
+];
+
+describe('RecipePicker', () => {
+  // The Add button fades in when its disabled state changes
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('picks a recipe straight away in single mode', () => {
+    const onSelect = jest.fn();
+    const onClose = jest.fn();
+    const { getByLabelText } = render(
+      <RecipePicker
+        visible
+        title="Dinner"
+        recipes={recipes}
+        onSelect={onSelect}
+        onClose={onClose}
+      />,
+    );
+
+    fireEvent.press(getByLabelText('Soup'));
+
+    expect(onSelect).toHaveBeenCalledWith([recipes[1]]);
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('adds the ticked recipes in multiple mode', () => {
+    const onSelect = jest.fn();
+    const { getByLabelText } = render(
+      <RecipePicker
+        visible
+        title="Add Recipes"
+        recipes={recipes}
+        multiple
+        onSelect={onSelect}
+        onClose={jest.fn()}
+      />,
+    );
+
+    fireEvent.press(getByLabelText('Pancakes'));
+    fireEvent.press(getByLabelText('Soup'));
+    fireEvent.press(getByLabelText('Soup'));
+
+    expect(getByLabelText('Pancakes').props.accessibilityState).toEqual({
+      checked: true,
+    });
+    expect(onSelect).not.toHaveBeenCalled();
+
+    fireEvent.press(getByLabelText('Add 1 recipe'));
+
+    expect(onSelect).toHaveBeenCalledWith([recipes[0]]);
+  });
+
+  it('shows an empty message when there are no recipes', () => {
+    const { getByText } = render(
+      <RecipePicker
+        visible
+        title="Dinner"
+        recipes={[]}
+        onSelect={jest.fn()}
+        onClose={jest.fn()}
+      />,
+    );
+
+    expect(getByText('No recipes yet')).toBeTruthy();
+  });
+});
@@ -0,0 +1,144 @@
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react-native';
+import { Snackbar } from '../../src/components/ui/Snackbar';
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+
+describe('Snackbar', () => {
+  const onAction = jest.fn();
+  const onDismiss = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('renders nothing when hidden', () => {
+    render(
+      <Snackbar visible={false} message="Deleted" onDismiss={onDismiss} />,
+    );
+
+    expect(screen.queryByText('Deleted')).toBeNull();
+  });
+
+  it('shows the message and action', () => {
+    render(
+      <Snackbar
+        visible
+        message="Deleted “Soup”"
+        actionLabel="Undo"
+        onAction={onAction}
+        onDismiss={onDismiss}
+      />,
+    );
+
+    expect(screen.getByText('Deleted “Soup”')).toBeTruthy();
+    expect(screen.getByLabelText('Undo')).toBeTruthy();
+  });
+
+  it('dismisses itself after the duration', () => {
+    render(
+      <Snackbar
+        visible
+        message="Deleted"
+        onDismiss={onDismiss}
+        duration={3000}
+      />,
+    );
+
+    act(() => {
+      jest.advanceTimersByTime(2999);
+    });
+    expect(onDismiss).not.toHaveBeenCalled();
+
+    act(() => {
+      jest.advanceTimersByTime(1);
+    });
+    expect(onDismiss).toHaveBeenCalledTimes(1);
+  });
+
+  it('restarts the timer when the message changes', () => {
+    const { rerender } = render(
+      <Snackbar
+        visible
+        message="First"
+        onDismiss={onDismiss}
+        duration={3000}
+      />,
+    );
+
+    act(() => {
+      jest.advanceTimersByTime(2000);
+    });
+    rerender(
+      <Snackbar
+        visible
+        message="Second"
+        onDismiss={onDismiss}
+        duration={3000}
+      />,
+    );
+    act(() => {
+      jest.advanceTimersByTime(2000);
+    });
+
+    expect(onDismiss).not.toHaveBeenCalled();
+  });
+
+  it('restarts the timer for a repeated message under a new key', () => {
+    const { rerender } = render(
+      <Snackbar
+        key="1"
+        visible
+        message="Deleted “Soup”"
+        onDismiss={onDismiss}
+        duration={3000}
+      />,
+    );
+
+    act(() => {
+      jest.advanceTimersByTime(2000);
+    });
+    rerender(
+      <Snackbar
+        key="2"
+        visible
+        message="Deleted “Soup”"
+        onDismiss={onDismiss}
+        duration={3000}
+      />,
+    );
+    act(() => {
+      jest.advanceTimersByTime(2000);
+    });
+
+    expect(onDismiss).not.toHaveBeenCalled();
+  });
+
+  it('runs the action and dismisses when the action is pressed', () => {
+    render(
+      <Snackbar
+        visible
+        message="Deleted"
+        actionLabel="Undo"
+        onAction={onAction}
+        onDismiss={onDismiss}
+      />,
+    );
+
+    fireEvent.press(screen.getByLabelText('Undo'));
+
+    expect(onAction).toHaveBeenCalledTimes(1);
+    expect(onDismiss).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,88 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react-native';
+import { StepEditor } from '../../src/components/ui/StepEditor';
+import { RecipeStep } from '../../src/types/Recipe';
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+const steps: RecipeStep[] = [
+  { id: 's1', text: 'Preheat the oven' },
+  { id: 's2', text: 'Bake', durationMinutes: 25 },
+];
+
+describe('StepEditor', () => {
+  const handlers = {
+    onAdd: jest.fn(),
+    onUpdate: jest.fn(),
+    onRemove: jest.fn(),
+    onMove: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows an empty state without steps', () => {
+    render(<StepEditor steps={[]} {...handlers} />);
+
+    expect(screen.getByText('No steps yet')).toBeTruthy();
+  });
+
+  it('renders numbered steps with their durations', () => {
+    render(<StepEditor steps={steps} {...handlers} />);
+
+    expect(screen.getByText('Step 1')).toBeTruthy();
+    expect(screen.getByText('Step 2')).toBeTruthy();
+    expect(screen.getByDisplayValue('Preheat the oven')).toBeTruthy();
+    expect(screen.getByDisplayValue('25m')).toBeTruthy();
+  });
+
+  it('parses the duration input as whole minutes', () => {
+    render(<StepEditor steps={steps} {...handlers} />);
+
+    fireEvent.changeText(screen.getByLabelText('Step 1 duration'), '15');
+    fireEvent.changeText(screen.getByLabelText('Step 2 duration'), '');
+
+    expect(handlers.onUpdate).toHaveBeenCalledWith('s1', {
+      durationMinutes: 15,
+    });
+    expect(handlers.onUpdate).toHaveBeenCalledWith('s2', {
+      durationMinutes: undefined,
+    });
+  });
+
+  it('reads hours and clock-style durations', () => {
+    render(<StepEditor steps={steps} {...handlers} />);
+
+    fireEvent.changeText(screen.getByLabelText('Step 1 duration'), '1h 20m');
+    fireEvent.changeText(screen.getByLabelText('Step 2 duration'), '1:30');
+
+    expect(handlers.onUpdate).toHaveBeenCalledWith('s1', {
+      durationMinutes: 80,
+    });
+    expect(handlers.onUpdate).toHaveBeenCalledWith('s2', {
+      durationMinutes: 90,
+    });
+  });
+
+  it('keeps the saved duration while the text is unreadable', () => {
+    render(<StepEditor steps={steps} {...handlers} />);
+
+    fireEvent.changeText(screen.getByLabelText('Step 2 duration'), '1 h x');
+
+    expect(handlers.onUpdate).not.toHaveBeenCalled();
+    expect(screen.getByDisplayValue('1 h x')).toBeTruthy();
+    expect(screen.getByText('Try 45m, 1h 20m or 1:20')).toBeTruthy();
+  });
+
+  it('adds, deletes and reorders steps', () => {
+    render(<StepEditor steps={steps} {...handlers} />);
+
+    fireEvent.press(screen.getByLabelText('Add step'));
+    fireEvent.press(screen.getByLabelText('Delete step 2'));
+    fireEvent.press(screen.getByLabelText('Move step 1 down'));
+
+    expect(handlers.onAdd).toHaveBeenCalled();
+    expect(handlers.onRemove).toHaveBeenCalledWith('s2');
+    expect(handlers.onMove).toHaveBeenCalledWith(0, 1);
+  });
+});
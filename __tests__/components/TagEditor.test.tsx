@@ -0,0 +1,67 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react-native';
+import { TagEditor } from '../../src/components/ui/TagEditor';
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+const availableTags = [
+  { tag: 'vegetarian', count: 4 },
+  { tag: 'vegan', count: 2 },
+  { tag: 'dessert', count: 1 },
+];
+
+describe('TagEditor', () => {
+  const onChange = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('renders the current tags as removable chips', () => {
+    render(<TagEditor tags={['quick']} onChange={onChange} />);
+
+    fireEvent.press(screen.getByLabelText('Remove tag quick'));
+
+    expect(onChange).toHaveBeenCalledWith([]);
+  });
+
+  it('adds a normalized tag on submit', () => {
+    render(<TagEditor tags={['quick']} onChange={onChange} />);
+
+    const input = screen.getByLabelText('New tag');
+    fireEvent.changeText(input, '  Weeknight ');
+    fireEvent(input, 'submitEditing');
+
+    expect(onChange).toHaveBeenCalledWith(['quick', 'weeknight']);
+  });
+
+  it('adds tags when a comma is typed', () => {
+    render(<TagEditor tags={[]} onChange={onChange} />);
+
+    fireEvent.changeText(screen.getByLabelText('New tag'), 'spicy,');
+
+    expect(onChange).toHaveBeenCalledWith(['spicy']);
+  });
+
+  it('suggests existing tags that are not already chosen', () => {
+    render(
+      <TagEditor
+        tags={['vegan']}
+        onChange={onChange}
+        availableTags={availableTags}
+      />,
+    );
+
+    fireEvent.changeText(screen.getByLabelText('New tag'), 've');
+    fireEvent.press(screen.getByLabelText('Tag vegetarian'));
+
+    expect(screen.queryByLabelText('Tag dessert')).toBeNull();
+    expect(onChange).toHaveBeenCalledWith(['vegan', 'vegetarian']);
+  });
+
+  it('stops accepting tags at the limit', () => {
+    render(<TagEditor tags={['a', 'b']} onChange={onChange} maxTags={2} />);
+
+    expect(screen.getByLabelText('New tag').props.editable).toBe(false);
+    expect(screen.getByText('2/2 tags')).toBeTruthy();
+  });
+});
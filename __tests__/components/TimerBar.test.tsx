@@ -0,0 +1,146 @@
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import ReactNativeHapticFeedback from 'react-native-haptic-feedback';
+import { TimerBar } from '../../src/components/ui/TimerBar';
+import { TimerButtons } from '../../src/components/ui/TimerButtons';
+import { TimerProvider } from '../../src/context/TimerContext';
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+
+const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+const mockTrigger = ReactNativeHapticFeedback.trigger as jest.MockedFunction<
+  typeof ReactNativeHapticFeedback.trigger
+>;
+
+const KEY = '@recipe_app_kitchen_timers';
+
+const renderTimers = async (text = 'Bake 2 minutes, rest 30 seconds') => {
+  render(
+    <TimerProvider>
+      <TimerButtons text={text} label="Lasagna" recipeId="r1" />
+      <TimerBar />
+    </TimerProvider>,
+  );
+  // Let the saved timers load
+  await act(async () => {});
+};
+
+const hapticTypes = () => mockTrigger.mock.calls.map(([type]) => type);
+
+describe('TimerBar', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: 1_000_000 });
+    mockAsyncStorage.getItem.mockResolvedValue(null);
+    mockAsyncStorage.setItem.mockResolvedValue();
+    mockAsyncStorage.removeItem.mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('offers a button per duration in the text', async () => {
+    await renderTimers();
+
+    expect(screen.getByLabelText('Start 2 min timer')).toBeTruthy();
+    expect(screen.getByLabelText('Start 30 sec timer')).toBeTruthy();
+    expect(screen.queryByText('Lasagna')).toBeNull();
+  });
+
+  it('counts down a started timer and saves it', async () => {
+    await renderTimers();
+
+    fireEvent.press(screen.getByLabelText('Start 2 min timer'));
+    expect(screen.getByText('Lasagna')).toBeTruthy();
+    expect(screen.getByText('2:00')).toBeTruthy();
+
+    act(() => {
+      jest.advanceTimersByTime(5000);
+    });
+    expect(screen.getByText('1:55')).toBeTruthy();
+
+    const [key, json] = mockAsyncStorage.setItem.mock.calls.at(-1)!;
+    expect(key).toBe(KEY);
+    expect(JSON.parse(json)).toEqual([
+      expect.objectContaining({
+        label: 'Lasagna',
+        recipeId: 'r1',
+        startedAt: 1_000_000,
+        durationSeconds: 120,
+      }),
+    ]);
+  });
+
+  it('buzzes a minute before and when the timer is done', async () => {
+    await renderTimers();
+    fireEvent.press(screen.getByLabelText('Start 2 min timer'));
+    mockTrigger.mockClear();
+
+    act(() => {
+      jest.advanceTimersByTime(60_000);
+    });
+    expect(hapticTypes()).toEqual(['notificationWarning']);
+
+    act(() => {
+      jest.advanceTimersByTime(60_000);
+    });
+    expect(hapticTypes()).toEqual([
+      'notificationWarning',
+      'notificationSuccess',
+    ]);
+    expect(screen.getByText('Done!')).toBeTruthy();
+
+    fireEvent.press(screen.getByLabelText('Dismiss Lasagna timer'));
+    expect(screen.queryByText('Lasagna')).toBeNull();
+    expect(mockAsyncStorage.removeItem).toHaveBeenCalledWith(KEY);
+  });
+
+  it('runs timers side by side and cancels one at a time', async () => {
+    await renderTimers();
+
+    fireEvent.press(screen.getByLabelText('Start 2 min timer'));
+    fireEvent.press(screen.getByLabelText('Start 30 sec timer'));
+    expect(screen.getByText('2:00')).toBeTruthy();
+    expect(screen.getByText('0:30')).toBeTruthy();
+
+    fireEvent.press(screen.getAllByLabelText('Cancel Lasagna timer')[0]);
+    expect(screen.queryByText('2:00')).toBeNull();
+    expect(screen.getByText('0:30')).toBeTruthy();
+  });
+
+  it('restores timers saved before a restart', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue(
+      JSON.stringify([
+        {
+          id: 'running',
+          label: 'Stock',
+          startedAt: 1_000_000 - 60_000,
+          durationSeconds: 600,
+        },
+        {
+          id: 'done',
+          label: 'Bread',
+          startedAt: 1_000_000 - 600_000,
+          durationSeconds: 300,
+        },
+      ]),
+    );
+
+    await renderTimers();
+
+    expect(screen.getByText('Stock')).toBeTruthy();
+    expect(screen.getByText('9:00')).toBeTruthy();
+    expect(screen.getByText('Bread')).toBeTruthy();
+    expect(screen.getByText('Done!')).toBeTruthy();
+    // Timers that went off while the app was closed don't buzz on launch
+    expect(mockTrigger).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,15 @@
+import { Recipe } from '../../src/types/Recipe';
+
+/**
+ * Builds a minimal recipe for tests. Only the fields a test cares about
+ * need to be given.
+ */
+export const makeRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  id: '1',
+  title: 'Recipe',
+  description: '',
+  images: [],
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  ...overrides,
+});
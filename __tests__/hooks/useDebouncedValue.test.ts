@@ -0,0 +1,50 @@
+import { renderHook, act } from '@testing-library/react-native';
+import { useDebouncedValue } from '../../src/hooks/useDebouncedValue';
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+
+describe('useDebouncedValue', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('returns the initial value immediately', () => {
+    const { result } = renderHook(() => useDebouncedValue('a', 300));
+
+    expect(result.current).toBe('a');
+  });
+
+  it('only applies the latest value after the delay', () => {
+    const { result, rerender } = renderHook(
+      ({ value }: { value: string }) => useDebouncedValue(value, 300),
+      { initialProps: { value: 'a' } },
+    );
+
+    rerender({ value: 'ab' });
+    act(() => {
+      jest.advanceTimersByTime(200);
+    });
+    rerender({ value: 'abc' });
+    act(() => {
+      jest.advanceTimersByTime(200);
+    });
+
+    expect(result.current).toBe('a');
+
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+
+    expect(result.current).toBe('abc');
+  });
+});
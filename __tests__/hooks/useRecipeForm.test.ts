@@ -5,6 +5,9 @@ import {
   MAX_TITLE_LENGTH,
   MAX_DESCRIPTION_LENGTH,
   MAX_IMAGES,
+  MAX_STEP_LENGTH,
+  MAX_SERVINGS,
+  MAX_DURATION_MINUTES,
 } from '../../src/constants';
 import { describe, it, expect } from '@jest/globals';
 
@@ -260,6 +263,15 @@ describe('useRecipeForm', () => {
       expect(recipeData.updatedAt).toBeInstanceOf(Date);
     });
 
+    it('gives recipes created in quick succession different IDs', () => {
+      const first = renderHook(() => useRecipeForm());
+      const second = renderHook(() => useRecipeForm());
+
+      expect(first.result.current.getRecipeData().id).not.toBe(
+        second.result.current.getRecipeData().id,
+      );
+    });
+
     it('preserves existing recipe data when editing', () => {
       const { result } = renderHook(() => useRecipeForm(mockRecipe));
 
@@ -290,6 +302,442 @@ describe('useRecipeForm', () => {
     });
   });
 
+  describe('ingredients', () => {
+    const recipeWithIngredients: Recipe = {
+      ...mockRecipe,
+      ingredients: [
+        { id: 'a', quantity: '2', unit: 'cups', name: 'flour' },
+        { id: 'b', quantity: '1', unit: 'tsp', name: 'salt', note: 'fine' },
+      ],
+    };
+
+    it('initializes ingredients from the recipe', () => {
+      const { result } = renderHook(() => useRecipeForm(recipeWithIngredients));
+
+      expect(result.current.ingredients).toHaveLength(2);
+      expect(result.current.hasChanges).toBe(false);
+    });
+
+    it('adds, updates and removes ingredient rows', () => {
+      const { result } = renderHook(() => useRecipeForm());
+
+      act(() => {
+        result.current.addIngredient();
+      });
+
+      const id = result.current.ingredients[0].id;
+      expect(result.current.hasChanges).toBe(false);
+
+      act(() => {
+        result.current.updateIngredient(id, { name: 'Eggs', quantity: '3' });
+      });
+
+      expect(result.current.ingredients[0]).toMatchObject({
+        name: 'Eggs',
+        quantity: '3',
+      });
+      expect(result.current.hasChanges).toBe(true);
+
+      act(() => {
+        result.current.removeIngredient(id);
+      });
+
+      expect(result.current.ingredients).toEqual([]);
+    });
+
+    it('reorders ingredient rows', () => {
+      const { result } = renderHook(() => useRecipeForm(recipeWithIngredients));
+
+      act(() => {
+        result.current.moveIngredient(1, 0);
+      });
+
+      expect(result.current.ingredients.map(i => i.id)).toEqual(['b', 'a']);
+      expect(result.current.hasChanges).toBe(true);
+    });
+
+    it('requires a name for non-empty rows', () => {
+      const { result } = renderHook(() => useRecipeForm());
+
+      act(() => {
+        result.current.setTitle('Valid Title');
+        result.current.addIngredient();
+      });
+
+      act(() => {
+        result.current.updateIngredient(result.current.ingredients[0].id, {
+          quantity: '2',
+        });
+      });
+
+      const validation = result.current.validate();
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain('Ingredient 1 needs a name.');
+    });
+
+    it('drops blank rows and trims values in recipe data', () => {
+      const { result } = renderHook(() => useRecipeForm());
+
+      act(() => {
+        result.current.setTitle('Valid Title');
+        result.current.addIngredient();
+        result.current.addIngredient();
+      });
+
+      act(() => {
+        result.current.updateIngredient(result.current.ingredients[0].id, {
+          quantity: ' 2 ',
+          unit: ' cups ',
+          name: ' flour ',
+          note: '  ',
+        });
+      });
+
+      const validation = result.current.validate();
+      const recipeData = result.current.getRecipeData();
+
+      expect(validation.isValid).toBe(true);
+      expect(recipeData.ingredients).toEqual([
+        {
+          id: result.current.ingredients[0].id,
+          quantity: '2',
+          unit: 'cups',
+          name: 'flour',
+        },
+      ]);
+    });
+
+    it('adds rows parsed from pasted text in place of blank rows', () => {
+      const { result } = renderHook(() => useRecipeForm());
+
+      act(() => {
+        result.current.addIngredient();
+      });
+
+      let added = 0;
+      act(() => {
+        added = result.current.addIngredientsFromText(
+          '2 1/2 cups flour, sifted\n\n1 tsp salt',
+        );
+      });
+
+      expect(added).toBe(2);
+      expect(result.current.ingredients).toHaveLength(2);
+      expect(result.current.ingredients[0]).toMatchObject({
+        quantity: '2 1/2',
+        unit: 'cups',
+        name: 'flour',
+        note: 'sifted',
+      });
+      expect(result.current.ingredients[0].id).not.toBe(
+        result.current.ingredients[1].id,
+      );
+    });
+
+    it('appends pasted rows after existing ingredients', () => {
+      const { result } = renderHook(() => useRecipeForm(recipeWithIngredients));
+
+      act(() => {
+        result.current.addIngredientsFromText('3 eggs');
+      });
+
+      expect(result.current.ingredients.map(i => i.name)).toEqual([
+        'flour',
+        'salt',
+        'eggs',
+      ]);
+      expect(result.current.hasChanges).toBe(true);
+    });
+
+    it('adds nothing when the pasted text has no ingredients', () => {
+      const { result } = renderHook(() => useRecipeForm(recipeWithIngredients));
+
+      let added = -1;
+      act(() => {
+        added = result.current.addIngredientsFromText('  \n ');
+      });
+
+      expect(added).toBe(0);
+      expect(result.current.ingredients).toHaveLength(2);
+    });
+  });
+
+  describe('steps', () => {
+    const recipeWithSteps: Recipe = {
+      ...mockRecipe,
+      steps: [
+        { id: 's1', text: 'Mix everything' },
+        { id: 's2', text: 'Bake', durationMinutes: 25, images: ['bake.jpg'] },
+      ],
+    };
+
+    it('initializes steps from the recipe without reporting changes', () => {
+      const { result } = renderHook(() => useRecipeForm(recipeWithSteps));
+
+      expect(result.current.steps).toHaveLength(2);
+      expect(result.current.hasChanges).toBe(false);
+    });
+
+    it('detects changes when a step is edited', () => {
+      const { result } = renderHook(() => useRecipeForm(recipeWithSteps));
+
+      act(() => {
+        result.current.updateStep('s2', { durationMinutes: 30 });
+      });
+
+      expect(result.current.hasChanges).toBe(true);
+    });
+
+    it('detects changes when steps are reordered or removed', () => {
+      const { result } = renderHook(() => useRecipeForm(recipeWithSteps));
+
+      act(() => {
+        result.current.moveStep(0, 1);
+      });
+
+      expect(result.current.steps.map(step => step.id)).toEqual(['s2', 's1']);
+      expect(result.current.hasChanges).toBe(true);
+
+      act(() => {
+        result.current.removeStep('s1');
+      });
+
+      expect(result.current.steps).toHaveLength(1);
+    });
+
+    it('requires instructions for steps with a duration or images', () => {
+      const { result } = renderHook(() => useRecipeForm());
+
+      act(() => {
+        result.current.setTitle('Valid Title');
+        result.current.addStep();
+      });
+
+      act(() => {
+        result.current.updateStep(result.current.steps[0].id, {
+          durationMinutes: 10,
+        });
+      });
+
+      const validation = result.current.validate();
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain('Step 1 needs instructions.');
+    });
+
+    it('validates step length', () => {
+      const { result } = renderHook(() => useRecipeForm());
+
+      act(() => {
+        result.current.setTitle('Valid Title');
+        result.current.addStep();
+      });
+
+      act(() => {
+        result.current.updateStep(result.current.steps[0].id, {
+          text: 'a'.repeat(MAX_STEP_LENGTH + 1),
+        });
+      });
+
+      expect(result.current.validate().errors).toContain(
+        `Step 1 must be less than ${MAX_STEP_LENGTH} characters.`,
+      );
+    });
+
+    it('includes non-blank steps in recipe data', () => {
+      const { result } = renderHook(() => useRecipeForm());
+
+      act(() => {
+        result.current.setTitle('Valid Title');
+        result.current.addStep();
+        result.current.addStep();
+      });
+
+      act(() => {
+        result.current.updateStep(result.current.steps[0].id, {
+          text: '  Whisk eggs  ',
+        });
+      });
+
+      expect(result.current.getRecipeData().steps).toEqual([
+        { id: result.current.steps[0].id, text: 'Whisk eggs' },
+      ]);
+    });
+  });
+
+  describe('tags', () => {
+    it('normalizes tags in recipe data', () => {
+      const { result } = renderHook(() => useRecipeForm());
+
+      act(() => {
+        result.current.setTitle('Valid Title');
+        result.current.setTags(['Quick ', 'quick', 'Dinner']);
+      });
+
+      expect(result.current.getRecipeData().tags).toEqual(['quick', 'dinner']);
+    });
+
+    it('detects tag changes on an existing recipe', () => {
+      const recipe = {
+        id: '1',
+        title: 'Soup',
+        description: '',
+        images: [],
+        tags: ['dinner'],
+        createdAt: new Date('2024-01-01'),
+        updatedAt: new Date('2024-01-01'),
+      };
+      const { result } = renderHook(() => useRecipeForm(recipe));
+
+      expect(result.current.hasChanges).toBe(false);
+
+      act(() => {
+        result.current.setTags(['dinner', 'soup']);
+      });
+
+      expect(result.current.hasChanges).toBe(true);
+    });
+  });
+
+  describe('servings', () => {
+    it('initializes servings from the recipe without reporting changes', () => {
+      const { result } = renderHook(() =>
+        useRecipeForm({ ...mockRecipe, servings: 4 }),
+      );
+
+      expect(result.current.servings).toBe('4');
+      expect(result.current.hasChanges).toBe(false);
+    });
+
+    it('detects changes and includes servings in recipe data', () => {
+      const { result } = renderHook(() =>
+        useRecipeForm({ ...mockRecipe, servings: 4 }),
+      );
+
+      act(() => {
+        result.current.setServings(' 6 ');
+      });
+
+      expect(result.current.hasChanges).toBe(true);
+      expect(result.current.getRecipeData().servings).toBe(6);
+    });
+
+    it('treats blank servings as unset', () => {
+      const { result } = renderHook(() =>
+        useRecipeForm({ ...mockRecipe, servings: 4 }),
+      );
+
+      act(() => {
+        result.current.setServings('');
+      });
+
+      expect(result.current.validate().isValid).toBe(true);
+      expect(result.current.getRecipeData().servings).toBeUndefined();
+    });
+
+    it.each(['0', '2.5', 'abc', String(MAX_SERVINGS + 1)])(
+      'rejects %s servings',
+      value => {
+        const { result } = renderHook(() => useRecipeForm(mockRecipe));
+
+        act(() => {
+          result.current.setServings(value);
+        });
+
+        expect(result.current.validate().errors).toContain(
+          `Servings must be a whole number between 1 and ${MAX_SERVINGS}.`,
+        );
+      },
+    );
+  });
+
+  describe('prep and cook time', () => {
+    it('prefills times from the recipe without reporting changes', () => {
+      const { result } = renderHook(() =>
+        useRecipeForm({ ...mockRecipe, prepMinutes: 15, cookMinutes: 80 }),
+      );
+
+      expect(result.current.prepTime).toBe('15m');
+      expect(result.current.cookTime).toBe('1h 20m');
+      expect(result.current.hasChanges).toBe(false);
+    });
+
+    it('parses times into minutes in recipe data', () => {
+      const { result } = renderHook(() => useRecipeForm(mockRecipe));
+
+      act(() => {
+        result.current.setPrepTime('20');
+        result.current.setCookTime('1h 30m');
+      });
+
+      expect(result.current.hasChanges).toBe(true);
+      expect(result.current.validate().isValid).toBe(true);
+      expect(result.current.getRecipeData()).toMatchObject({
+        prepMinutes: 20,
+        cookMinutes: 90,
+      });
+    });
+
+    it('clears a time when the field is emptied', () => {
+      const { result } = renderHook(() =>
+        useRecipeForm({ ...mockRecipe, prepMinutes: 15 }),
+      );
+
+      act(() => {
+        result.current.setPrepTime(' ');
+      });
+
+      expect(result.current.hasChanges).toBe(true);
+      expect(result.current.getRecipeData().prepMinutes).toBeUndefined();
+    });
+
+    it('rejects unreadable times', () => {
+      const { result } = renderHook(() => useRecipeForm(mockRecipe));
+
+      act(() => {
+        result.current.setPrepTime('a while');
+      });
+
+      expect(result.current.hasChanges).toBe(true);
+      expect(result.current.validate().errors).toContain(
+        'Prep time must be a duration like 45m or 1h 20m.',
+      );
+    });
+
+    it.each(['0', `${MAX_DURATION_MINUTES + 1}`])(
+      'rejects a cook time of %s minutes',
+      value => {
+        const { result } = renderHook(() => useRecipeForm(mockRecipe));
+
+        act(() => {
+          result.current.setCookTime(value);
+        });
+
+        expect(result.current.validate().errors).toContain(
+          'Cook time must be between 1 minute and 72 hr.',
+        );
+      },
+    );
+  });
+
+  describe('fields outside the form', () => {
+    it('keeps the favorite flag when editing', () => {
+      const { result } = renderHook(() =>
+        useRecipeForm({ ...mockRecipe, isFavorite: true }),
+      );
+
+      act(() => {
+        result.current.setTitle('Renamed');
+      });
+
+      expect(result.current.getRecipeData()).toMatchObject({
+        title: 'Renamed',
+        isFavorite: true,
+      });
+    });
+  });
+
   describe('edge cases', () => {
     it('handles undefined initial recipe gracefully', () => {
       const { result } = renderHook(() => useRecipeForm(undefined));
@@ -10,6 +10,34 @@ jest.mock('../../src/screens/AddRecipeScreen', () => ({
   AddRecipeScreen: () => null,
 }));
 
+jest.mock('../../src/screens/RecipeDetailScreen', () => ({
+  RecipeDetailScreen: () => null,
+}));
+
+jest.mock('../../src/screens/ImportRecipesScreen', () => ({
+  ImportRecipesScreen: () => null,
+}));
+
+jest.mock('../../src/screens/TrashScreen', () => ({
+  TrashScreen: () => null,
+}));
+
+jest.mock('../../src/screens/CookingModeScreen', () => ({
+  CookingModeScreen: () => null,
+}));
+
+jest.mock('../../src/screens/ShoppingListScreen', () => ({
+  ShoppingListScreen: () => null,
+}));
+
+jest.mock('../../src/screens/MealPlanScreen', () => ({
+  MealPlanScreen: () => null,
+}));
+
+jest.mock('../../src/screens/RecipeHistoryScreen', () => ({
+  RecipeHistoryScreen: () => null,
+}));
+
 describe('AppNavigator', () => {
   describe('Component structure', () => {
     it('is properly memoized with correct displayName', () => {
@@ -0,0 +1,308 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import { Share } from 'react-native';
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  createBackupBundle,
+  countLocalImages,
+  exportRecipes,
+  isLocalImageUri,
+  parseBackupBundle,
+} from '../../src/services/backup';
+import { invalidateCache } from '../../src/services/storage';
+import { CURRENT_SCHEMA_VERSION } from '../../src/services/migrations';
+import { Recipe } from '../../src/types/Recipe';
+
+const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+
+const remoteRecipe: Recipe = {
+  id: '1',
+  title: 'Remote',
+  description: 'Only remote images',
+  images: ['https://picsum.photos/seed/a/400/400'],
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-02T00:00:00.000Z'),
+};
+
+const localRecipe: Recipe = {
+  id: '2',
+  title: 'Local',
+  description: 'Photos from the device',
+  images: ['file:///photos/cake.jpg'],
+  steps: [{ id: 's1', text: 'Frost', images: ['file:///photos/frosting.jpg'] }],
+  createdAt: new Date('2024-02-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-02-01T00:00:00.000Z'),
+};
+
+class MockFileReader {
+  result: string | null = null;
+  onloadend: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  readAsDataURL(blob: { uri: string }) {
+    this.result = `data:image/jpeg;base64,${blob.uri}`;
+    this.onloadend?.();
+  }
+}
+
+describe('backup', () => {
+  const originalFetch = global.fetch;
+  const originalFileReader = global.FileReader;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    invalidateCache();
+    global.fetch = jest.fn(async (uri: string) => ({
+      blob: async () => ({ uri }),
+    })) as unknown as typeof fetch;
+    global.FileReader = MockFileReader as unknown as typeof FileReader;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    global.FileReader = originalFileReader;
+  });
+
+  describe('isLocalImageUri', () => {
+    it('detects device-local URIs', () => {
+      expect(isLocalImageUri('file:///a.jpg')).toBe(true);
+      expect(isLocalImageUri('content://media/1')).toBe(true);
+      expect(isLocalImageUri('ph://ABC')).toBe(true);
+      expect(isLocalImageUri('https://example.com/a.jpg')).toBe(false);
+    });
+  });
+
+  describe('countLocalImages', () => {
+    it('counts recipe and step images', () => {
+      expect(countLocalImages([remoteRecipe, localRecipe])).toBe(2);
+    });
+  });
+
+  describe('createBackupBundle', () => {
+    it('produces a versioned bundle with ISO dates', async () => {
+      const bundle = await createBackupBundle([remoteRecipe]);
+
+      expect(bundle.format).toBe(BACKUP_FORMAT);
+      expect(bundle.version).toBe(BACKUP_VERSION);
+      expect(bundle.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+      expect(bundle.recipeCount).toBe(1);
+      expect(new Date(bundle.exportedAt).toISOString()).toBe(bundle.exportedAt);
+      expect(bundle.recipes[0]).toEqual({
+        ...remoteRecipe,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-02T00:00:00.000Z',
+      });
+    });
+
+    it('flags local images when not embedding', async () => {
+      const bundle = await createBackupBundle([localRecipe]);
+
+      expect(bundle.imagesEmbedded).toBe(false);
+      expect(bundle.localImageCount).toBe(2);
+      expect(bundle.recipes[0].localImages).toEqual([
+        'file:///photos/cake.jpg',
+        'file:///photos/frosting.jpg',
+      ]);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('embeds local images as data URIs when requested', async () => {
+      const bundle = await createBackupBundle([localRecipe], {
+        embedImages: true,
+      });
+
+      const [recipe] = bundle.recipes;
+      expect(bundle.localImageCount).toBe(0);
+      expect(recipe.localImages).toBeUndefined();
+      expect(recipe.images[0]).toBe(
+        'data:image/jpeg;base64,file:///photos/cake.jpg',
+      );
+      expect(recipe.steps?.[0].images?.[0]).toBe(
+        'data:image/jpeg;base64,file:///photos/frosting.jpg',
+      );
+    });
+
+    it('embeds cook log photos along with recipe images', async () => {
+      const bundle = await createBackupBundle(
+        [
+          {
+            ...remoteRecipe,
+            cookLog: [
+              {
+                id: 'c1',
+                cookedAt: '2026-10-03T18:00:00.000Z',
+                photo: 'file:///photos/dinner.jpg',
+              },
+            ],
+          },
+        ],
+        { embedImages: true },
+      );
+
+      expect(bundle.recipes[0].cookLog?.[0].photo).toBe(
+        'data:image/jpeg;base64,file:///photos/dinner.jpg',
+      );
+      expect(countLocalImages([{ ...localRecipe, cookLog: [] }])).toBe(2);
+    });
+
+    it('flags images that cannot be read', async () => {
+      global.fetch = jest.fn(async () => {
+        throw new Error('missing file');
+      }) as unknown as typeof fetch;
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(jest.fn());
+
+      const bundle = await createBackupBundle([localRecipe], {
+        embedImages: true,
+      });
+
+      expect(bundle.localImageCount).toBe(2);
+      expect(bundle.recipes[0].images[0]).toBe('file:///photos/cake.jpg');
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('exportRecipes', () => {
+    it('shares the serialized bundle', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(
+        JSON.stringify({
+          version: CURRENT_SCHEMA_VERSION,
+          recipes: [
+            {
+              ...remoteRecipe,
+              createdAt: remoteRecipe.createdAt.toISOString(),
+              updatedAt: remoteRecipe.updatedAt.toISOString(),
+            },
+          ],
+        }),
+      );
+      const shareSpy = jest
+        .spyOn(Share, 'share')
+        .mockResolvedValue({ action: Share.sharedAction });
+
+      const result = await exportRecipes();
+
+      const [content] = shareSpy.mock.calls[0];
+      const shared = JSON.parse((content as { message: string }).message);
+      expect(shared.recipes).toHaveLength(1);
+      expect(result).toEqual({
+        recipeCount: 1,
+        localImageCount: 0,
+        shared: true,
+      });
+      shareSpy.mockRestore();
+    });
+
+    it('refuses to export an empty collection', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(null);
+
+      await expect(exportRecipes()).rejects.toThrow(
+        '[Backup:export] There are no recipes to export',
+      );
+    });
+  });
+
+  describe('parseBackupBundle', () => {
+    const toBundleJson = (recipes: unknown[], overrides = {}) =>
+      JSON.stringify({
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        exportedAt: '2024-03-01T00:00:00.000Z',
+        recipes,
+        ...overrides,
+      });
+
+    const serializedRemote = {
+      ...remoteRecipe,
+      createdAt: remoteRecipe.createdAt.toISOString(),
+      updatedAt: remoteRecipe.updatedAt.toISOString(),
+    };
+
+    it('restores recipes and drops export-only metadata', async () => {
+      const bundle = await createBackupBundle([remoteRecipe, localRecipe]);
+
+      const parsed = parseBackupBundle(JSON.stringify(bundle));
+
+      expect(parsed.issues).toEqual([]);
+      expect(parsed.recipes).toEqual([remoteRecipe, localRecipe]);
+      expect(parsed.recipes[1]).not.toHaveProperty('localImages');
+      expect(parsed.exportedAt).toBe(bundle.exportedAt);
+    });
+
+    it('keeps ratings, notes and the cook log', async () => {
+      const rated: Recipe = {
+        ...remoteRecipe,
+        rating: 5,
+        cookLog: [
+          { id: 'c1', cookedAt: '2026-10-03T18:00:00.000Z', rating: 4 },
+        ],
+        notes: [
+          {
+            id: 'n1',
+            text: 'Used less salt',
+            createdAt: '2026-10-03T00:00:00Z',
+          },
+        ],
+      };
+      const bundle = await createBackupBundle([rated]);
+
+      expect(parseBackupBundle(JSON.stringify(bundle)).recipes).toEqual([
+        rated,
+      ]);
+    });
+
+    it('reports invalid recipes without rejecting the rest', () => {
+      const parsed = parseBackupBundle(
+        toBundleJson([
+          serializedRemote,
+          { ...serializedRemote, id: '3', title: '   ' },
+          { ...serializedRemote, id: '4', createdAt: 'not a date' },
+          { ...serializedRemote, id: '5', images: [42] },
+          'not a recipe',
+        ]),
+      );
+
+      expect(parsed.recipes.map(recipe => recipe.id)).toEqual(['1']);
+      expect(parsed.issues).toEqual([
+        { index: 1, title: undefined, message: 'Missing title' },
+        { index: 2, title: 'Remote', message: 'Invalid creation date' },
+        { index: 3, title: 'Remote', message: 'Images must be a list of URIs' },
+        { index: 4, message: 'Entry is not a recipe' },
+      ]);
+    });
+
+    it('reports duplicate IDs within the backup', () => {
+      const parsed = parseBackupBundle(
+        toBundleJson([serializedRemote, { ...serializedRemote, title: 'Dup' }]),
+      );
+
+      expect(parsed.recipes).toHaveLength(1);
+      expect(parsed.issues).toEqual([
+        { index: 1, title: 'Dup', message: 'Duplicate recipe ID in backup' },
+      ]);
+    });
+
+    it('rejects malformed bundles', () => {
+      expect(() => parseBackupBundle('{oops')).toThrow(
+        '[Backup:import] The backup is not valid JSON',
+      );
+      expect(() => parseBackupBundle(JSON.stringify([]))).toThrow(
+        '[Backup:import] This is not a recipe backup',
+      );
+      expect(() =>
+        parseBackupBundle(toBundleJson([], { version: BACKUP_VERSION + 1 })),
+      ).toThrow('[Backup:import] This backup was created by a newer version');
+      expect(() =>
+        parseBackupBundle(toBundleJson([], { recipes: undefined })),
+      ).toThrow('[Backup:import] The backup contains no recipe list');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  clearCookingProgress,
+  getCookingProgress,
+  removeCookingProgress,
+  saveCookingProgress,
+} from '../../src/services/cookingProgress';
+
+const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+
+const KEY = '@recipe_app_cooking_progress';
+
+describe('cookingProgress', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAsyncStorage.setItem.mockResolvedValue();
+  });
+
+  it('restores the progress saved for a recipe', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue(
+      JSON.stringify({ a: { stepIndex: 2, checkedIngredients: ['x'] } }),
+    );
+
+    expect(await getCookingProgress('a')).toEqual({
+      stepIndex: 2,
+      checkedIngredients: ['x'],
+    });
+    expect(await getCookingProgress('b')).toBeNull();
+    expect(mockAsyncStorage.getItem).toHaveBeenCalledWith(KEY);
+  });
+
+  it('ignores malformed progress', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue(
+      JSON.stringify({ a: { stepIndex: -1, checkedIngredients: [] } }),
+    );
+    expect(await getCookingProgress('a')).toBeNull();
+
+    mockAsyncStorage.getItem.mockResolvedValue('not json');
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(jest.fn());
+    expect(await getCookingProgress('a')).toBeNull();
+    expect(warnSpy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+
+  it('saves progress without touching other recipes', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue(
+      JSON.stringify({ a: { stepIndex: 1, checkedIngredients: [] } }),
+    );
+
+    await saveCookingProgress('b', { stepIndex: 3, checkedIngredients: ['y'] });
+
+    expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+      KEY,
+      JSON.stringify({
+        a: { stepIndex: 1, checkedIngredients: [] },
+        b: { stepIndex: 3, checkedIngredients: ['y'] },
+      }),
+    );
+  });
+
+  it('clears progress for a finished recipe', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue(
+      JSON.stringify({
+        a: { stepIndex: 1, checkedIngredients: [] },
+        b: { stepIndex: 3, checkedIngredients: [] },
+      }),
+    );
+
+    await clearCookingProgress('a');
+
+    expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+      KEY,
+      JSON.stringify({ b: { stepIndex: 3, checkedIngredients: [] } }),
+    );
+  });
+
+  it('removes progress for several recipes at once', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue(
+      JSON.stringify({
+        a: { stepIndex: 1, checkedIngredients: [] },
+        b: { stepIndex: 3, checkedIngredients: [] },
+        c: { stepIndex: 0, checkedIngredients: ['x'] },
+      }),
+    );
+
+    await removeCookingProgress(['a', 'c', 'missing']);
+
+    expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+      KEY,
+      JSON.stringify({ b: { stepIndex: 3, checkedIngredients: [] } }),
+    );
+  });
+
+  it('does not write when there is nothing to clear', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue(null);
+
+    await clearCookingProgress('a');
+
+    expect(mockAsyncStorage.setItem).not.toHaveBeenCalled();
+  });
+});
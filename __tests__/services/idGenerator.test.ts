@@ -0,0 +1,32 @@
+import { describe, it, expect } from '@jest/globals';
+import { generateId } from '../../src/services/idGenerator';
+
+describe('idGenerator', () => {
+  it('creates 26-character base32 IDs', () => {
+    expect(generateId()).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+  });
+
+  it('never repeats within the same millisecond', () => {
+    const now = Date.now() + 1000;
+    const ids = Array.from({ length: 1000 }, () => generateId(now));
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect([...ids].sort()).toEqual(ids);
+  });
+
+  it('sorts by creation time', () => {
+    const now = Date.now() + 2000;
+    const ids = [generateId(now), generateId(now + 1), generateId(now + 60000)];
+
+    expect([...ids].sort()).toEqual(ids);
+    expect(ids[0].slice(0, 10)).not.toBe(ids[1].slice(0, 10));
+  });
+
+  it('keeps counting up when the clock moves backwards', () => {
+    const now = Date.now() + 120000;
+    const later = generateId(now);
+    const earlier = generateId(now - 5000);
+
+    expect(earlier > later).toBe(true);
+  });
+});
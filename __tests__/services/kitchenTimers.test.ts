@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getKitchenTimers,
+  getTimerEndTime,
+  saveKitchenTimers,
+} from '../../src/services/kitchenTimers';
+
+const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+
+const KEY = '@recipe_app_kitchen_timers';
+
+const timer = {
+  id: 't1',
+  label: 'Lasagna, step 3',
+  recipeId: 'r1',
+  startedAt: 1_000_000,
+  durationSeconds: 1500,
+};
+
+describe('kitchenTimers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAsyncStorage.setItem.mockResolvedValue();
+    mockAsyncStorage.removeItem.mockResolvedValue();
+  });
+
+  it('restores saved timers and drops malformed ones', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue(
+      JSON.stringify([timer, { id: 't2', label: 'Bad', durationSeconds: 0 }]),
+    );
+
+    expect(await getKitchenTimers()).toEqual([timer]);
+    expect(mockAsyncStorage.getItem).toHaveBeenCalledWith(KEY);
+  });
+
+  it('returns no timers when nothing is saved or the data is unreadable', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue(null);
+    expect(await getKitchenTimers()).toEqual([]);
+
+    mockAsyncStorage.getItem.mockResolvedValue('not json');
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(jest.fn());
+    expect(await getKitchenTimers()).toEqual([]);
+    expect(warnSpy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+
+  it('saves timers and removes the key when none are left', async () => {
+    await saveKitchenTimers([timer]);
+    expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+      KEY,
+      JSON.stringify([timer]),
+    );
+
+    await saveKitchenTimers([]);
+    expect(mockAsyncStorage.removeItem).toHaveBeenCalledWith(KEY);
+  });
+
+  it('computes when a timer goes off', () => {
+    expect(getTimerEndTime(timer)).toBe(1_000_000 + 1_500_000);
+  });
+});
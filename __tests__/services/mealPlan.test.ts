@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getMealPlan,
+  markMealPlanRecipesDeleted,
+  removeMealPlanRecipes,
+  saveMealPlan,
+} from '../../src/services/mealPlan';
+import { MealPlanEntry } from '../../src/types/MealPlan';
+
+const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+
+const KEY = '@recipe_app_meal_plan';
+
+const entries: MealPlanEntry[] = [
+  { date: '2024-03-04', slot: 'dinner', recipeId: 'a' },
+  { date: '2024-03-05', slot: 'lunch', recipeId: 'b' },
+  { date: '2024-03-06', slot: 'dinner', recipeId: 'a' },
+];
+
+const getSaved = () =>
+  JSON.parse(mockAsyncStorage.setItem.mock.calls[0][1] as string);
+
+describe('mealPlan service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAsyncStorage.setItem.mockResolvedValue();
+  });
+
+  it('loads the plan and drops malformed entries', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue(
+      JSON.stringify([
+        ...entries,
+        { date: 'Monday', slot: 'dinner', recipeId: 'c' },
+        { date: '2024-03-04', slot: 'brunch', recipeId: 'c' },
+      ]),
+    );
+
+    expect(await getMealPlan()).toEqual(entries);
+    expect(mockAsyncStorage.getItem).toHaveBeenCalledWith(KEY);
+  });
+
+  it('returns an empty plan when the data is unreadable', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue('not json');
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(jest.fn());
+
+    expect(await getMealPlan()).toEqual([]);
+    expect(warnSpy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+
+  it('saves the plan', async () => {
+    await saveMealPlan(entries);
+
+    expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+      KEY,
+      JSON.stringify(entries),
+    );
+  });
+
+  it('passes on write errors', async () => {
+    mockAsyncStorage.setItem.mockRejectedValue(new Error('disk full'));
+
+    await expect(saveMealPlan(entries)).rejects.toThrow('disk full');
+  });
+
+  it('flags and unflags entries for trashed recipes', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify(entries));
+
+    await markMealPlanRecipesDeleted(['a'], true);
+
+    expect(getSaved()).toEqual([
+      { ...entries[0], isRecipeDeleted: true },
+      entries[1],
+      { ...entries[2], isRecipeDeleted: true },
+    ]);
+
+    mockAsyncStorage.getItem.mockResolvedValue(
+      mockAsyncStorage.setItem.mock.calls[0][1] as string,
+    );
+    mockAsyncStorage.setItem.mockClear();
+
+    await markMealPlanRecipesDeleted(['a'], false);
+
+    expect(getSaved()).toEqual(entries);
+  });
+
+  it('removes entries for purged recipes', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify(entries));
+
+    await removeMealPlanRecipes(['a']);
+
+    expect(getSaved()).toEqual([entries[1]]);
+  });
+
+  it('does not write when no entry refers to the recipes', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify(entries));
+
+    await markMealPlanRecipesDeleted(['z'], true);
+    await removeMealPlanRecipes(['z']);
+
+    expect(mockAsyncStorage.setItem).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  CURRENT_SCHEMA_VERSION,
+  MIGRATIONS,
+  Migration,
+  migratePayload,
+  toStoragePayload,
+} from '../../src/services/migrations';
+
+describe('storage migrations', () => {
+  describe('registry', () => {
+    it('is ordered by consecutive target versions starting at 1', () => {
+      MIGRATIONS.forEach((migration, index) => {
+        expect(migration.toVersion).toBe(index + 1);
+      });
+      expect(CURRENT_SCHEMA_VERSION).toBe(MIGRATIONS.length);
+    });
+  });
+
+  describe('toStoragePayload', () => {
+    it('treats a bare array as version 0', () => {
+      expect(toStoragePayload([{ id: '1' }])).toEqual({
+        version: 0,
+        recipes: [{ id: '1' }],
+      });
+    });
+
+    it('accepts a versioned envelope as-is', () => {
+      const envelope = { version: 1, recipes: [] };
+
+      expect(toStoragePayload(envelope)).toBe(envelope);
+    });
+
+    it.each([null, 'text', 42, { recipes: [] }, { version: 1 }])(
+      'rejects unrecognized data: %p',
+      data => {
+        expect(() => toStoragePayload(data)).toThrow(
+          '[Storage:migrate] Unrecognized storage payload',
+        );
+      },
+    );
+  });
+
+  describe('migratePayload', () => {
+    it('upgrades v0 data to the current version', () => {
+      const recipes = [{ id: '1', title: 'Legacy' }];
+
+      const result = migratePayload({ version: 0, recipes });
+
+      expect(result.migrated).toBe(true);
+      expect(result.payload).toEqual({
+        version: CURRENT_SCHEMA_VERSION,
+        recipes,
+      });
+    });
+
+    it('leaves current payloads untouched', () => {
+      const payload = { version: CURRENT_SCHEMA_VERSION, recipes: [] };
+
+      const result = migratePayload(payload);
+
+      expect(result.migrated).toBe(false);
+      expect(result.payload).toBe(payload);
+    });
+
+    it('runs only the migrations newer than the payload, in order', () => {
+      const calls: number[] = [];
+      const registry: Migration[] = [1, 2, 3].map(toVersion => ({
+        toVersion,
+        description: `to v${toVersion}`,
+        migrate: jest.fn((payload: { version: number; recipes: unknown[] }) => {
+          calls.push(toVersion);
+          return payload;
+        }),
+      }));
+
+      const result = migratePayload({ version: 1, recipes: [] }, registry);
+
+      expect(calls).toEqual([2, 3]);
+      expect(result.payload.version).toBe(3);
+    });
+
+    it('keeps existing recipe IDs, storing numeric ones as strings', () => {
+      const result = migratePayload({
+        version: 1,
+        recipes: [
+          { id: '1700000000000', title: 'Old' },
+          { id: 1700000000001, title: 'Numeric' },
+          { id: '01J9ZQ4Y8M6QW0T3F2N5K7B1XD', title: 'New' },
+        ],
+      });
+
+      expect(result.payload.recipes).toEqual([
+        { id: '1700000000000', title: 'Old' },
+        { id: '1700000000001', title: 'Numeric' },
+        { id: '01J9ZQ4Y8M6QW0T3F2N5K7B1XD', title: 'New' },
+      ]);
+    });
+
+    it('gives recipes with a missing or repeated ID a new one', () => {
+      const result = migratePayload({
+        version: 1,
+        recipes: [
+          { id: '1700000000000', title: 'First' },
+          { id: '1700000000000', title: 'Same millisecond' },
+          { id: '  ', title: 'Blank' },
+          { title: 'Missing' },
+        ],
+      });
+      const ids = (result.payload.recipes as { id: string }[]).map(r => r.id);
+
+      expect(ids[0]).toBe('1700000000000');
+      expect(new Set(ids).size).toBe(4);
+      ids.slice(1).forEach(id => expect(id).toMatch(/^[0-9A-Z]{26}$/));
+    });
+
+    it('rejects payloads from a newer schema', () => {
+      expect(() =>
+        migratePayload({ version: CURRENT_SCHEMA_VERSION + 1, recipes: [] }),
+      ).toThrow('is newer than supported version');
+    });
+
+    it('rejects registries with gaps', () => {
+      const registry: Migration[] = [
+        { toVersion: 1, description: 'v1', migrate: p => p },
+        { toVersion: 3, description: 'v3', migrate: p => p },
+      ];
+
+      expect(() =>
+        migratePayload({ version: 0, recipes: [] }, registry),
+      ).toThrow('Missing migration from version 1 to 2');
+    });
+  });
+});
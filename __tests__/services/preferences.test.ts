@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getConfirmDelete,
+  getSortOrder,
+  getTrashRetentionDays,
+  getUnitPreference,
+  setConfirmDelete,
+  setSortOrder,
+  setTrashRetentionDays,
+  setUnitPreference,
+} from '../../src/services/preferences';
+
+const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+
+describe('preferences', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('sort order', () => {
+    it('restores a saved sort order', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue('title');
+
+      expect(await getSortOrder()).toBe('title');
+      expect(mockAsyncStorage.getItem).toHaveBeenCalledWith(
+        '@recipe_app_sort_order',
+      );
+    });
+
+    it('falls back to the default for missing or unknown values', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(null);
+      expect(await getSortOrder()).toBe('created');
+
+      mockAsyncStorage.getItem.mockResolvedValue('bogus');
+      expect(await getSortOrder()).toBe('created');
+    });
+
+    it('falls back to the default when storage fails', async () => {
+      mockAsyncStorage.getItem.mockRejectedValue(new Error('unavailable'));
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(jest.fn());
+
+      expect(await getSortOrder()).toBe('created');
+      warnSpy.mockRestore();
+    });
+
+    it('persists the chosen sort order', async () => {
+      mockAsyncStorage.setItem.mockResolvedValue();
+
+      await setSortOrder('updated');
+
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+        '@recipe_app_sort_order',
+        'updated',
+      );
+    });
+  });
+
+  describe('trash retention', () => {
+    it('restores a saved retention period', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue('7');
+
+      expect(await getTrashRetentionDays()).toBe(7);
+    });
+
+    it('falls back to the default for missing or invalid values', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(null);
+      expect(await getTrashRetentionDays()).toBe(30);
+
+      mockAsyncStorage.getItem.mockResolvedValue('-3');
+      expect(await getTrashRetentionDays()).toBe(30);
+    });
+
+    it('persists the chosen retention period', async () => {
+      mockAsyncStorage.setItem.mockResolvedValue();
+
+      await setTrashRetentionDays(90);
+
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+        '@recipe_app_trash_retention_days',
+        '90',
+      );
+    });
+  });
+
+  describe('delete confirmation', () => {
+    it('asks for confirmation unless turned off', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(null);
+      expect(await getConfirmDelete()).toBe(true);
+
+      mockAsyncStorage.getItem.mockResolvedValue('false');
+      expect(await getConfirmDelete()).toBe(false);
+    });
+
+    it('persists the setting', async () => {
+      mockAsyncStorage.setItem.mockResolvedValue();
+
+      await setConfirmDelete(false);
+
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+        '@recipe_app_confirm_delete',
+        'false',
+      );
+    });
+  });
+
+  describe('unit preference', () => {
+    it('restores a saved unit preference', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue('metric');
+
+      expect(await getUnitPreference()).toBe('metric');
+      expect(mockAsyncStorage.getItem).toHaveBeenCalledWith(
+        '@recipe_app_unit_preference',
+      );
+    });
+
+    it('shows units as written for missing or unknown values', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(null);
+      expect(await getUnitPreference()).toBe('original');
+
+      mockAsyncStorage.getItem.mockResolvedValue('imperial');
+      expect(await getUnitPreference()).toBe('original');
+    });
+
+    it('persists the chosen unit preference', async () => {
+      mockAsyncStorage.setItem.mockResolvedValue();
+
+      await setUnitPreference('us');
+
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+        '@recipe_app_unit_preference',
+        'us',
+      );
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getRecipeHistory,
+  recordRevision,
+  removeRecipeHistory,
+} from '../../src/services/recipeHistory';
+import { Recipe } from '../../src/types/Recipe';
+import { RecipeRevision } from '../../src/types/RecipeHistory';
+
+const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+
+const KEY = '@recipe_app_recipe_history';
+
+const revision = (id: string, recipeId: string): RecipeRevision => ({
+  id,
+  recipeId,
+  savedAt: '2026-02-01T00:00:00.000Z',
+  snapshot: { title: id, description: '', images: [] },
+});
+
+const recipe: Recipe = {
+  id: '1',
+  title: 'Soup',
+  description: '',
+  images: [],
+  rating: 3,
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2026-02-01T00:00:00.000Z'),
+};
+
+const getSaved = (): RecipeRevision[] =>
+  JSON.parse(mockAsyncStorage.setItem.mock.calls[0][1] as string);
+
+describe('recipeHistory service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAsyncStorage.getItem.mockResolvedValue(null);
+    mockAsyncStorage.setItem.mockResolvedValue();
+  });
+
+  it("returns a recipe's earlier versions, most recent first", async () => {
+    mockAsyncStorage.getItem.mockResolvedValue(
+      JSON.stringify([
+        revision('a', '1'),
+        revision('b', '2'),
+        revision('c', '1'),
+        { id: 'broken' },
+      ]),
+    );
+
+    const history = await getRecipeHistory('1');
+
+    expect(history.map(r => r.id)).toEqual(['c', 'a']);
+    expect(mockAsyncStorage.getItem).toHaveBeenCalledWith(KEY);
+  });
+
+  it('returns no history when the data is unreadable', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue('not json');
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(jest.fn());
+
+    expect(await getRecipeHistory('1')).toEqual([]);
+    expect(warnSpy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+
+  it('records the version being replaced', async () => {
+    await recordRevision(recipe);
+
+    const [saved] = getSaved();
+    expect(saved).toMatchObject({
+      recipeId: '1',
+      savedAt: '2026-02-01T00:00:00.000Z',
+      snapshot: { title: 'Soup', description: '', images: [] },
+    });
+    expect(saved.snapshot).not.toHaveProperty('rating');
+  });
+
+  it('passes on write errors', async () => {
+    mockAsyncStorage.setItem.mockRejectedValue(new Error('disk full'));
+
+    await expect(recordRevision(recipe)).rejects.toThrow('disk full');
+  });
+
+  it('keeps only the most recent versions of each recipe', async () => {
+    const existing = [
+      revision('other', '2'),
+      ...Array.from({ length: 20 }, (_, i) => revision(`r${i}`, '1')),
+    ];
+    mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify(existing));
+
+    await recordRevision(recipe);
+
+    const saved = getSaved();
+    const own = saved.filter(r => r.recipeId === '1');
+    expect(own).toHaveLength(20);
+    expect(own[0].id).toBe('r1');
+    expect(saved.some(r => r.id === 'other')).toBe(true);
+  });
+
+  it('removes the history of deleted recipes', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue(
+      JSON.stringify([revision('a', '1'), revision('b', '2')]),
+    );
+
+    await removeRecipeHistory(['1']);
+
+    expect(getSaved().map(r => r.id)).toEqual(['b']);
+  });
+
+  it('skips the write when there is no history to remove', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue(
+      JSON.stringify([revision('b', '2')]),
+    );
+
+    await removeRecipeHistory(['1']);
+
+    expect(mockAsyncStorage.setItem).not.toHaveBeenCalled();
+  });
+});
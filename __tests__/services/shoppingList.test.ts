@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  addRecipesToShoppingList,
+  getShoppingList,
+  saveShoppingList,
+} from '../../src/services/shoppingList';
+import { makeRecipe } from '../helpers/makeRecipe';
+import { ShoppingListItem } from '../../src/types/ShoppingList';
+
+const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+
+const KEY = '@recipe_app_shopping_list';
+
+const item: ShoppingListItem = {
+  id: 'i1',
+  name: 'flour',
+  quantity: '1',
+  unit: 'cup',
+  category: 'pantry',
+  checked: false,
+  recipeIds: ['r1'],
+};
+
+describe('shoppingList service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAsyncStorage.setItem.mockResolvedValue();
+  });
+
+  it('loads the saved list and drops malformed items', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue(
+      JSON.stringify([item, { ...item, id: 'i2', category: 'garden' }]),
+    );
+
+    expect(await getShoppingList()).toEqual([item]);
+    expect(mockAsyncStorage.getItem).toHaveBeenCalledWith(KEY);
+  });
+
+  it('returns an empty list when nothing is saved or the data is unreadable', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue(null);
+    expect(await getShoppingList()).toEqual([]);
+
+    mockAsyncStorage.getItem.mockResolvedValue('not json');
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(jest.fn());
+    expect(await getShoppingList()).toEqual([]);
+    expect(warnSpy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+
+  it('saves the list', async () => {
+    await saveShoppingList([item]);
+
+    expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+      KEY,
+      JSON.stringify([item]),
+    );
+  });
+
+  it('passes on write errors', async () => {
+    mockAsyncStorage.setItem.mockRejectedValue(new Error('disk full'));
+
+    await expect(saveShoppingList([item])).rejects.toThrow('disk full');
+    await expect(
+      addRecipesToShoppingList([
+        makeRecipe({ id: 'r2', description: '2 eggs' }),
+      ]),
+    ).rejects.toThrow('disk full');
+  });
+
+  it('merges the ingredients of several recipes into the saved list', async () => {
+    mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify([item]));
+
+    const list = await addRecipesToShoppingList([
+      makeRecipe({ id: 'r2', description: '1 cup flour\n2 eggs' }),
+      makeRecipe({ id: 'r3', description: '3 eggs' }),
+    ]);
+
+    expect(
+      list.map(({ quantity, unit, name, recipeIds }) => ({
+        quantity,
+        unit,
+        name,
+        recipeIds,
+      })),
+    ).toEqual([
+      { quantity: '2', unit: 'cups', name: 'flour', recipeIds: ['r1', 'r2'] },
+      { quantity: '5', unit: '', name: 'eggs', recipeIds: ['r2', 'r3'] },
+    ]);
+    expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+      KEY,
+      JSON.stringify(list),
+    );
+  });
+});
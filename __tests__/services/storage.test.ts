@@ -3,15 +3,42 @@ import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
   getRecipes,
+  getRecipeById,
   saveRecipe,
   updateRecipe,
+  updateRecipeMetadata,
   deleteRecipe,
+  emptyTrash,
+  getAllTags,
+  getTrash,
+  importRecipes,
   invalidateCache,
+  logCook,
+  purgeExpiredTrash,
+  purgeRecipe,
+  restoreRecipe,
+  revertRecipe,
 } from '../../src/services/storage';
+import { CURRENT_SCHEMA_VERSION } from '../../src/services/migrations';
 import { Recipe } from '../../src/types/Recipe';
+import { MealPlanEntry } from '../../src/types/MealPlan';
 
 const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
 
+const toStoredPayload = (recipes: unknown[]): string =>
+  JSON.stringify({ version: CURRENT_SCHEMA_VERSION, recipes });
+
+// Recipe history is written alongside edits, so find the recipes write
+const getRecipesWrite = () => {
+  const call = mockAsyncStorage.setItem.mock.calls.find(
+    ([key]) => key === '@recipes',
+  );
+  if (!call) {
+    throw new Error('Recipes were not written');
+  }
+  return call;
+};
+
 const mockRecipe1: Recipe = {
   id: '1',
   title: 'Test Recipe 1',
@@ -61,7 +88,9 @@ describe('storage functions', () => {
         },
       ];
 
-      mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify(storedRecipes));
+      mockAsyncStorage.getItem.mockResolvedValue(
+        toStoredPayload(storedRecipes),
+      );
 
       const recipes = await getRecipes();
 
@@ -72,6 +101,30 @@ describe('storage functions', () => {
       expect(recipes[1].createdAt).toBeInstanceOf(Date);
     });
 
+    it('keeps only positive whole servings', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(
+        toStoredPayload([
+          {
+            ...mockRecipe1,
+            servings: 4,
+            createdAt: mockRecipe1.createdAt.toISOString(),
+            updatedAt: mockRecipe1.updatedAt.toISOString(),
+          },
+          {
+            ...mockRecipe2,
+            servings: -2,
+            createdAt: mockRecipe2.createdAt.toISOString(),
+            updatedAt: mockRecipe2.updatedAt.toISOString(),
+          },
+        ]),
+      );
+
+      const recipes = await getRecipes();
+
+      expect(recipes[0].servings).toBe(4);
+      expect(recipes[1].servings).toBeUndefined();
+    });
+
     it('uses cache on second call', async () => {
       const storedRecipes = [
         {
@@ -81,7 +134,9 @@ describe('storage functions', () => {
         },
       ];
 
-      mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify(storedRecipes));
+      mockAsyncStorage.getItem.mockResolvedValue(
+        toStoredPayload(storedRecipes),
+      );
 
       // First call - should hit storage
       await getRecipes();
@@ -108,6 +163,98 @@ describe('storage functions', () => {
       consoleSpy.mockRestore();
     });
 
+    it('quarantines a corrupt payload under a backup key', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue('invalid json');
+      const consoleSpy = jest
+        .spyOn(console, 'error')
+        .mockImplementation(jest.fn());
+
+      await getRecipes();
+
+      const backupCall = mockAsyncStorage.setItem.mock.calls[0];
+      const backup = JSON.parse(backupCall[1] as string);
+
+      expect(backupCall[0]).toBe(
+        `@recipes_corrupt_backup:${backup.quarantinedAt}`,
+      );
+      expect(backup.payload).toBe('invalid json');
+      expect(backup.quarantinedAt).toBeDefined();
+      expect(mockAsyncStorage.removeItem).toHaveBeenCalledWith('@recipes');
+      consoleSpy.mockRestore();
+    });
+
+    it('quarantines payloads in an unrecognized shape', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(
+        JSON.stringify({ unexpected: true }),
+      );
+      const consoleSpy = jest
+        .spyOn(console, 'error')
+        .mockImplementation(jest.fn());
+
+      const recipes = await getRecipes();
+
+      expect(recipes).toEqual([]);
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+        expect.stringMatching(/^@recipes_corrupt_backup:/),
+        expect.any(String),
+      );
+      consoleSpy.mockRestore();
+    });
+
+    it('keeps every quarantined payload under its own key', async () => {
+      jest.useFakeTimers();
+      mockAsyncStorage.getItem.mockResolvedValue('invalid json');
+      const consoleSpy = jest
+        .spyOn(console, 'error')
+        .mockImplementation(jest.fn());
+
+      jest.setSystemTime(new Date('2026-10-01T00:00:00.000Z'));
+      await getRecipes();
+      invalidateCache();
+      jest.setSystemTime(new Date('2026-10-02T00:00:00.000Z'));
+      await getRecipes();
+
+      expect(mockAsyncStorage.setItem.mock.calls.map(([key]) => key)).toEqual([
+        '@recipes_corrupt_backup:2026-10-01T00:00:00.000Z',
+        '@recipes_corrupt_backup:2026-10-02T00:00:00.000Z',
+      ]);
+      consoleSpy.mockRestore();
+      jest.useRealTimers();
+    });
+
+    it('fails without touching data from a newer schema', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(
+        JSON.stringify({ version: CURRENT_SCHEMA_VERSION + 1, recipes: [] }),
+      );
+      const consoleSpy = jest
+        .spyOn(console, 'error')
+        .mockImplementation(jest.fn());
+
+      await expect(getRecipes()).rejects.toThrow(
+        'is newer than supported version',
+      );
+      await expect(saveRecipe(mockRecipe1)).rejects.toThrow(
+        'is newer than supported version',
+      );
+
+      expect(mockAsyncStorage.setItem).not.toHaveBeenCalled();
+      expect(mockAsyncStorage.removeItem).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it('does not quarantine when AsyncStorage itself fails', async () => {
+      mockAsyncStorage.getItem.mockRejectedValue(new Error('unavailable'));
+      const consoleSpy = jest
+        .spyOn(console, 'error')
+        .mockImplementation(jest.fn());
+
+      await getRecipes();
+
+      expect(mockAsyncStorage.setItem).not.toHaveBeenCalled();
+      expect(mockAsyncStorage.removeItem).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
     it('returns empty array when AsyncStorage throws error', async () => {
       const error = new Error('AsyncStorage error');
       mockAsyncStorage.getItem.mockRejectedValue(error);
@@ -131,7 +278,9 @@ describe('storage functions', () => {
         },
       ];
 
-      mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify(storedRecipes));
+      mockAsyncStorage.getItem.mockResolvedValue(
+        toStoredPayload(storedRecipes),
+      );
 
       const recipes = await getRecipes();
 
@@ -139,6 +288,227 @@ describe('storage functions', () => {
       // Should use current date as fallback for invalid date
       expect(recipes[0].createdAt.getTime()).not.toBeNaN();
     });
+    it('loads recipes stored without ingredients', async () => {
+      const storedRecipes = [
+        {
+          id: 'legacy',
+          title: 'Legacy',
+          description: 'Saved before ingredients existed',
+          images: [],
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: '2024-01-01T00:00:00.000Z',
+        },
+      ];
+
+      mockAsyncStorage.getItem.mockResolvedValue(
+        toStoredPayload(storedRecipes),
+      );
+
+      const recipes = await getRecipes();
+
+      expect(recipes).toHaveLength(1);
+      expect(recipes[0].ingredients).toBeUndefined();
+    });
+
+    it('drops malformed ingredient rows', async () => {
+      const storedRecipes = [
+        {
+          ...mockRecipe1,
+          createdAt: mockRecipe1.createdAt.toISOString(),
+          updatedAt: mockRecipe1.updatedAt.toISOString(),
+          ingredients: [
+            { id: 'a', quantity: '2', unit: 'cups', name: 'flour' },
+            { quantity: '1' },
+            null,
+          ],
+        },
+      ];
+
+      mockAsyncStorage.getItem.mockResolvedValue(
+        toStoredPayload(storedRecipes),
+      );
+
+      const recipes = await getRecipes();
+
+      expect(recipes[0].ingredients).toEqual([
+        { id: 'a', quantity: '2', unit: 'cups', name: 'flour' },
+      ]);
+    });
+
+    it('keeps valid ratings and notes', async () => {
+      const storedRecipes = [
+        {
+          ...mockRecipe1,
+          createdAt: mockRecipe1.createdAt.toISOString(),
+          updatedAt: mockRecipe1.updatedAt.toISOString(),
+          rating: 4,
+          notes: [
+            { id: 'n1', text: 'Less salt', createdAt: '2026-10-03T00:00:00Z' },
+            { text: 'No ID', createdAt: '2026-10-04T00:00:00Z' },
+            { id: 'n3', text: '', createdAt: '2026-10-05T00:00:00Z' },
+            { id: 'n4', text: 'Bad date', createdAt: 'yesterday' },
+          ],
+        },
+        {
+          ...mockRecipe2,
+          createdAt: mockRecipe2.createdAt.toISOString(),
+          updatedAt: mockRecipe2.updatedAt.toISOString(),
+          rating: 9,
+          notes: 'not a list',
+        },
+      ];
+
+      mockAsyncStorage.getItem.mockResolvedValue(
+        toStoredPayload(storedRecipes),
+      );
+
+      const [first, second] = await getRecipes();
+
+      expect(first.rating).toBe(4);
+      expect(first.notes).toEqual([
+        { id: 'n1', text: 'Less salt', createdAt: '2026-10-03T00:00:00Z' },
+        { id: 'note-1', text: 'No ID', createdAt: '2026-10-04T00:00:00Z' },
+      ]);
+      expect(second.rating).toBeUndefined();
+      expect(second.notes).toBeUndefined();
+    });
+  });
+
+  describe('schema migrations', () => {
+    it('migrates v0 data (a bare recipe array) into a versioned envelope', async () => {
+      const legacyRecipes = [
+        {
+          ...mockRecipe1,
+          createdAt: mockRecipe1.createdAt.toISOString(),
+          updatedAt: mockRecipe1.updatedAt.toISOString(),
+        },
+        {
+          ...mockRecipe2,
+          createdAt: mockRecipe2.createdAt.toISOString(),
+          updatedAt: mockRecipe2.updatedAt.toISOString(),
+        },
+      ];
+      mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify(legacyRecipes));
+      mockAsyncStorage.setItem.mockResolvedValue();
+
+      const recipes = await getRecipes();
+
+      expect(recipes).toEqual([mockRecipe1, mockRecipe2]);
+
+      const savedCall = mockAsyncStorage.setItem.mock.calls[0];
+      const saved = JSON.parse(savedCall[1] as string);
+
+      expect(savedCall[0]).toBe('@recipes');
+      expect(saved.version).toBe(CURRENT_SCHEMA_VERSION);
+      expect(saved.recipes).toEqual(legacyRecipes);
+    });
+
+    it('keeps numeric IDs from earlier versions usable', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(
+        JSON.stringify({
+          version: 1,
+          recipes: [
+            {
+              ...mockRecipe1,
+              id: 1700000000000,
+              createdAt: mockRecipe1.createdAt.toISOString(),
+              updatedAt: mockRecipe1.updatedAt.toISOString(),
+            },
+          ],
+        }),
+      );
+      mockAsyncStorage.setItem.mockResolvedValue();
+
+      const recipe = await getRecipeById('1700000000000');
+
+      expect(recipe?.title).toBe(mockRecipe1.title);
+      const saved = JSON.parse(
+        mockAsyncStorage.setItem.mock.calls[0][1] as string,
+      );
+      expect(saved.recipes[0].id).toBe('1700000000000');
+    });
+
+    it('does not rewrite payloads that are already current', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(toStoredPayload([]));
+
+      await getRecipes();
+
+      expect(mockAsyncStorage.setItem).not.toHaveBeenCalled();
+    });
+
+    it('still returns migrated recipes when the write-back fails', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(
+        JSON.stringify([
+          {
+            ...mockRecipe1,
+            createdAt: mockRecipe1.createdAt.toISOString(),
+            updatedAt: mockRecipe1.updatedAt.toISOString(),
+          },
+        ]),
+      );
+      mockAsyncStorage.setItem.mockRejectedValue(new Error('disk full'));
+      const consoleSpy = jest
+        .spyOn(console, 'error')
+        .mockImplementation(jest.fn());
+
+      const recipes = await getRecipes();
+
+      expect(recipes).toEqual([mockRecipe1]);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Storage migration write error:',
+        expect.any(Error),
+      );
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('getAllTags', () => {
+    it('counts tag usage and normalizes stored tags', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(
+        toStoredPayload([
+          { ...mockRecipe1, tags: ['Quick', 'vegetarian', 'quick'] },
+          { ...mockRecipe2, tags: ['vegetarian', 42] },
+        ]),
+      );
+
+      expect(await getAllTags()).toEqual([
+        { tag: 'vegetarian', count: 2 },
+        { tag: 'quick', count: 1 },
+      ]);
+    });
+
+    it('reuses the tag index until recipes change', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(
+        toStoredPayload([{ ...mockRecipe1, tags: ['quick'] }]),
+      );
+      mockAsyncStorage.setItem.mockResolvedValue();
+
+      const first = await getAllTags();
+      expect(await getAllTags()).toBe(first);
+
+      await saveRecipe({ ...mockRecipe2, tags: ['quick'] });
+
+      expect(await getAllTags()).toEqual([{ tag: 'quick', count: 2 }]);
+    });
+  });
+
+  describe('getRecipeById', () => {
+    it('returns the matching recipe or undefined', async () => {
+      const storedRecipes = [
+        {
+          ...mockRecipe1,
+          createdAt: mockRecipe1.createdAt.toISOString(),
+          updatedAt: mockRecipe1.updatedAt.toISOString(),
+        },
+      ];
+
+      mockAsyncStorage.getItem.mockResolvedValue(
+        toStoredPayload(storedRecipes),
+      );
+
+      expect(await getRecipeById('1')).toEqual(mockRecipe1);
+      expect(await getRecipeById('missing')).toBeUndefined();
+    });
   });
 
   describe('saveRecipe', () => {
@@ -151,14 +521,14 @@ describe('storage functions', () => {
         },
       ];
       mockAsyncStorage.getItem.mockResolvedValue(
-        JSON.stringify(existingRecipes),
+        toStoredPayload(existingRecipes),
       );
       mockAsyncStorage.setItem.mockResolvedValue();
 
       await saveRecipe(mockRecipe2);
 
       const savedCall = mockAsyncStorage.setItem.mock.calls[0];
-      const savedData = JSON.parse(savedCall[1] as string);
+      const savedData = JSON.parse(savedCall[1] as string).recipes;
 
       expect(savedCall[0]).toBe('@recipes');
       expect(savedData).toHaveLength(2);
@@ -173,7 +543,7 @@ describe('storage functions', () => {
       await saveRecipe(mockRecipe1);
 
       const savedCall = mockAsyncStorage.setItem.mock.calls[0];
-      const savedData = JSON.parse(savedCall[1] as string);
+      const savedData = JSON.parse(savedCall[1] as string).recipes;
 
       expect(savedCall[0]).toBe('@recipes');
       expect(savedData).toHaveLength(1);
@@ -198,7 +568,7 @@ describe('storage functions', () => {
         },
       ];
       mockAsyncStorage.getItem.mockResolvedValue(
-        JSON.stringify(existingRecipes),
+        toStoredPayload(existingRecipes),
       );
 
       await expect(saveRecipe(mockRecipe1)).rejects.toThrow(
@@ -220,7 +590,7 @@ describe('storage functions', () => {
       await saveRecipe(recipeWithoutDates);
 
       const savedCall = mockAsyncStorage.setItem.mock.calls[0];
-      const savedData = JSON.parse(savedCall[1] as string);
+      const savedData = JSON.parse(savedCall[1] as string).recipes;
 
       expect(savedData[0].createdAt).toBeDefined();
       expect(savedData[0].updatedAt).toBeDefined();
@@ -244,20 +614,51 @@ describe('storage functions', () => {
       const updatedRecipe1 = { ...mockRecipe1, title: 'Updated Title' };
 
       mockAsyncStorage.getItem.mockResolvedValue(
-        JSON.stringify(existingRecipes),
+        toStoredPayload(existingRecipes),
       );
       mockAsyncStorage.setItem.mockResolvedValue();
 
       await updateRecipe(updatedRecipe1);
 
-      const savedCall = mockAsyncStorage.setItem.mock.calls[0];
-      const savedData = JSON.parse(savedCall[1] as string);
+      const savedCall = getRecipesWrite();
+      const savedData = JSON.parse(savedCall[1] as string).recipes;
 
       expect(savedData[0].title).toBe('Updated Title');
       expect(savedData[0].createdAt).toBe(mockRecipe1.createdAt.toISOString());
       expect(savedData[1].id).toBe(mockRecipe2.id);
     });
 
+    it('persists the favorite flag without changing createdAt', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(
+        toStoredPayload([
+          {
+            ...mockRecipe1,
+            createdAt: mockRecipe1.createdAt.toISOString(),
+            updatedAt: mockRecipe1.updatedAt.toISOString(),
+          },
+        ]),
+      );
+      mockAsyncStorage.setItem.mockResolvedValue();
+
+      await updateRecipe({
+        ...mockRecipe1,
+        isFavorite: true,
+        createdAt: new Date('2030-01-01'),
+      });
+
+      const saved = JSON.parse(
+        mockAsyncStorage.setItem.mock.calls[0][1] as string,
+      ).recipes[0];
+      expect(saved.isFavorite).toBe(true);
+      expect(saved.createdAt).toBe(mockRecipe1.createdAt.toISOString());
+
+      invalidateCache();
+      mockAsyncStorage.getItem.mockResolvedValue(
+        mockAsyncStorage.setItem.mock.calls[0][1] as string,
+      );
+      expect((await getRecipes())[0].isFavorite).toBe(true);
+    });
+
     it('throws error when recipe does not exist', async () => {
       const existingRecipes = [
         {
@@ -269,7 +670,7 @@ describe('storage functions', () => {
       const nonExistentRecipe = { ...mockRecipe1, id: 'non-existent' };
 
       mockAsyncStorage.getItem.mockResolvedValue(
-        JSON.stringify(existingRecipes),
+        toStoredPayload(existingRecipes),
       );
 
       await expect(updateRecipe(nonExistentRecipe)).rejects.toThrow(
@@ -296,7 +697,7 @@ describe('storage functions', () => {
       ];
 
       mockAsyncStorage.getItem.mockResolvedValue(
-        JSON.stringify(existingRecipes),
+        toStoredPayload(existingRecipes),
       );
       mockAsyncStorage.setItem.mockResolvedValue();
 
@@ -308,8 +709,8 @@ describe('storage functions', () => {
 
       await updateRecipe(updatedRecipe);
 
-      const savedCall = mockAsyncStorage.setItem.mock.calls[0];
-      const savedData = JSON.parse(savedCall[1] as string);
+      const savedCall = getRecipesWrite();
+      const savedData = JSON.parse(savedCall[1] as string).recipes;
 
       expect(savedData[0].createdAt).toBe(originalCreatedAt); // Should preserve original
       expect(new Date(savedData[0].updatedAt).getTime()).toBeGreaterThan(
@@ -318,6 +719,70 @@ describe('storage functions', () => {
     });
   });
 
+  describe('updateRecipeMetadata', () => {
+    const storedRecipe = {
+      ...mockRecipe1,
+      createdAt: mockRecipe1.createdAt.toISOString(),
+      updatedAt: mockRecipe1.updatedAt.toISOString(),
+    };
+
+    beforeEach(() => {
+      mockAsyncStorage.setItem.mockResolvedValue();
+    });
+
+    it('favorites a recipe without changing updatedAt', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(
+        toStoredPayload([storedRecipe]),
+      );
+
+      const recipe = await updateRecipeMetadata('1', { isFavorite: true });
+
+      expect(recipe.isFavorite).toBe(true);
+      expect(recipe.updatedAt).toEqual(mockRecipe1.updatedAt);
+      const [saved] = JSON.parse(getRecipesWrite()[1] as string).recipes;
+      expect(saved.isFavorite).toBe(true);
+      expect(saved.updatedAt).toBe(mockRecipe1.updatedAt.toISOString());
+    });
+
+    it('rates a recipe and adds notes without changing updatedAt', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(
+        toStoredPayload([storedRecipe]),
+      );
+      const note = {
+        id: 'n1',
+        text: 'Less salt',
+        createdAt: '2026-10-01T18:00:00.000Z',
+      };
+
+      const recipe = await updateRecipeMetadata('1', {
+        rating: 4,
+        notes: [note],
+      });
+
+      expect(recipe).toMatchObject({ rating: 4, notes: [note] });
+      expect(recipe.updatedAt).toEqual(mockRecipe1.updatedAt);
+    });
+
+    it('records no version in the history', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(
+        toStoredPayload([{ ...storedRecipe, isFavorite: true }]),
+      );
+
+      await updateRecipeMetadata('1', { isFavorite: false });
+
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledTimes(1);
+      expect(mockAsyncStorage.setItem.mock.calls[0][0]).toBe('@recipes');
+    });
+
+    it('throws when the recipe does not exist', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(toStoredPayload([]));
+
+      await expect(
+        updateRecipeMetadata('missing', { isFavorite: true }),
+      ).rejects.toThrow('[Storage:update] Recipe missing not found');
+    });
+  });
+
   describe('deleteRecipe', () => {
     it('deletes existing recipe', async () => {
       const existingRecipes = [
@@ -334,19 +799,51 @@ describe('storage functions', () => {
       ];
 
       mockAsyncStorage.getItem.mockResolvedValue(
-        JSON.stringify(existingRecipes),
+        toStoredPayload(existingRecipes),
       );
       mockAsyncStorage.setItem.mockResolvedValue();
 
       await deleteRecipe(mockRecipe1.id);
 
-      const savedCall = mockAsyncStorage.setItem.mock.calls[0];
-      const savedData = JSON.parse(savedCall[1] as string);
+      const savedCall = mockAsyncStorage.setItem.mock.calls.find(
+        ([key]) => key === '@recipes',
+      );
+      const savedData = JSON.parse(savedCall?.[1] as string).recipes;
 
       expect(savedData).toHaveLength(1);
       expect(savedData[0].id).toBe(mockRecipe2.id);
     });
 
+    it('moves the deleted recipe to the trash before removing it', async () => {
+      mockAsyncStorage.getItem.mockImplementation(async key =>
+        key === '@recipes'
+          ? toStoredPayload([
+              {
+                ...mockRecipe1,
+                createdAt: mockRecipe1.createdAt.toISOString(),
+                updatedAt: mockRecipe1.updatedAt.toISOString(),
+              },
+            ])
+          : null,
+      );
+      mockAsyncStorage.setItem.mockResolvedValue();
+
+      await deleteRecipe(mockRecipe1.id);
+
+      const keys = mockAsyncStorage.setItem.mock.calls.map(([key]) => key);
+      expect(keys).toEqual(['@recipes_trash', '@recipes']);
+
+      const trash = JSON.parse(
+        mockAsyncStorage.setItem.mock.calls[0][1] as string,
+      );
+      expect(trash).toHaveLength(1);
+      expect(trash[0]).toMatchObject({
+        id: mockRecipe1.id,
+        createdAt: mockRecipe1.createdAt.toISOString(),
+      });
+      expect(typeof trash[0].deletedAt).toBe('string');
+    });
+
     it('throws error when recipe does not exist', async () => {
       const existingRecipes = [
         {
@@ -357,7 +854,7 @@ describe('storage functions', () => {
       ];
 
       mockAsyncStorage.getItem.mockResolvedValue(
-        JSON.stringify(existingRecipes),
+        toStoredPayload(existingRecipes),
       );
 
       await expect(deleteRecipe('non-existent-id')).rejects.toThrow(
@@ -372,6 +869,680 @@ describe('storage functions', () => {
     });
   });
 
+  describe('cook log', () => {
+    const storedRecipe = (overrides = {}) => ({
+      ...mockRecipe1,
+      createdAt: mockRecipe1.createdAt.toISOString(),
+      updatedAt: mockRecipe1.updatedAt.toISOString(),
+      ...overrides,
+    });
+
+    const getSavedRecipes = () =>
+      JSON.parse(getRecipesWrite()[1] as string).recipes;
+
+    beforeEach(() => {
+      mockAsyncStorage.setItem.mockResolvedValue();
+    });
+
+    it('derives times cooked and the last cooked date', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(
+        toStoredPayload([
+          storedRecipe({
+            cookLog: [
+              { id: 'a', cookedAt: '2026-10-03T18:00:00.000Z', rating: 4 },
+              { id: 'b', cookedAt: '2026-09-01T18:00:00.000Z', rating: 8 },
+              { id: 'c', cookedAt: 'last week' },
+            ],
+          }),
+          storedRecipe({ id: '2' }),
+        ]),
+      );
+
+      const [cooked, uncooked] = await getRecipes();
+
+      expect(cooked.cookLog).toEqual([
+        { id: 'a', cookedAt: '2026-10-03T18:00:00.000Z', rating: 4 },
+        { id: 'b', cookedAt: '2026-09-01T18:00:00.000Z' },
+      ]);
+      expect(cooked.timesCooked).toBe(2);
+      expect(cooked.lastCookedAt).toEqual(new Date('2026-10-03T18:00:00.000Z'));
+      expect(uncooked.timesCooked).toBeUndefined();
+      expect(uncooked.lastCookedAt).toBeUndefined();
+    });
+
+    it('logs a cook without touching updatedAt', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(
+        toStoredPayload([storedRecipe()]),
+      );
+
+      const recipe = await logCook(
+        mockRecipe1.id,
+        { rating: 5, photo: 'file:///photos/dinner.jpg' },
+        new Date('2026-10-03T18:00:00.000Z'),
+      );
+
+      expect(recipe.timesCooked).toBe(1);
+      expect(recipe.lastCookedAt).toEqual(new Date('2026-10-03T18:00:00.000Z'));
+      const [saved] = getSavedRecipes();
+      expect(saved.cookLog).toEqual([
+        {
+          id: expect.any(String),
+          cookedAt: '2026-10-03T18:00:00.000Z',
+          rating: 5,
+          photo: 'file:///photos/dinner.jpg',
+        },
+      ]);
+      expect(saved.updatedAt).toBe(mockRecipe1.updatedAt.toISOString());
+    });
+
+    it('never stores the derived fields', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(
+        toStoredPayload([
+          storedRecipe({
+            cookLog: [{ id: 'a', cookedAt: '2026-10-03T18:00:00.000Z' }],
+          }),
+        ]),
+      );
+      const [recipe] = await getRecipes();
+
+      await updateRecipe({ ...recipe, title: 'Renamed' });
+
+      const [saved] = getSavedRecipes();
+      expect(saved).not.toHaveProperty('timesCooked');
+      expect(saved).not.toHaveProperty('lastCookedAt');
+      expect((await getRecipes())[0].timesCooked).toBe(1);
+    });
+
+    it('throws when logging a cook for a missing recipe', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(toStoredPayload([]));
+
+      await expect(logCook('missing')).rejects.toThrow(
+        '[Storage:cook] Recipe missing not found',
+      );
+    });
+  });
+
+  describe('version history', () => {
+    const HISTORY_KEY = '@recipe_app_recipe_history';
+
+    const storedRecipe = (overrides = {}) => ({
+      ...mockRecipe1,
+      createdAt: mockRecipe1.createdAt.toISOString(),
+      updatedAt: mockRecipe1.updatedAt.toISOString(),
+      ...overrides,
+    });
+
+    const mockStores = (
+      recipes: unknown[],
+      history: unknown[] = [],
+      trash: unknown[] = [],
+    ) => {
+      mockAsyncStorage.getItem.mockImplementation(async key => {
+        if (key === '@recipes') {
+          return toStoredPayload(recipes);
+        }
+        if (key === HISTORY_KEY) {
+          return JSON.stringify(history);
+        }
+        return key === '@recipes_trash' ? JSON.stringify(trash) : null;
+      });
+      mockAsyncStorage.setItem.mockResolvedValue();
+    };
+
+    const getWritten = (key: string) => {
+      const call = mockAsyncStorage.setItem.mock.calls.find(([k]) => k === key);
+      return call ? JSON.parse(call[1] as string) : undefined;
+    };
+
+    it('keeps the replaced version when the content changes', async () => {
+      mockStores([storedRecipe()]);
+      const [recipe] = await getRecipes();
+
+      await updateRecipe({ ...recipe, title: 'Renamed' });
+
+      expect(getWritten(HISTORY_KEY)).toEqual([
+        {
+          id: expect.any(String),
+          recipeId: '1',
+          savedAt: '2024-01-01T00:00:00.000Z',
+          snapshot: {
+            title: 'Test Recipe 1',
+            description: 'Description 1',
+            images: ['https://example.com/image1.jpg'],
+          },
+        },
+      ]);
+    });
+
+    it('does not save the edit when its history cannot be saved', async () => {
+      mockStores([storedRecipe()]);
+      mockAsyncStorage.setItem.mockImplementation(async key => {
+        if (key === HISTORY_KEY) {
+          throw new Error('disk full');
+        }
+      });
+      const [recipe] = await getRecipes();
+
+      await expect(
+        updateRecipe({ ...recipe, title: 'Renamed' }),
+      ).rejects.toThrow('disk full');
+
+      expect(getWritten('@recipes')).toBeUndefined();
+    });
+
+    it('records no version when only the rating changes', async () => {
+      mockStores([storedRecipe()]);
+      const [recipe] = await getRecipes();
+
+      await updateRecipe({ ...recipe, rating: 5 });
+
+      expect(getWritten(HISTORY_KEY)).toBeUndefined();
+    });
+
+    it('reverts by saving the old content as a new version', async () => {
+      mockStores(
+        [storedRecipe({ title: 'Renamed', rating: 4 })],
+        [
+          {
+            id: 'rev-1',
+            recipeId: '1',
+            savedAt: '2024-01-01T00:00:00.000Z',
+            snapshot: {
+              title: 'Test Recipe 1',
+              description: 'Description 1',
+              images: [],
+            },
+          },
+        ],
+      );
+
+      const reverted = await revertRecipe('1', 'rev-1');
+
+      expect(reverted).toMatchObject({
+        title: 'Test Recipe 1',
+        images: [],
+        rating: 4,
+      });
+      expect(reverted.updatedAt.getTime()).toBeGreaterThan(
+        mockRecipe1.updatedAt.getTime(),
+      );
+      const [saved] = getWritten('@recipes').recipes;
+      expect(saved.title).toBe('Test Recipe 1');
+      const history = getWritten(HISTORY_KEY);
+      expect(history[0].id).toBe('rev-1');
+      expect(history[1].snapshot.title).toBe('Renamed');
+    });
+
+    it('throws when reverting to a missing version', async () => {
+      mockStores([storedRecipe()]);
+
+      await expect(revertRecipe('1', 'missing')).rejects.toThrow(
+        '[Storage:revert] Revision missing not found',
+      );
+    });
+
+    it('forgets the history of purged recipes', async () => {
+      mockStores(
+        [],
+        [
+          {
+            id: 'rev-1',
+            recipeId: '1',
+            savedAt: '2024-01-01T00:00:00.000Z',
+            snapshot: { title: 'Old', description: '', images: [] },
+          },
+        ],
+        [{ ...storedRecipe(), deletedAt: '2024-03-01T00:00:00.000Z' }],
+      );
+
+      await purgeRecipe('1');
+
+      expect(getWritten(HISTORY_KEY)).toEqual([]);
+    });
+  });
+
+  describe('trash', () => {
+    const serialize = (recipe: Recipe, deletedAt?: string) => ({
+      ...recipe,
+      createdAt: recipe.createdAt.toISOString(),
+      updatedAt: recipe.updatedAt.toISOString(),
+      ...(deletedAt ? { deletedAt } : {}),
+    });
+
+    const mockStores = (
+      recipes: Recipe[],
+      trash: unknown[],
+      mealPlan?: MealPlanEntry[],
+    ) => {
+      mockAsyncStorage.getItem.mockImplementation(async key => {
+        if (key === '@recipes') {
+          return toStoredPayload(recipes.map(recipe => serialize(recipe)));
+        }
+        if (key === '@recipe_app_meal_plan') {
+          return mealPlan ? JSON.stringify(mealPlan) : null;
+        }
+        return key === '@recipes_trash' ? JSON.stringify(trash) : null;
+      });
+      mockAsyncStorage.setItem.mockResolvedValue();
+    };
+
+    const getWritten = (key: string) => {
+      const call = mockAsyncStorage.setItem.mock.calls.find(([k]) => k === key);
+      return call ? JSON.parse(call[1] as string) : undefined;
+    };
+
+    it('lists trashed recipes newest deletion first', async () => {
+      mockStores(
+        [],
+        [
+          serialize(mockRecipe1, '2024-03-01T00:00:00.000Z'),
+          serialize(mockRecipe2, '2024-03-05T00:00:00.000Z'),
+        ],
+      );
+
+      const trash = await getTrash();
+
+      expect(trash.map(recipe => recipe.id)).toEqual(['2', '1']);
+      expect(trash[0].deletedAt).toEqual(new Date('2024-03-05T00:00:00.000Z'));
+      expect(trash[0].createdAt).toEqual(mockRecipe2.createdAt);
+    });
+
+    it('keeps an unreadable trash under a backup key', async () => {
+      const consoleSpy = jest
+        .spyOn(console, 'error')
+        .mockImplementation(jest.fn());
+      mockStores([mockRecipe1], []);
+      mockAsyncStorage.getItem.mockImplementation(async key =>
+        key === '@recipes'
+          ? toStoredPayload([serialize(mockRecipe1)])
+          : '{oops',
+      );
+
+      await deleteRecipe(mockRecipe1.id);
+
+      const backupCall = mockAsyncStorage.setItem.mock.calls.find(([key]) =>
+        key.startsWith('@recipes_trash_corrupt_backup:'),
+      );
+      expect(JSON.parse(backupCall?.[1] as string).payload).toBe('{oops');
+      expect(mockAsyncStorage.removeItem).toHaveBeenCalledWith(
+        '@recipes_trash',
+      );
+      consoleSpy.mockRestore();
+    });
+
+    it('leaves an unreadable trash in place when it cannot be backed up', async () => {
+      const consoleSpy = jest
+        .spyOn(console, 'error')
+        .mockImplementation(jest.fn());
+      mockStores([mockRecipe1], []);
+      mockAsyncStorage.getItem.mockImplementation(async key =>
+        key === '@recipes'
+          ? toStoredPayload([serialize(mockRecipe1)])
+          : '{oops',
+      );
+      mockAsyncStorage.setItem.mockRejectedValue(new Error('disk full'));
+
+      await expect(deleteRecipe(mockRecipe1.id)).rejects.toThrow(
+        '[Storage:trash] Trash could not be read',
+      );
+      expect(mockAsyncStorage.removeItem).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it('fails instead of emptying the trash when it cannot be read', async () => {
+      mockStores([], [serialize(mockRecipe1, '2024-03-01T00:00:00.000Z')]);
+      mockAsyncStorage.getItem.mockRejectedValue(new Error('unavailable'));
+
+      await expect(purgeExpiredTrash(30)).rejects.toThrow('unavailable');
+      expect(mockAsyncStorage.setItem).not.toHaveBeenCalled();
+      expect(mockAsyncStorage.removeItem).not.toHaveBeenCalled();
+    });
+
+    it('restores a recipe with its original ID and timestamps', async () => {
+      mockStores(
+        [mockRecipe2],
+        [serialize(mockRecipe1, '2024-03-01T00:00:00.000Z')],
+      );
+
+      const restored = await restoreRecipe(mockRecipe1.id);
+
+      expect(restored).toEqual(mockRecipe1);
+      const recipes = getWritten('@recipes').recipes;
+      expect(recipes.map((r: Recipe) => r.id)).toEqual(['2', '1']);
+      expect(recipes[1].createdAt).toBe(mockRecipe1.createdAt.toISOString());
+      expect(recipes[1]).not.toHaveProperty('deletedAt');
+      expect(getWritten('@recipes_trash')).toEqual([]);
+    });
+
+    it('refuses to restore a recipe that is not in the trash', async () => {
+      mockStores([], []);
+
+      await expect(restoreRecipe('missing')).rejects.toThrow(
+        '[Storage:restore] Recipe missing is not in the trash',
+      );
+    });
+
+    it('refuses to restore over an existing recipe', async () => {
+      mockStores(
+        [mockRecipe1],
+        [serialize(mockRecipe1, '2024-03-01T00:00:00.000Z')],
+      );
+
+      await expect(restoreRecipe(mockRecipe1.id)).rejects.toThrow(
+        '[Storage:restore] Recipe 1 already exists',
+      );
+    });
+
+    it('permanently deletes a single trashed recipe', async () => {
+      mockStores(
+        [],
+        [
+          serialize(mockRecipe1, '2024-03-01T00:00:00.000Z'),
+          serialize(mockRecipe2, '2024-03-05T00:00:00.000Z'),
+        ],
+      );
+
+      await purgeRecipe(mockRecipe1.id);
+
+      const trash = getWritten('@recipes_trash');
+      expect(trash.map((r: Recipe) => r.id)).toEqual(['2']);
+    });
+
+    it('throws when purging a recipe that is not in the trash', async () => {
+      mockStores([], []);
+
+      await expect(purgeRecipe('missing')).rejects.toThrow(
+        '[Storage:purge] Recipe missing is not in the trash',
+      );
+    });
+
+    it('empties the trash', async () => {
+      mockAsyncStorage.removeItem.mockResolvedValue();
+
+      await emptyTrash();
+
+      expect(mockAsyncStorage.removeItem).toHaveBeenCalledWith(
+        '@recipes_trash',
+      );
+    });
+
+    it('purges recipes older than the retention period', async () => {
+      mockStores(
+        [],
+        [
+          serialize(mockRecipe1, '2024-03-01T00:00:00.000Z'),
+          serialize(mockRecipe2, '2024-03-20T00:00:00.000Z'),
+        ],
+      );
+
+      const purged = await purgeExpiredTrash(
+        7,
+        new Date('2024-03-22T00:00:00.000Z'),
+      );
+
+      expect(purged).toBe(1);
+      const trash = getWritten('@recipes_trash');
+      expect(trash.map((r: Recipe) => r.id)).toEqual(['2']);
+    });
+
+    it('forgets saved cooking progress for purged recipes', async () => {
+      const PROGRESS_KEY = '@recipe_app_cooking_progress';
+      mockStores(
+        [],
+        [
+          serialize(mockRecipe1, '2024-03-01T00:00:00.000Z'),
+          serialize(mockRecipe2, '2024-03-20T00:00:00.000Z'),
+        ],
+      );
+      const readStore = mockAsyncStorage.getItem.getMockImplementation();
+      mockAsyncStorage.getItem.mockImplementation(async key =>
+        key === PROGRESS_KEY
+          ? JSON.stringify({
+              '1': { stepIndex: 2, checkedIngredients: [] },
+              '2': { stepIndex: 1, checkedIngredients: [] },
+            })
+          : readStore?.(key) ?? null,
+      );
+
+      await purgeExpiredTrash(7, new Date('2024-03-22T00:00:00.000Z'));
+
+      expect(getWritten(PROGRESS_KEY)).toEqual({
+        '2': { stepIndex: 1, checkedIngredients: [] },
+      });
+    });
+
+    it('does not write when nothing has expired', async () => {
+      mockStores([], [serialize(mockRecipe1, '2024-03-20T00:00:00.000Z')]);
+
+      const purged = await purgeExpiredTrash(
+        30,
+        new Date('2024-03-22T00:00:00.000Z'),
+      );
+
+      expect(purged).toBe(0);
+      expect(mockAsyncStorage.setItem).not.toHaveBeenCalled();
+    });
+
+    describe('planned meals', () => {
+      const mealPlan: MealPlanEntry[] = [
+        { date: '2024-03-04', slot: 'dinner', recipeId: '1' },
+        { date: '2024-03-05', slot: 'lunch', recipeId: '2' },
+      ];
+      const trashedPlan: MealPlanEntry[] = [
+        { ...mealPlan[0], isRecipeDeleted: true },
+        mealPlan[1],
+      ];
+
+      it('flags entries for a deleted recipe', async () => {
+        mockStores([mockRecipe1, mockRecipe2], [], mealPlan);
+
+        await deleteRecipe(mockRecipe1.id);
+
+        expect(getWritten('@recipe_app_meal_plan')).toEqual(trashedPlan);
+      });
+
+      it('still deletes the recipe when the meal plan cannot be saved', async () => {
+        const consoleSpy = jest
+          .spyOn(console, 'error')
+          .mockImplementation(jest.fn());
+        mockStores([mockRecipe1, mockRecipe2], [], mealPlan);
+        mockAsyncStorage.setItem.mockImplementation(async key => {
+          if (key === '@recipe_app_meal_plan') {
+            throw new Error('disk full');
+          }
+        });
+
+        await expect(deleteRecipe(mockRecipe1.id)).resolves.toBeUndefined();
+
+        expect(getWritten('@recipes').recipes.map((r: Recipe) => r.id)).toEqual(
+          ['2'],
+        );
+        expect(consoleSpy).toHaveBeenCalledWith(
+          'Meal plan update error:',
+          expect.any(Error),
+        );
+        consoleSpy.mockRestore();
+      });
+
+      it('unflags entries when the recipe is restored', async () => {
+        mockStores(
+          [],
+          [serialize(mockRecipe1, '2024-03-01T00:00:00.000Z')],
+          trashedPlan,
+        );
+
+        await restoreRecipe(mockRecipe1.id);
+
+        expect(getWritten('@recipe_app_meal_plan')).toEqual(mealPlan);
+      });
+
+      it('removes entries for a purged recipe', async () => {
+        mockStores(
+          [],
+          [serialize(mockRecipe1, '2024-03-01T00:00:00.000Z')],
+          trashedPlan,
+        );
+
+        await purgeRecipe(mockRecipe1.id);
+
+        expect(getWritten('@recipe_app_meal_plan')).toEqual([mealPlan[1]]);
+      });
+
+      it('removes entries for every recipe when the trash is emptied', async () => {
+        mockStores(
+          [],
+          [
+            serialize(mockRecipe1, '2024-03-01T00:00:00.000Z'),
+            serialize(mockRecipe2, '2024-03-05T00:00:00.000Z'),
+          ],
+          mealPlan,
+        );
+        mockAsyncStorage.removeItem.mockResolvedValue();
+
+        await emptyTrash();
+
+        expect(getWritten('@recipe_app_meal_plan')).toEqual([]);
+      });
+
+      it('removes entries for expired recipes', async () => {
+        mockStores(
+          [],
+          [
+            serialize(mockRecipe1, '2024-03-01T00:00:00.000Z'),
+            serialize(mockRecipe2, '2024-03-20T00:00:00.000Z'),
+          ],
+          trashedPlan,
+        );
+
+        await purgeExpiredTrash(7, new Date('2024-03-22T00:00:00.000Z'));
+
+        expect(getWritten('@recipe_app_meal_plan')).toEqual([mealPlan[1]]);
+      });
+    });
+  });
+
+  describe('importRecipes', () => {
+    const storedRecipe1 = {
+      ...mockRecipe1,
+      createdAt: mockRecipe1.createdAt.toISOString(),
+      updatedAt: mockRecipe1.updatedAt.toISOString(),
+    };
+    const importedRecipe1: Recipe = {
+      ...mockRecipe1,
+      title: 'Imported Recipe 1',
+      updatedAt: new Date('2024-03-01'),
+    };
+
+    const getSavedRecipes = () =>
+      JSON.parse(getRecipesWrite()[1] as string).recipes;
+
+    beforeEach(() => {
+      mockAsyncStorage.getItem.mockImplementation(async key =>
+        key === '@recipes' ? toStoredPayload([storedRecipe1]) : null,
+      );
+      mockAsyncStorage.setItem.mockResolvedValue();
+    });
+
+    it('adds new recipes and skips conflicts by default', async () => {
+      const summary = await importRecipes([importedRecipe1, mockRecipe2]);
+
+      expect(summary).toEqual({
+        added: 1,
+        overwritten: 0,
+        keptBoth: 0,
+        skipped: 1,
+      });
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledTimes(1);
+      const saved = getSavedRecipes();
+      expect(saved.map((r: Recipe) => r.id)).toEqual(['1', '2']);
+      expect(saved[0].title).toBe('Test Recipe 1');
+    });
+
+    it('overwrites conflicts when requested', async () => {
+      const summary = await importRecipes([importedRecipe1], {
+        '1': 'overwrite',
+      });
+
+      expect(summary.overwritten).toBe(1);
+      const saved = getSavedRecipes();
+      expect(saved).toHaveLength(1);
+      expect(saved[0].title).toBe('Imported Recipe 1');
+    });
+
+    it('keeps both copies under a new ID', async () => {
+      const summary = await importRecipes([importedRecipe1], {}, 'keepBoth');
+
+      expect(summary.keptBoth).toBe(1);
+      const saved = getSavedRecipes();
+      expect(saved).toHaveLength(2);
+      expect(saved[1].id).not.toBe('1');
+      expect(saved[1].title).toBe('Imported Recipe 1 (imported)');
+    });
+
+    it('does not write when every recipe is skipped', async () => {
+      const summary = await importRecipes([importedRecipe1]);
+
+      expect(summary.skipped).toBe(1);
+      expect(mockAsyncStorage.setItem).not.toHaveBeenCalled();
+    });
+
+    describe('with the ID in the trash', () => {
+      beforeEach(() => {
+        mockAsyncStorage.getItem.mockImplementation(async key => {
+          if (key === '@recipes') {
+            return toStoredPayload([]);
+          }
+          return key === '@recipes_trash'
+            ? JSON.stringify([
+                { ...storedRecipe1, deletedAt: '2024-03-05T00:00:00.000Z' },
+              ])
+            : null;
+        });
+      });
+
+      const getWrittenTrash = () => {
+        const call = mockAsyncStorage.setItem.mock.calls.find(
+          ([key]) => key === '@recipes_trash',
+        );
+        return call ? JSON.parse(call[1] as string) : undefined;
+      };
+
+      it('treats the recipe as a conflict', async () => {
+        const summary = await importRecipes([importedRecipe1]);
+
+        expect(summary.skipped).toBe(1);
+        expect(mockAsyncStorage.setItem).not.toHaveBeenCalled();
+      });
+
+      it('keeps both copies under a new ID', async () => {
+        await importRecipes([importedRecipe1], {}, 'keepBoth');
+
+        const saved = getSavedRecipes();
+        expect(saved).toHaveLength(1);
+        expect(saved[0].id).not.toBe('1');
+        expect(getWrittenTrash()).toBeUndefined();
+      });
+
+      it('takes the trashed recipe out of the trash on overwrite', async () => {
+        const summary = await importRecipes([importedRecipe1], {
+          '1': 'overwrite',
+        });
+
+        expect(summary.overwritten).toBe(1);
+        const saved = getSavedRecipes();
+        expect(saved.map((r: Recipe) => r.id)).toEqual(['1']);
+        expect(saved[0].title).toBe('Imported Recipe 1');
+        expect(getWrittenTrash()).toEqual([]);
+      });
+    });
+
+    it('throws when an imported recipe has no ID', async () => {
+      await expect(importRecipes([{ ...mockRecipe2, id: '' }])).rejects.toThrow(
+        '[Storage:import] Every imported recipe must have an ID',
+      );
+    });
+  });
+
   describe('mutex behavior', () => {
     it('processes concurrent operations sequentially', async () => {
       const callOrder: string[] = [];
@@ -380,7 +1551,7 @@ describe('storage functions', () => {
       mockAsyncStorage.getItem.mockImplementation(() => {
         callOrder.push('read');
         return new Promise(resolve =>
-          setTimeout(() => resolve(JSON.stringify([])), 10),
+          setTimeout(() => resolve(toStoredPayload([])), 10),
         );
       });
 
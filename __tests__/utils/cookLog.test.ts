@@ -0,0 +1,33 @@
+import { describe, it, expect } from '@jest/globals';
+import { formatTimesCooked, getCookHistory } from '../../src/utils/cookLog';
+import { Recipe } from '../../src/types/Recipe';
+
+describe('cookLog', () => {
+  it('formats how often a recipe was cooked', () => {
+    expect(formatTimesCooked(1)).toBe('Cooked once');
+    expect(formatTimesCooked(4)).toBe('Cooked 4 times');
+  });
+
+  it('lists the cook history most recent first', () => {
+    const recipe: Recipe = {
+      id: '1',
+      title: 'Soup',
+      description: '',
+      images: [],
+      cookLog: [
+        { id: 'a', cookedAt: '2026-09-01T18:00:00.000Z' },
+        { id: 'c', cookedAt: '2026-10-03T18:00:00.000Z' },
+        { id: 'b', cookedAt: '2026-09-15T18:00:00.000Z' },
+      ],
+      createdAt: new Date('2026-01-01'),
+      updatedAt: new Date('2026-01-01'),
+    };
+
+    expect(getCookHistory(recipe).map(entry => entry.id)).toEqual([
+      'c',
+      'b',
+      'a',
+    ]);
+    expect(recipe.cookLog?.[0].id).toBe('a');
+  });
+});
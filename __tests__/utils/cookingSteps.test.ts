@@ -0,0 +1,72 @@
+import { getCookingSteps, splitMethodText } from '../../src/utils/cookingSteps';
+import { makeRecipe } from '../helpers/makeRecipe';
+import { describe, it, expect } from '@jest/globals';
+
+describe('cookingSteps', () => {
+  describe('splitMethodText', () => {
+    it('splits numbered lines into steps', () => {
+      expect(
+        splitMethodText(
+          '1. Preheat the oven.\n2) Mix the batter.\nStep 3: Bake.',
+        ),
+      ).toEqual(['Preheat the oven.', 'Mix the batter.', 'Bake.']);
+    });
+
+    it('joins lines that continue a numbered step', () => {
+      expect(
+        splitMethodText('1. Whisk the eggs\nuntil pale.\n\n2. Fold in flour.'),
+      ).toEqual(['Whisk the eggs until pale.', 'Fold in flour.']);
+    });
+
+    it('keeps text before the first number as its own step', () => {
+      expect(splitMethodText('Serves four.\n1. Chop.\n2. Fry.')).toEqual([
+        'Serves four.',
+        'Chop.',
+        'Fry.',
+      ]);
+    });
+
+    it('splits paragraphs separated by blank lines', () => {
+      expect(
+        splitMethodText('Boil the pasta.\nSalt the water.\n\n  \nDrain it.'),
+      ).toEqual(['Boil the pasta. Salt the water.', 'Drain it.']);
+    });
+
+    it('does not mistake decimals for step numbers', () => {
+      expect(splitMethodText('1.5 cups of stock go in.\nStir well.')).toEqual([
+        '1.5 cups of stock go in.',
+        'Stir well.',
+      ]);
+    });
+
+    it('falls back to single lines without blank lines', () => {
+      expect(splitMethodText('Chop\nFry\n')).toEqual(['Chop', 'Fry']);
+    });
+
+    it('returns no steps for blank text', () => {
+      expect(splitMethodText('  \n ')).toEqual([]);
+    });
+  });
+
+  describe('getCookingSteps', () => {
+    it('prefers structured steps', () => {
+      const recipe = makeRecipe({
+        description: '1. Ignored',
+        steps: [{ id: 'a', text: 'Simmer', durationMinutes: 10 }],
+      });
+
+      expect(getCookingSteps(recipe)).toEqual([
+        { text: 'Simmer', durationMinutes: 10, images: undefined },
+      ]);
+    });
+
+    it('splits the description when there are no steps', () => {
+      const recipe = makeRecipe({ description: '1. Chop\n2. Fry', steps: [] });
+
+      expect(getCookingSteps(recipe)).toEqual([
+        { text: 'Chop' },
+        { text: 'Fry' },
+      ]);
+    });
+  });
+});
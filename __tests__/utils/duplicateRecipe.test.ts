@@ -0,0 +1,67 @@
+import { describe, it, expect } from '@jest/globals';
+import { duplicateRecipe } from '../../src/utils/duplicateRecipe';
+import { Recipe } from '../../src/types/Recipe';
+import { MAX_TITLE_LENGTH } from '../../src/constants';
+
+const recipe: Recipe = {
+  id: '1',
+  title: 'Soup',
+  description: 'Warm',
+  images: ['file:///a.jpg'],
+  servings: 4,
+  ingredients: [{ id: 'i', quantity: '1', unit: 'l', name: 'stock' }],
+  tags: ['dinner'],
+  isFavorite: true,
+  rating: 5,
+  notes: [
+    { id: 'n', text: 'Less salt', createdAt: '2026-09-01T18:00:00.000Z' },
+  ],
+  cookLog: [{ id: 'c', cookedAt: '2026-09-01T18:00:00.000Z' }],
+  timesCooked: 1,
+  lastCookedAt: new Date('2026-09-01T18:00:00.000Z'),
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-02-01'),
+};
+
+describe('duplicateRecipe', () => {
+  const now = new Date('2026-10-19T12:00:00.000Z');
+
+  it('copies the content with a new ID, title and timestamps', () => {
+    expect(duplicateRecipe(recipe, now)).toEqual({
+      id: expect.any(String),
+      title: 'Soup (copy)',
+      description: 'Warm',
+      images: ['file:///a.jpg'],
+      servings: 4,
+      ingredients: recipe.ingredients,
+      tags: ['dinner'],
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+
+  it('gives every copy its own ID', () => {
+    const first = duplicateRecipe(recipe, now);
+    const second = duplicateRecipe(recipe, now);
+
+    expect(first.id).not.toBe(recipe.id);
+    expect(second.id).not.toBe(first.id);
+  });
+
+  it('shortens long titles so the copy still fits', () => {
+    const copy = duplicateRecipe(
+      { ...recipe, title: 'a'.repeat(MAX_TITLE_LENGTH) },
+      now,
+    );
+
+    expect(copy.title).toHaveLength(MAX_TITLE_LENGTH);
+    expect(copy.title.endsWith(' (copy)')).toBe(true);
+  });
+
+  it('leaves the original untouched', () => {
+    duplicateRecipe(recipe, now);
+
+    expect(recipe.rating).toBe(5);
+    expect(recipe.title).toBe('Soup');
+  });
+});
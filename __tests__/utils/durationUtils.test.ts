@@ -0,0 +1,131 @@
+import {
+  filterRecipesByTotalTime,
+  findDurationMentions,
+  formatCountdown,
+  formatDuration,
+  formatTimerDuration,
+  getTotalMinutes,
+  parseDuration,
+} from '../../src/utils/durationUtils';
+import { makeRecipe } from '../helpers/makeRecipe';
+import { describe, it, expect } from '@jest/globals';
+
+describe('durationUtils', () => {
+  describe('parseDuration', () => {
+    it.each([
+      ['45', 45],
+      ['1h 20m', 80],
+      ['1h20m', 80],
+      ['1 hr 20 min', 80],
+      ['2 hours', 120],
+      ['1 hour and 15 minutes', 75],
+      ['1.5h', 90],
+      ['1:20', 80],
+      ['1 day', 1440],
+      ['90 Mins', 90],
+    ])('parses "%s" as %d minutes', (text, minutes) => {
+      expect(parseDuration(text)).toBe(minutes);
+    });
+
+    it.each(['', '   ', 'soon', '1h soon', '20 seconds', '1:75', 'about 1h'])(
+      'returns null for "%s"',
+      text => {
+        expect(parseDuration(text)).toBeNull();
+      },
+    );
+  });
+
+  describe('formatDuration', () => {
+    it('formats minutes in the long style', () => {
+      expect(formatDuration(45)).toBe('45 min');
+      expect(formatDuration(60)).toBe('1 hr');
+      expect(formatDuration(80)).toBe('1 hr 20 min');
+    });
+
+    it('formats minutes in the short style', () => {
+      expect(formatDuration(45, 'short')).toBe('45m');
+      expect(formatDuration(80, 'short')).toBe('1h 20m');
+    });
+
+    it('round-trips through parseDuration', () => {
+      [5, 60, 95, 1500].forEach(minutes => {
+        expect(parseDuration(formatDuration(minutes, 'short'))).toBe(minutes);
+        expect(parseDuration(formatDuration(minutes))).toBe(minutes);
+      });
+    });
+  });
+
+  describe('getTotalMinutes', () => {
+    it('adds prep and cook time', () => {
+      expect(getTotalMinutes({ prepMinutes: 15, cookMinutes: 30 })).toBe(45);
+      expect(getTotalMinutes({ cookMinutes: 30 })).toBe(30);
+    });
+
+    it('is undefined when neither is set', () => {
+      expect(getTotalMinutes({})).toBeUndefined();
+    });
+  });
+
+  describe('filterRecipesByTotalTime', () => {
+    const recipes = [
+      makeRecipe({ id: 'quick', prepMinutes: 10, cookMinutes: 20 }),
+      makeRecipe({ id: 'slow', cookMinutes: 90 }),
+      makeRecipe({ id: 'untimed' }),
+    ];
+
+    it('keeps recipes within the limit, inclusive', () => {
+      expect(
+        filterRecipesByTotalTime(recipes, 30).map(recipe => recipe.id),
+      ).toEqual(['quick']);
+    });
+
+    it('returns every recipe without a limit', () => {
+      expect(filterRecipesByTotalTime(recipes, null)).toBe(recipes);
+    });
+  });
+
+  describe('findDurationMentions', () => {
+    it('finds durations in recipe text', () => {
+      expect(
+        findDurationMentions('Bake 25 minutes, then rest for 1 hour.'),
+      ).toEqual([
+        { text: '25 minutes', index: 5, seconds: 1500 },
+        { text: '1 hour', index: 31, seconds: 3600 },
+      ]);
+    });
+
+    it.each([
+      ['Simmer 1 hour and 15 minutes', 4500],
+      ['Roast for 1 hr 30 min', 5400],
+      ['Whisk for 30 seconds', 30],
+      ['Cook 1.5 hours', 5400],
+      ['Bake 20-25 min', 1200],
+      ['Chill 2 to 3 hours', 7200],
+    ])('reads "%s"', (text, seconds) => {
+      expect(findDurationMentions(text).map(m => m.seconds)).toEqual([seconds]);
+    });
+
+    it('ignores numbers that are not durations', () => {
+      expect(findDurationMentions('Add 2 cups flour at 180°C')).toEqual([]);
+      expect(findDurationMentions('Use 3 minced cloves')).toEqual([]);
+    });
+  });
+
+  describe('formatTimerDuration', () => {
+    it('formats minutes and leftover seconds', () => {
+      expect(formatTimerDuration(1500)).toBe('25 min');
+      expect(formatTimerDuration(5400)).toBe('1 hr 30 min');
+      expect(formatTimerDuration(45)).toBe('45 sec');
+      expect(formatTimerDuration(150)).toBe('2 min 30 sec');
+    });
+  });
+
+  describe('formatCountdown', () => {
+    it('formats time left as a clock', () => {
+      expect(formatCountdown(245)).toBe('4:05');
+      expect(formatCountdown(3723)).toBe('1:02:03');
+      expect(formatCountdown(59.2)).toBe('1:00');
+      expect(formatCountdown(-3)).toBe('0:00');
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import {
+  formatIngredient,
+  parseIngredientBlock,
+  parseIngredientLine,
+} from '../../src/utils/ingredientParser';
+import { describe, it, expect } from '@jest/globals';
+
+describe('ingredientParser', () => {
+  describe('parseIngredientLine', () => {
+    it('splits quantity, unit, name and note', () => {
+      expect(
+        parseIngredientLine('2 1/2 cups all-purpose flour, sifted'),
+      ).toEqual({
+        quantity: '2 1/2',
+        unit: 'cups',
+        name: 'all-purpose flour',
+        note: 'sifted',
+      });
+    });
+
+    it.each([
+      ['1½ tsp salt', '1½', 'tsp', 'salt'],
+      ['¾ cup sugar', '¾', 'cup', 'sugar'],
+      ['1 ½ cups milk', '1 ½', 'cups', 'milk'],
+      ['0.5 kg potatoes', '0.5', 'kg', 'potatoes'],
+      ['3/4 lb ground beef', '3/4', 'lb', 'ground beef'],
+      ['200g butter', '200', 'g', 'butter'],
+      ['2 Tbsp. olive oil', '2', 'Tbsp', 'olive oil'],
+      ['1 T honey', '1', 'T', 'honey'],
+      ['4 fl oz cream', '4', 'fl oz', 'cream'],
+      ['2 cups of water', '2', 'cups', 'water'],
+    ])('parses "%s"', (line, quantity, unit, name) => {
+      expect(parseIngredientLine(line)).toEqual({ quantity, unit, name });
+    });
+
+    it('parses ranges', () => {
+      expect(parseIngredientLine('2-3 cloves garlic, minced')).toEqual({
+        quantity: '2-3',
+        unit: 'cloves',
+        name: 'garlic',
+        note: 'minced',
+      });
+      expect(parseIngredientLine('2 – 3 tbsp water')).toMatchObject({
+        quantity: '2-3',
+        unit: 'tbsp',
+      });
+      expect(parseIngredientLine('1 to 2 cups stock')).toMatchObject({
+        quantity: '1-2',
+        unit: 'cups',
+      });
+    });
+
+    it('reads "a" and "an" as one', () => {
+      expect(parseIngredientLine('a pinch of salt')).toEqual({
+        quantity: '1',
+        unit: 'pinch',
+        name: 'salt',
+      });
+      expect(parseIngredientLine('An onion, diced')).toEqual({
+        quantity: '1',
+        unit: '',
+        name: 'onion',
+        note: 'diced',
+      });
+    });
+
+    it('accepts count units without a quantity', () => {
+      expect(parseIngredientLine('Pinch of nutmeg')).toEqual({
+        quantity: '',
+        unit: 'Pinch',
+        name: 'nutmeg',
+      });
+    });
+
+    it('does not read measurement units from a name without a quantity', () => {
+      expect(parseIngredientLine('T-bone steak')).toEqual({
+        quantity: '',
+        unit: '',
+        name: 'T-bone steak',
+      });
+      expect(parseIngredientLine('g fuel')).toMatchObject({
+        unit: '',
+        name: 'g fuel',
+      });
+    });
+
+    it('moves parenthetical text into the note', () => {
+      expect(
+        parseIngredientLine('1 (14 oz) can diced tomatoes, drained'),
+      ).toEqual({
+        quantity: '1',
+        unit: 'can',
+        name: 'diced tomatoes',
+        note: '14 oz, drained',
+      });
+    });
+
+    it('keeps lines without a quantity as names', () => {
+      expect(parseIngredientLine('Salt and pepper, to taste')).toEqual({
+        quantity: '',
+        unit: '',
+        name: 'Salt and pepper',
+        note: 'to taste',
+      });
+      expect(parseIngredientLine('3 large eggs')).toEqual({
+        quantity: '3',
+        unit: '',
+        name: 'large eggs',
+      });
+    });
+
+    it('strips list markers', () => {
+      expect(parseIngredientLine('- 1 cup rice')).toMatchObject({
+        quantity: '1',
+        name: 'rice',
+      });
+      expect(parseIngredientLine('• 2 eggs')).toMatchObject({
+        quantity: '2',
+        name: 'eggs',
+      });
+      expect(parseIngredientLine('3) 1.5 cups oats')).toMatchObject({
+        quantity: '1.5',
+        name: 'oats',
+      });
+    });
+
+    it('returns null for blank lines', () => {
+      expect(parseIngredientLine('')).toBeNull();
+      expect(parseIngredientLine('   ')).toBeNull();
+      expect(parseIngredientLine(' - ')).toBeNull();
+    });
+
+    it('keeps the unit as the name when a line names no ingredient', () => {
+      expect(parseIngredientLine('2 cups')).toEqual({
+        quantity: '2',
+        unit: '',
+        name: 'cups',
+      });
+      expect(parseIngredientLine('1 tbsp.')).toEqual({
+        quantity: '1',
+        unit: '',
+        name: 'tbsp',
+      });
+    });
+
+    it('returns null for a quantity on its own', () => {
+      expect(parseIngredientLine('3')).toBeNull();
+      expect(parseIngredientLine('1/2')).toBeNull();
+    });
+  });
+
+  describe('parseIngredientBlock', () => {
+    it('parses each line and skips blanks', () => {
+      const parsed = parseIngredientBlock(
+        '2 cups flour\n\n1 tsp baking soda\r\n  \n3 eggs',
+      );
+
+      expect(parsed.map(ingredient => ingredient.name)).toEqual([
+        'flour',
+        'baking soda',
+        'eggs',
+      ]);
+    });
+
+    it('turns lines ending in a colon into groups', () => {
+      const parsed = parseIngredientBlock(
+        ['1 lb pasta', 'For the sauce:', '2 tbsp butter', '- 1 cup cream'].join(
+          '\n',
+        ),
+      );
+
+      expect(parsed).toEqual([
+        { quantity: '1', unit: 'lb', name: 'pasta' },
+        { quantity: '2', unit: 'tbsp', name: 'butter', group: 'For the sauce' },
+        { quantity: '1', unit: 'cup', name: 'cream', group: 'For the sauce' },
+      ]);
+    });
+
+    it('returns an empty list for blank input', () => {
+      expect(parseIngredientBlock('\n  \n')).toEqual([]);
+    });
+  });
+
+  describe('formatIngredient', () => {
+    it('joins the filled-in parts', () => {
+      expect(
+        formatIngredient({
+          id: '1',
+          quantity: '2',
+          unit: 'cups',
+          name: 'flour',
+          note: 'sifted',
+        }),
+      ).toBe('2 cups flour');
+      expect(
+        formatIngredient({ id: '2', quantity: '', unit: '', name: 'Salt' }),
+      ).toBe('Salt');
+    });
+  });
+});
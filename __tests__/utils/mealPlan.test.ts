@@ -0,0 +1,138 @@
+import {
+  addDays,
+  getWeekDates,
+  getWeekEntries,
+  getWeekStart,
+  getWeekSummary,
+  isMealSlot,
+  setPlannedRecipe,
+  toDateKey,
+} from '../../src/utils/mealPlan';
+import { makeRecipe } from '../helpers/makeRecipe';
+import { MealPlanEntry } from '../../src/types/MealPlan';
+import { describe, it, expect } from '@jest/globals';
+
+describe('mealPlan', () => {
+  describe('dates', () => {
+    it('formats local dates as YYYY-MM-DD', () => {
+      expect(toDateKey(new Date(2024, 2, 5, 23, 30))).toBe('2024-03-05');
+    });
+
+    it('starts weeks on Monday', () => {
+      // Wednesday 6 March 2024 and Sunday 10 March 2024
+      expect(toDateKey(getWeekStart(new Date(2024, 2, 6, 15)))).toBe(
+        '2024-03-04',
+      );
+      expect(toDateKey(getWeekStart(new Date(2024, 2, 10)))).toBe('2024-03-04');
+      expect(toDateKey(getWeekStart(new Date(2024, 2, 4)))).toBe('2024-03-04');
+    });
+
+    it('lists the seven days of a week across month ends', () => {
+      expect(getWeekDates(new Date(2024, 1, 26)).map(toDateKey)).toEqual([
+        '2024-02-26',
+        '2024-02-27',
+        '2024-02-28',
+        '2024-02-29',
+        '2024-03-01',
+        '2024-03-02',
+        '2024-03-03',
+      ]);
+      expect(toDateKey(addDays(new Date(2024, 11, 30), 7))).toBe('2025-01-06');
+    });
+  });
+
+  it('recognizes meal slots', () => {
+    expect(isMealSlot('dinner')).toBe(true);
+    expect(isMealSlot('brunch')).toBe(false);
+  });
+
+  describe('setPlannedRecipe', () => {
+    const entries: MealPlanEntry[] = [
+      { date: '2024-03-04', slot: 'dinner', recipeId: 'a' },
+      { date: '2024-03-05', slot: 'lunch', recipeId: 'b' },
+    ];
+
+    it('replaces whatever was planned in the slot', () => {
+      expect(setPlannedRecipe(entries, '2024-03-04', 'dinner', 'c')).toEqual([
+        { date: '2024-03-05', slot: 'lunch', recipeId: 'b' },
+        { date: '2024-03-04', slot: 'dinner', recipeId: 'c' },
+      ]);
+    });
+
+    it('clears a slot', () => {
+      expect(setPlannedRecipe(entries, '2024-03-05', 'lunch', null)).toEqual([
+        entries[0],
+      ]);
+    });
+  });
+
+  it('returns the entries of a week in day and meal order', () => {
+    const entries: MealPlanEntry[] = [
+      { date: '2024-03-11', slot: 'dinner', recipeId: 'next-week' },
+      { date: '2024-03-05', slot: 'dinner', recipeId: 'tue-dinner' },
+      { date: '2024-03-05', slot: 'breakfast', recipeId: 'tue-breakfast' },
+      { date: '2024-03-04', slot: 'lunch', recipeId: 'mon-lunch' },
+    ];
+
+    expect(
+      getWeekEntries(entries, new Date(2024, 2, 4)).map(e => e.recipeId),
+    ).toEqual(['mon-lunch', 'tue-breakfast', 'tue-dinner']);
+  });
+
+  describe('getWeekSummary', () => {
+    it('totals cook time per meal and lists each recipe once', () => {
+      const recipes = new Map([
+        ['a', makeRecipe({ id: 'a', prepMinutes: 10, cookMinutes: 20 })],
+        ['b', makeRecipe({ id: 'b' })],
+        ['c', makeRecipe({ id: 'c', cookMinutes: 45 })],
+      ]);
+
+      const summary = getWeekSummary(
+        [
+          { date: '2024-03-04', slot: 'dinner', recipeId: 'a' },
+          { date: '2024-03-05', slot: 'lunch', recipeId: 'b' },
+          { date: '2024-03-06', slot: 'dinner', recipeId: 'a' },
+          { date: '2024-03-07', slot: 'dinner', recipeId: 'c' },
+        ],
+        recipes,
+      );
+
+      expect(summary).toEqual({
+        mealCount: 4,
+        totalMinutes: 30 + 30 + 45,
+        untimedMealCount: 1,
+        recipes: [
+          { recipe: recipes.get('a'), count: 2 },
+          { recipe: recipes.get('b'), count: 1 },
+          { recipe: recipes.get('c'), count: 1 },
+        ],
+      });
+    });
+
+    it('leaves out deleted and missing recipes', () => {
+      const recipes = new Map([
+        ['a', makeRecipe({ id: 'a', cookMinutes: 20 })],
+      ]);
+
+      const summary = getWeekSummary(
+        [
+          {
+            date: '2024-03-04',
+            slot: 'dinner',
+            recipeId: 'a',
+            isRecipeDeleted: true,
+          },
+          { date: '2024-03-05', slot: 'dinner', recipeId: 'gone' },
+        ],
+        recipes,
+      );
+
+      expect(summary).toEqual({
+        mealCount: 0,
+        totalMinutes: 0,
+        untimedMealCount: 0,
+        recipes: [],
+      });
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  formatRatingLabel,
+  formatRatingStars,
+  isValidRating,
+} from '../../src/utils/ratingUtils';
+
+describe('ratingUtils', () => {
+  it('accepts whole ratings from 1 to 5', () => {
+    expect([1, 3, 5].every(isValidRating)).toBe(true);
+    expect([0, 6, 2.5, -1, NaN, '4', null].some(isValidRating)).toBe(false);
+  });
+
+  it('formats filled and empty stars', () => {
+    expect(formatRatingStars(3)).toBe('★★★☆☆');
+    expect(formatRatingStars(5)).toBe('★★★★★');
+  });
+
+  it('describes the rating for screen readers', () => {
+    expect(formatRatingLabel(4)).toBe('Rated 4 out of 5');
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  applySnapshot,
+  diffSnapshots,
+  hasTrackedChanges,
+  toRecipeSnapshot,
+} from '../../src/utils/recipeHistory';
+import { Recipe } from '../../src/types/Recipe';
+import { RecipeSnapshot } from '../../src/types/RecipeHistory';
+
+const recipe: Recipe = {
+  id: '1',
+  title: 'Soup',
+  description: 'Warm',
+  images: ['file:///a.jpg'],
+  isFavorite: true,
+  rating: 4,
+  notes: [
+    { id: 'n', text: 'Less salt', createdAt: '2026-09-01T18:00:00.000Z' },
+  ],
+  cookLog: [{ id: 'c', cookedAt: '2026-09-01T18:00:00.000Z' }],
+  timesCooked: 1,
+  lastCookedAt: new Date('2026-09-01T18:00:00.000Z'),
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-02-01'),
+};
+
+describe('recipeHistory', () => {
+  it('snapshots only the edited content', () => {
+    expect(toRecipeSnapshot(recipe)).toEqual({
+      title: 'Soup',
+      description: 'Warm',
+      images: ['file:///a.jpg'],
+    });
+  });
+
+  it('lists changed fields in display order with readable values', () => {
+    const older: RecipeSnapshot = {
+      title: 'Soup',
+      description: '',
+      images: [],
+      cookMinutes: 30,
+      steps: [
+        { id: 's1', text: 'Chop' },
+        { id: 's2', text: 'Simmer' },
+      ],
+      tags: ['dinner'],
+    };
+    const newer: RecipeSnapshot = {
+      title: 'Tomato Soup',
+      description: '',
+      images: [],
+      cookMinutes: 90,
+      steps: [
+        { id: 'x1', text: 'Chop' },
+        { id: 'x2', text: 'Simmer' },
+      ],
+      tags: ['dinner', 'vegan'],
+    };
+
+    expect(diffSnapshots(older, newer)).toEqual([
+      { field: 'title', label: 'Title', before: 'Soup', after: 'Tomato Soup' },
+      {
+        field: 'cookMinutes',
+        label: 'Cook time',
+        before: '30 min',
+        after: '1 hr 30 min',
+      },
+      {
+        field: 'tags',
+        label: 'Tags',
+        before: 'dinner',
+        after: 'dinner, vegan',
+      },
+    ]);
+  });
+
+  it('treats a missing field the same as an empty one', () => {
+    expect(
+      diffSnapshots(
+        { title: 'Soup', description: '', images: [] },
+        { title: 'Soup', description: '', images: [], tags: [] },
+      ),
+    ).toEqual([]);
+  });
+
+  it('says which images were added and removed', () => {
+    const [change] = diffSnapshots(
+      { title: 'Soup', description: '', images: ['a', 'b'] },
+      { title: 'Soup', description: '', images: ['b', 'c', 'd'] },
+    );
+
+    expect(change).toEqual({
+      field: 'images',
+      label: 'Images',
+      before: '2 images',
+      after: '3 images (2 added, 1 removed)',
+    });
+  });
+
+  it('calls out reordered images', () => {
+    const [change] = diffSnapshots(
+      { title: 'Soup', description: '', images: ['a', 'b'] },
+      { title: 'Soup', description: '', images: ['b', 'a'] },
+    );
+
+    expect(change.after).toBe('2 images (reordered)');
+  });
+
+  it('clears fields the applied snapshot does not have', () => {
+    const reverted = applySnapshot(
+      { ...recipe, servings: 4, tags: ['soup'] },
+      { title: 'Soup', description: '', images: [] },
+    );
+
+    expect(reverted.servings).toBeUndefined();
+    expect(reverted.tags).toBeUndefined();
+  });
+
+  it('applies a snapshot without touching ratings, notes or the cook log', () => {
+    const reverted = applySnapshot(recipe, {
+      title: 'Old Soup',
+      description: '',
+      images: [],
+      servings: 2,
+    });
+
+    expect(reverted).toMatchObject({
+      id: '1',
+      title: 'Old Soup',
+      description: '',
+      images: [],
+      servings: 2,
+      isFavorite: true,
+      rating: 4,
+      notes: recipe.notes,
+      cookLog: recipe.cookLog,
+      updatedAt: recipe.updatedAt,
+    });
+  });
+
+  it('ignores changes to untracked fields', () => {
+    expect(hasTrackedChanges(recipe, { ...recipe, rating: 2 })).toBe(false);
+    expect(hasTrackedChanges(recipe, { ...recipe, title: 'Stew' })).toBe(true);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from '@jest/globals';
+import { appendRecipeNote } from '../../src/utils/recipeNotes';
+import { RecipeNote } from '../../src/types/Recipe';
+import { MAX_NOTE_LENGTH } from '../../src/constants';
+
+describe('appendRecipeNote', () => {
+  const existing: RecipeNote[] = [
+    { id: 'n1', text: 'Too salty', createdAt: '2026-09-01T18:00:00.000Z' },
+  ];
+
+  it('adds a dated entry after the existing notes', () => {
+    const notes = appendRecipeNote(
+      existing,
+      '  used less salt ',
+      new Date('2026-10-03T19:30:00.000Z'),
+    );
+
+    expect(notes).toHaveLength(2);
+    expect(notes[0]).toBe(existing[0]);
+    expect(notes[1]).toEqual({
+      id: expect.any(String),
+      text: 'used less salt',
+      createdAt: '2026-10-03T19:30:00.000Z',
+    });
+    expect(existing).toHaveLength(1);
+  });
+
+  it('starts a log for recipes without notes', () => {
+    expect(appendRecipeNote(undefined, 'First try')).toHaveLength(1);
+  });
+
+  it('ignores blank notes', () => {
+    expect(appendRecipeNote(existing, '   ')).toEqual(existing);
+    expect(appendRecipeNote(undefined, '')).toEqual([]);
+  });
+
+  it('caps the note length', () => {
+    const [note] = appendRecipeNote([], 'a'.repeat(MAX_NOTE_LENGTH + 10));
+
+    expect(note.text).toHaveLength(MAX_NOTE_LENGTH);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from '@jest/globals';
+import { isSortOrder, sortRecipes } from '../../src/utils/recipeSort';
+import { Recipe } from '../../src/types/Recipe';
+import { makeRecipe } from '../helpers/makeRecipe';
+
+const recipes = [
+  makeRecipe({
+    id: 'a',
+    title: 'banana bread',
+    images: ['1.jpg'],
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-03-01'),
+  }),
+  makeRecipe({
+    id: 'b',
+    title: 'Apple Pie',
+    images: ['1.jpg', '2.jpg', '3.jpg'],
+    createdAt: new Date('2024-02-01'),
+    updatedAt: new Date('2024-02-01'),
+  }),
+  makeRecipe({
+    id: 'c',
+    title: 'Carrot Cake',
+    images: [],
+    createdAt: new Date('2024-01-15'),
+    updatedAt: new Date('2024-01-15'),
+  }),
+];
+
+const ids = (list: Recipe[]) => list.map(recipe => recipe.id);
+
+describe('recipeSort', () => {
+  it('sorts by creation date, newest first', () => {
+    expect(ids(sortRecipes(recipes, 'created'))).toEqual(['b', 'c', 'a']);
+  });
+
+  it('sorts by last update, newest first', () => {
+    expect(ids(sortRecipes(recipes, 'updated'))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('sorts titles alphabetically ignoring case', () => {
+    expect(ids(sortRecipes(recipes, 'title'))).toEqual(['b', 'a', 'c']);
+  });
+
+  it('sorts by number of images, most first', () => {
+    expect(ids(sortRecipes(recipes, 'imageCount'))).toEqual(['b', 'a', 'c']);
+  });
+
+  it('sorts by total time, quickest first, untimed recipes last', () => {
+    const timed = [
+      makeRecipe({ id: 'none', createdAt: new Date('2024-03-01') }),
+      makeRecipe({ id: 'slow', prepMinutes: 30, cookMinutes: 60 }),
+      makeRecipe({ id: 'quick', cookMinutes: 10 }),
+      makeRecipe({ id: 'medium', prepMinutes: 20, cookMinutes: 15 }),
+    ];
+
+    expect(ids(sortRecipes(timed, 'totalTime'))).toEqual([
+      'quick',
+      'medium',
+      'slow',
+      'none',
+    ]);
+  });
+
+  it('sorts by rating, highest first, unrated recipes last', () => {
+    const rated = [
+      makeRecipe({ id: 'unrated', createdAt: new Date('2024-03-01') }),
+      makeRecipe({ id: 'ok', rating: 3 }),
+      makeRecipe({ id: 'great', rating: 5 }),
+      makeRecipe({ id: 'poor', rating: 1 }),
+    ];
+
+    expect(ids(sortRecipes(rated, 'rating'))).toEqual([
+      'great',
+      'ok',
+      'poor',
+      'unrated',
+    ]);
+  });
+
+  it('sorts by last cooked, never-cooked recipes first', () => {
+    const cooked = [
+      makeRecipe({ id: 'recent', lastCookedAt: new Date('2026-10-01') }),
+      makeRecipe({ id: 'never' }),
+      makeRecipe({ id: 'ages', lastCookedAt: new Date('2026-01-01') }),
+    ];
+
+    expect(ids(sortRecipes(cooked, 'lastCooked'))).toEqual([
+      'never',
+      'ages',
+      'recent',
+    ]);
+  });
+
+  it('breaks ties by creation date', () => {
+    const tied = [
+      makeRecipe({ id: 'old', createdAt: new Date('2023-01-01') }),
+      makeRecipe({ id: 'new', createdAt: new Date('2024-01-01') }),
+    ];
+
+    expect(ids(sortRecipes(tied, 'imageCount'))).toEqual(['new', 'old']);
+  });
+
+  it('does not mutate the input', () => {
+    const input = [...recipes];
+
+    sortRecipes(input, 'title');
+
+    expect(ids(input)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('recognizes valid sort orders', () => {
+    expect(isSortOrder('title')).toBe(true);
+    expect(isSortOrder('rating-ish')).toBe(false);
+    expect(isSortOrder(null)).toBe(false);
+  });
+
+  it('rejects inherited object keys', () => {
+    expect(isSortOrder('toString')).toBe(false);
+    expect(isSortOrder('constructor')).toBe(false);
+    expect(isSortOrder('__proto__')).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  findMatchRanges,
+  filterRecipesByQuery,
+  normalizeForSearch,
+  recipeMatchesQuery,
+} from '../../src/utils/searchUtils';
+import { makeRecipe } from '../helpers/makeRecipe';
+
+describe('searchUtils', () => {
+  describe('normalizeForSearch', () => {
+    it('lowercases and strips diacritics', () => {
+      expect(normalizeForSearch('Crème Brûlée')).toBe('creme brulee');
+      expect(normalizeForSearch('JALAPEÑO')).toBe('jalapeno');
+    });
+  });
+
+  describe('recipeMatchesQuery', () => {
+    const recipe = makeRecipe({
+      title: 'Crème Brûlée',
+      description: 'Classic French dessert',
+      ingredients: [
+        { id: 'a', quantity: '4', unit: '', name: 'egg yolks' },
+        { id: 'b', quantity: '1', unit: '', name: 'vanilla', note: 'bean' },
+      ],
+    });
+
+    it('matches the title regardless of case and accents', () => {
+      expect(recipeMatchesQuery(recipe, 'creme')).toBe(true);
+      expect(recipeMatchesQuery(recipe, 'BRÛLÉE')).toBe(true);
+    });
+
+    it('matches the description and ingredients', () => {
+      expect(recipeMatchesQuery(recipe, 'french')).toBe(true);
+      expect(recipeMatchesQuery(recipe, 'yolks')).toBe(true);
+      expect(recipeMatchesQuery(recipe, 'bean')).toBe(true);
+    });
+
+    it('requires every token to match', () => {
+      expect(recipeMatchesQuery(recipe, 'creme vanilla')).toBe(true);
+      expect(recipeMatchesQuery(recipe, 'creme chocolate')).toBe(false);
+    });
+
+    it('handles recipes without ingredients', () => {
+      expect(recipeMatchesQuery(makeRecipe({ title: 'Toast' }), 'toast')).toBe(
+        true,
+      );
+    });
+  });
+
+  describe('filterRecipesByQuery', () => {
+    const recipes = [
+      makeRecipe({ id: '1', title: 'Pancakes' }),
+      makeRecipe({ id: '2', title: 'Pasta' }),
+    ];
+
+    it('returns the same list for a blank query', () => {
+      expect(filterRecipesByQuery(recipes, '   ')).toBe(recipes);
+    });
+
+    it('keeps only matching recipes', () => {
+      expect(filterRecipesByQuery(recipes, 'pan').map(r => r.id)).toEqual([
+        '1',
+      ]);
+    });
+  });
+
+  describe('findMatchRanges', () => {
+    it('returns ranges in the original text', () => {
+      expect(findMatchRanges('Crème Brûlée', 'brulee')).toEqual([
+        { start: 6, end: 12 },
+      ]);
+    });
+
+    it('maps ranges correctly for decomposed input', () => {
+      const text = 'Cre\u0300me';
+
+      expect(findMatchRanges(text, 'me')).toEqual([{ start: 4, end: 6 }]);
+    });
+
+    it('finds every occurrence and merges overlaps', () => {
+      expect(findMatchRanges('banana', 'an ana')).toEqual([
+        { start: 1, end: 5 },
+      ]);
+    });
+
+    it('returns nothing for an empty query', () => {
+      expect(findMatchRanges('Pasta', '')).toEqual([]);
+    });
+  });
+});
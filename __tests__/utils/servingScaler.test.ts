@@ -0,0 +1,107 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  formatQuantity,
+  getScaleFactor,
+  parseQuantity,
+  scaleIngredients,
+  scaleQuantityText,
+} from '../../src/utils/servingScaler';
+import { Ingredient } from '../../src/types/Recipe';
+
+describe('servingScaler', () => {
+  describe('parseQuantity', () => {
+    it.each([
+      ['2', 2],
+      ['1.5', 1.5],
+      ['3/4', 0.75],
+      ['1 1/2', 1.5],
+      ['1½', 1.5],
+      ['1 ½', 1.5],
+      ['¾', 0.75],
+      [' 2 ', 2],
+    ])('parses "%s"', (text, expected) => {
+      expect(parseQuantity(text)).toBeCloseTo(expected);
+    });
+
+    it.each(['', 'a pinch', '2 cups', '1/0', '2-3'])('rejects "%s"', text => {
+      expect(parseQuantity(text)).toBeNull();
+    });
+  });
+
+  describe('formatQuantity', () => {
+    it.each([
+      [2, '2'],
+      [0.5, '½'],
+      [1.5, '1½'],
+      [1 / 3, '⅓'],
+      [2 / 3, '⅔'],
+      [0.75, '¾'],
+      [2.125, '2⅛'],
+      [0.99, '1'],
+      [0.1, '0.1'],
+      [1.45, '1.45'],
+      [12.4, '12'],
+    ])('formats %d as "%s"', (value, expected) => {
+      expect(formatQuantity(value)).toBe(expected);
+    });
+
+    it('formats non-positive values as zero', () => {
+      expect(formatQuantity(0)).toBe('0');
+      expect(formatQuantity(NaN)).toBe('0');
+    });
+  });
+
+  describe('getScaleFactor', () => {
+    it('divides target by base servings', () => {
+      expect(getScaleFactor(4, 6)).toBe(1.5);
+    });
+
+    it('falls back to 1 for invalid servings', () => {
+      expect(getScaleFactor(0, 6)).toBe(1);
+      expect(getScaleFactor(4, 0)).toBe(1);
+    });
+  });
+
+  describe('scaleQuantityText', () => {
+    it('scales every quantity in the text', () => {
+      expect(scaleQuantityText('2-3', 1.5)).toBe('3-4½');
+      expect(scaleQuantityText('1 1/2', 2)).toBe('3');
+      expect(scaleQuantityText('½ cup', 1 / 3)).toBe('0.17 cup');
+    });
+
+    it('leaves text without numbers alone', () => {
+      expect(scaleQuantityText('a pinch', 2)).toBe('a pinch');
+    });
+
+    it('returns the text unchanged for a factor of 1', () => {
+      expect(scaleQuantityText('1.333', 1)).toBe('1.333');
+    });
+  });
+
+  describe('scaleIngredients', () => {
+    const ingredients: Ingredient[] = [
+      { id: 'a', quantity: '2', unit: 'cups', name: 'flour' },
+      { id: 'b', quantity: '1', unit: '', name: 'tomatoes', note: '14 oz can' },
+      { id: 'c', quantity: '', unit: '', name: 'salt', note: 'to taste' },
+    ];
+
+    it('scales quantities for the target servings', () => {
+      expect(scaleIngredients(ingredients, 4, 2)).toEqual([
+        { id: 'a', quantity: '1', unit: 'cups', name: 'flour' },
+        {
+          id: 'b',
+          quantity: '½',
+          unit: '',
+          name: 'tomatoes',
+          note: '14 oz can',
+        },
+        { id: 'c', quantity: '', unit: '', name: 'salt', note: 'to taste' },
+      ]);
+    });
+
+    it('returns the same ingredients when servings are unchanged', () => {
+      const scaled = scaleIngredients(ingredients, 4, 4);
+      expect(scaled[0]).toBe(ingredients[0]);
+    });
+  });
+});
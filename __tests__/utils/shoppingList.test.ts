@@ -0,0 +1,198 @@
+import {
+  addToShoppingList,
+  getAisleCategory,
+  getShoppingIngredients,
+  groupShoppingList,
+} from '../../src/utils/shoppingList';
+import { makeRecipe } from '../helpers/makeRecipe';
+import { ShoppingListItem } from '../../src/types/ShoppingList';
+import { describe, it, expect } from '@jest/globals';
+
+const makeItem = (
+  overrides: Partial<ShoppingListItem> = {},
+): ShoppingListItem => ({
+  id: 'i1',
+  name: 'flour',
+  quantity: '1',
+  unit: 'cup',
+  category: 'pantry',
+  checked: false,
+  recipeIds: [],
+  ...overrides,
+});
+
+describe('shoppingList', () => {
+  describe('getAisleCategory', () => {
+    it.each([
+      ['red onions', 'produce'],
+      ['all-purpose flour', 'pantry'],
+      ['large eggs', 'dairy'],
+      ['chicken thighs', 'meat'],
+      ['chicken stock', 'pantry'],
+      ['peanut butter', 'pantry'],
+      ['unsalted butter', 'dairy'],
+      ['red bell peppers', 'produce'],
+      ['salt and pepper', 'spices'],
+      ['frozen peas', 'frozen'],
+      ['sourdough bread', 'bakery'],
+      ['dish soap', 'other'],
+    ])('puts "%s" in %s', (name, category) => {
+      expect(getAisleCategory(name)).toBe(category);
+    });
+  });
+
+  describe('getShoppingIngredients', () => {
+    it('uses structured ingredients without ids, notes or groups', () => {
+      const recipe = makeRecipe({
+        ingredients: [
+          {
+            id: 'a',
+            quantity: '2',
+            unit: 'cups',
+            name: 'flour',
+            note: 'sifted',
+            group: 'Batter',
+          },
+        ],
+      });
+
+      expect(getShoppingIngredients(recipe)).toEqual([
+        { quantity: '2', unit: 'cups', name: 'flour' },
+      ]);
+    });
+
+    it('reads the lines under an Ingredients heading', () => {
+      const recipe = makeRecipe({
+        description: [
+          'Fluffy pancakes.',
+          'Ingredients:',
+          '2 cups flour',
+          'Pinch of salt',
+          'Method',
+          '1. Mix 2 cups flour with the milk',
+        ].join('\n'),
+      });
+
+      expect(getShoppingIngredients(recipe)).toEqual([
+        { quantity: '2', unit: 'cups', name: 'flour' },
+        { quantity: '', unit: 'Pinch', name: 'salt' },
+      ]);
+    });
+
+    it('guesses ingredient lines from a description without headings', () => {
+      const recipe = makeRecipe({
+        description: [
+          '2 cups flour',
+          '3 eggs, beaten',
+          'Whisk everything together.',
+          '1. Bake 25 minutes',
+          '10 minutes later, flip the pancakes and keep cooking them',
+        ].join('\n'),
+      });
+
+      expect(getShoppingIngredients(recipe)).toEqual([
+        { quantity: '2', unit: 'cups', name: 'flour' },
+        { quantity: '3', unit: '', name: 'eggs' },
+      ]);
+    });
+  });
+
+  describe('addToShoppingList', () => {
+    it('sums identical ingredients and records the recipes', () => {
+      const list = addToShoppingList(
+        [makeItem({ recipeIds: ['r1'] })],
+        [{ quantity: '1 1/2', unit: 'cups', name: 'Flour' }],
+        'r2',
+      );
+
+      expect(list).toEqual([
+        makeItem({ quantity: '2½', unit: 'cups', recipeIds: ['r1', 'r2'] }),
+      ]);
+    });
+
+    it('converts compatible units before adding', () => {
+      const list = addToShoppingList(
+        [makeItem({ name: 'milk', quantity: '1', unit: 'cup' })],
+        [{ quantity: '4', unit: 'tbsp', name: 'milk' }],
+      );
+
+      expect(list).toHaveLength(1);
+      expect(list[0]).toMatchObject({ quantity: '1¼', unit: 'cups' });
+    });
+
+    it('merges singular and plural names', () => {
+      const list = addToShoppingList(
+        [],
+        [
+          { quantity: '2', unit: '', name: 'eggs' },
+          { quantity: '1', unit: '', name: 'egg' },
+          { quantity: '', unit: '', name: 'Tomatoes' },
+          { quantity: '', unit: '', name: 'tomato' },
+        ],
+      );
+
+      expect(list.map(({ quantity, name }) => [quantity, name])).toEqual([
+        ['3', 'eggs'],
+        ['', 'Tomatoes'],
+      ]);
+    });
+
+    it('keeps amounts that cannot be added as separate items', () => {
+      const list = addToShoppingList(
+        [makeItem({ name: 'garlic', quantity: '2', unit: 'cloves' })],
+        [
+          { quantity: '1', unit: 'tsp', name: 'garlic' },
+          { quantity: '2-3', unit: 'cloves', name: 'garlic' },
+        ],
+      );
+
+      expect(list.map(item => `${item.quantity} ${item.unit}`)).toEqual([
+        '2 cloves',
+        '1 tsp',
+        '2-3 cloves',
+      ]);
+    });
+
+    it('starts a new item instead of adding to a checked one', () => {
+      const list = addToShoppingList(
+        [makeItem({ checked: true })],
+        [{ quantity: '1', unit: 'cup', name: 'flour' }],
+      );
+
+      expect(list).toHaveLength(2);
+      expect(list[1]).toMatchObject({ checked: false, category: 'pantry' });
+    });
+
+    it('adds manual items without a recipe', () => {
+      const [item] = addToShoppingList(
+        [],
+        [{ quantity: '', unit: '', name: 'Paper towels' }],
+      );
+
+      expect(item).toMatchObject({
+        name: 'Paper towels',
+        category: 'other',
+        recipeIds: [],
+      });
+    });
+  });
+
+  describe('groupShoppingList', () => {
+    it('groups by aisle in shop order with checked items last', () => {
+      const sections = groupShoppingList([
+        makeItem({ id: 'a', category: 'pantry', checked: true }),
+        makeItem({ id: 'b', category: 'dairy' }),
+        makeItem({ id: 'c', category: 'pantry' }),
+        makeItem({ id: 'd', category: 'produce' }),
+      ]);
+
+      expect(
+        sections.map(({ title, data }) => [title, data.map(item => item.id)]),
+      ).toEqual([
+        ['Produce', ['d']],
+        ['Dairy & Eggs', ['b']],
+        ['Pantry', ['c', 'a']],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  countTags,
+  filterRecipesByTags,
+  normalizeTag,
+  normalizeTags,
+  suggestTags,
+} from '../../src/utils/tagUtils';
+import { Recipe } from '../../src/types/Recipe';
+import { makeRecipe } from '../helpers/makeRecipe';
+
+const recipes = [
+  makeRecipe({ id: 'a', tags: ['vegetarian', 'quick'] }),
+  makeRecipe({ id: 'b', tags: ['vegetarian', 'dessert'] }),
+  makeRecipe({ id: 'c', tags: ['quick'] }),
+  makeRecipe({ id: 'd' }),
+];
+
+describe('tagUtils', () => {
+  describe('normalizeTag', () => {
+    it('lowercases, trims and collapses whitespace', () => {
+      expect(normalizeTag('  Quick   Meals ')).toBe('quick meals');
+    });
+
+    it('returns an empty string for blank input', () => {
+      expect(normalizeTag('   ')).toBe('');
+    });
+  });
+
+  describe('normalizeTags', () => {
+    it('drops blanks and duplicates while keeping order', () => {
+      expect(normalizeTags(['Dinner', '', 'quick', 'dinner '])).toEqual([
+        'dinner',
+        'quick',
+      ]);
+    });
+  });
+
+  describe('countTags', () => {
+    it('counts usage, most used first then alphabetical', () => {
+      expect(countTags(recipes)).toEqual([
+        { tag: 'quick', count: 2 },
+        { tag: 'vegetarian', count: 2 },
+        { tag: 'dessert', count: 1 },
+      ]);
+    });
+  });
+
+  describe('filterRecipesByTags', () => {
+    const ids = (list: Recipe[]) => list.map(recipe => recipe.id);
+
+    it('returns everything without selected tags', () => {
+      expect(filterRecipesByTags(recipes, [], 'all')).toBe(recipes);
+    });
+
+    it('requires every tag in "all" mode', () => {
+      expect(
+        ids(filterRecipesByTags(recipes, ['vegetarian', 'quick'], 'all')),
+      ).toEqual(['a']);
+    });
+
+    it('accepts any tag in "any" mode', () => {
+      expect(
+        ids(filterRecipesByTags(recipes, ['dessert', 'quick'], 'any')),
+      ).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('suggestTags', () => {
+    const tagCounts = [
+      { tag: 'vegetarian', count: 5 },
+      { tag: 'vegan', count: 3 },
+      { tag: 'weeknight vegetables', count: 1 },
+      { tag: 'dessert', count: 1 },
+    ];
+
+    it('puts prefix matches before other matches', () => {
+      expect(suggestTags('veg', tagCounts)).toEqual([
+        'vegetarian',
+        'vegan',
+        'weeknight vegetables',
+      ]);
+    });
+
+    it('leaves out tags that are already chosen', () => {
+      expect(suggestTags('veg', tagCounts, ['vegan'])).toEqual([
+        'vegetarian',
+        'weeknight vegetables',
+      ]);
+    });
+
+    it('limits the number of suggestions', () => {
+      expect(suggestTags('', tagCounts, [], 2)).toEqual([
+        'vegetarian',
+        'vegan',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import {
+  convertIngredient,
+  convertTemperaturesInText,
+  convertUnit,
+  formatUnit,
+  getIngredientDensity,
+  getUnitKind,
+  isUnitPreference,
+  normalizeUnit,
+} from '../../src/utils/units';
+import { Ingredient } from '../../src/types/Recipe';
+import { describe, it, expect } from '@jest/globals';
+
+const ingredient = (
+  quantity: string,
+  unit: string,
+  name: string,
+): Ingredient => ({ id: '1', quantity, unit, name });
+
+describe('units', () => {
+  describe('normalizeUnit', () => {
+    it.each([
+      ['cups', 'cup'],
+      ['Tablespoons', 'tbsp'],
+      ['tbsp.', 'tbsp'],
+      ['T', 'tbsp'],
+      ['t', 'tsp'],
+      ['fl  oz', 'floz'],
+      ['Grams', 'g'],
+      ['lbs', 'lb'],
+      ['°F', 'fahrenheit'],
+      ['degrees C', 'celsius'],
+      ['Cloves', 'clove'],
+    ])('normalizes %s to %s', (text, expected) => {
+      expect(normalizeUnit(text)).toBe(expected);
+    });
+
+    it('returns null for unknown or missing units', () => {
+      expect(normalizeUnit('handful')).toBeNull();
+      expect(normalizeUnit('')).toBeNull();
+      expect(normalizeUnit(undefined)).toBeNull();
+    });
+  });
+
+  it('reports the kind of each unit', () => {
+    expect(getUnitKind('ml')).toBe('volume');
+    expect(getUnitKind('oz')).toBe('mass');
+    expect(getUnitKind('celsius')).toBe('temperature');
+    expect(getUnitKind('pinch')).toBe('count');
+  });
+
+  it('pluralizes unit labels that have a plural', () => {
+    expect(formatUnit('cup', 1)).toBe('cup');
+    expect(formatUnit('cup', 2)).toBe('cups');
+    expect(formatUnit('g', 200)).toBe('g');
+  });
+
+  describe('convertUnit', () => {
+    it('converts volumes and masses', () => {
+      expect(convertUnit(1, 'cup', 'tbsp')).toBeCloseTo(16);
+      expect(convertUnit(3, 'tsp', 'tbsp')).toBeCloseTo(1);
+      expect(convertUnit(1, 'lb', 'oz')).toBeCloseTo(16);
+      expect(convertUnit(1, 'kg', 'lb')).toBeCloseTo(2.2046, 3);
+    });
+
+    it('converts temperatures', () => {
+      expect(convertUnit(100, 'celsius', 'fahrenheit')).toBe(212);
+      expect(convertUnit(32, 'fahrenheit', 'celsius')).toBe(0);
+    });
+
+    it('refuses conversions across kinds and between count units', () => {
+      expect(convertUnit(1, 'cup', 'g')).toBeNull();
+      expect(convertUnit(1, 'clove', 'pinch')).toBeNull();
+      expect(convertUnit(2, 'clove', 'clove')).toBe(2);
+    });
+  });
+
+  describe('getIngredientDensity', () => {
+    it('prefers the most specific ingredient name', () => {
+      expect(getIngredientDensity('Light Brown Sugar')).toBe(0.93);
+      expect(getIngredientDensity('granulated sugar')).toBe(0.85);
+    });
+
+    it('matches whole words only', () => {
+      expect(getIngredientDensity('buttermilk')).toBeUndefined();
+      expect(getIngredientDensity('chicken thighs')).toBeUndefined();
+    });
+  });
+
+  describe('convertIngredient', () => {
+    it('leaves ingredients alone when showing units as written', () => {
+      const flour = ingredient('1', 'cup', 'flour');
+      expect(convertIngredient(flour, 'original')).toBe(flour);
+    });
+
+    it('converts cups of a known ingredient to grams', () => {
+      expect(
+        convertIngredient(
+          ingredient('1', 'cup', 'all-purpose flour'),
+          'metric',
+        ),
+      ).toMatchObject({ quantity: '125', unit: 'g' });
+      expect(
+        convertIngredient(ingredient('½', 'cup', 'sugar'), 'metric'),
+      ).toMatchObject({ quantity: '100', unit: 'g' });
+    });
+
+    it('converts volumes of unknown ingredients to millilitres', () => {
+      expect(
+        convertIngredient(ingredient('2', 'tbsp', 'soy sauce'), 'metric'),
+      ).toMatchObject({ quantity: '30', unit: 'ml' });
+      expect(
+        convertIngredient(ingredient('5', 'cups', 'stock'), 'metric'),
+      ).toMatchObject({ quantity: '1.2', unit: 'l' });
+    });
+
+    it('converts grams of a known ingredient to cups', () => {
+      expect(
+        convertIngredient(ingredient('250', 'g', 'flour'), 'us'),
+      ).toMatchObject({ quantity: '2', unit: 'cups' });
+      expect(
+        convertIngredient(ingredient('15', 'g', 'butter'), 'us'),
+      ).toMatchObject({ quantity: '1', unit: 'tbsp' });
+    });
+
+    it('converts weights of unknown ingredients to ounces or pounds', () => {
+      expect(
+        convertIngredient(ingredient('200', 'g', 'chicken'), 'us'),
+      ).toMatchObject({ quantity: '7', unit: 'oz' });
+      expect(
+        convertIngredient(ingredient('1', 'kg', 'potatoes'), 'us'),
+      ).toMatchObject({ quantity: '2¼', unit: 'lb' });
+    });
+
+    it('converts millilitres to US volumes', () => {
+      expect(
+        convertIngredient(ingredient('5', 'ml', 'vanilla'), 'us'),
+      ).toMatchObject({ quantity: '1', unit: 'tsp' });
+      expect(
+        convertIngredient(ingredient('120', 'ml', 'stock'), 'us'),
+      ).toMatchObject({ quantity: '½', unit: 'cup' });
+    });
+
+    it('keeps notes and other fields', () => {
+      const converted = convertIngredient(
+        { ...ingredient('1', 'cup', 'milk'), note: 'warm', group: 'Dough' },
+        'metric',
+      );
+      expect(converted).toMatchObject({
+        id: '1',
+        note: 'warm',
+        group: 'Dough',
+      });
+    });
+
+    it.each([
+      ['already in the preferred system', ingredient('200', 'g', 'flour')],
+      ['a count unit', ingredient('2', 'cloves', 'garlic')],
+      ['an unknown unit', ingredient('1', 'handful', 'spinach')],
+      ['a range', ingredient('2-3', 'cups', 'flour')],
+      ['no quantity', ingredient('', 'cup', 'flour')],
+    ])('leaves %s unchanged', (_, value) => {
+      expect(convertIngredient(value, 'metric')).toBe(value);
+    });
+  });
+
+  describe('convertTemperaturesInText', () => {
+    it('converts Fahrenheit to Celsius rounded to 5 degrees', () => {
+      expect(
+        convertTemperaturesInText('Bake at 350°F for 20 min', 'metric'),
+      ).toBe('Bake at 175°C for 20 min');
+      expect(
+        convertTemperaturesInText('Heat to 425 degrees Fahrenheit', 'metric'),
+      ).toBe('Heat to 220°C');
+    });
+
+    it('converts Celsius to Fahrenheit', () => {
+      expect(convertTemperaturesInText('Preheat to 200 °C.', 'us')).toBe(
+        'Preheat to 390°F.',
+      );
+    });
+
+    it('leaves temperatures already in the preferred system alone', () => {
+      expect(convertTemperaturesInText('Bake at 180°C', 'metric')).toBe(
+        'Bake at 180°C',
+      );
+      expect(convertTemperaturesInText('Bake at 350°F', 'original')).toBe(
+        'Bake at 350°F',
+      );
+    });
+  });
+
+  it('recognizes unit preferences', () => {
+    expect(isUnitPreference('metric')).toBe(true);
+    expect(isUnitPreference('original')).toBe(true);
+    expect(isUnitPreference('imperial')).toBe(false);
+    expect(isUnitPreference(null)).toBe(false);
+  });
+});
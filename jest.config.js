@@ -7,4 +7,6 @@ module.exports = {
     'node_modules/(?!(react-native|@react-native|react-navigation|@react-navigation|react-native-haptic-feedback|react-native-image-picker|@react-native-async-storage|react-native-gesture-handler)/)',
   ],
   setupFiles: ['./jest.setup.js'],
+  // Shared fixtures live next to the tests but aren't tests themselves
+  testPathIgnorePatterns: ['/node_modules/', '/__tests__/helpers/'],
 };
@@ -107,8 +107,15 @@ jest.mock('react-native-gesture-handler/ReanimatedSwipeable', () => {
   // eslint-disable-next-line @typescript-eslint/no-var-requires
   const View = require('react-native/Libraries/Components/View/View');
 
+  // Expose the imperative SwipeableMethods so components can close the row
   const MockReanimatedSwipeable = React.forwardRef((props, ref) => {
-    return React.createElement(View, { ...props, ref });
+    React.useImperativeHandle(ref, () => ({
+      close: jest.fn(),
+      openLeft: jest.fn(),
+      openRight: jest.fn(),
+      reset: jest.fn(),
+    }));
+    return React.createElement(View, props);
   });
 
   return {
@@ -16,6 +16,7 @@ export type ButtonVariant =
   | 'icon'
   | 'add'
   | 'delete'
+  | 'favorite'
   | 'imageAdd';
 
 export type ButtonSize = 'small' | 'medium' | 'large';
@@ -69,6 +70,11 @@ export const Button = memo<ButtonProps>(
             backgroundColor: colors.dangerButtonBackground,
             color: colors.dangerButtonText,
           };
+        case 'favorite':
+          return {
+            backgroundColor: colors.favoriteButtonBackground,
+            color: colors.favoriteButtonText,
+          };
         case 'ghost':
           return {
             backgroundColor: colors.ghostButtonBackground,
@@ -89,7 +95,8 @@ export const Button = memo<ButtonProps>(
     };
 
     const variantStyles = getVariantStyles();
-    const isVerticalLayout = variant === 'imageAdd' || variant === 'delete';
+    const isSwipeAction = variant === 'delete' || variant === 'favorite';
+    const isVerticalLayout = variant === 'imageAdd' || isSwipeAction;
     const textColor = disabled ? colors.disabledGray : variantStyles.color;
 
     const buttonStyles = [
@@ -98,7 +105,7 @@ export const Button = memo<ButtonProps>(
       styles[`${size}Button`],
       { backgroundColor: variantStyles.backgroundColor },
       variant === 'imageAdd' && { borderColor: variantStyles.borderColor },
-      variant === 'delete' && { shadowColor: colors.shadowColor },
+      isSwipeAction && { shadowColor: colors.shadowColor },
       disabled && styles.disabledButton,
       style,
     ];
@@ -114,7 +121,7 @@ export const Button = memo<ButtonProps>(
     const iconStyles = [
       styles.icon,
       styles[`${size}Icon`],
-      (variant === 'imageAdd' || variant === 'delete') && styles.imageAddIcon,
+      isVerticalLayout && styles.imageAddIcon,
       { color: textColor },
       textStyle,
     ];
@@ -200,6 +207,17 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  favoriteButton: {
+    borderRadius: 12,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  favoriteText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
 
   imageAddButton: {
     borderWidth: 2,
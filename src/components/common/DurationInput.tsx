@@ -0,0 +1,63 @@
+import React, { memo, ComponentProps } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { FormInput } from './FormInput';
+import { useThemeColors } from '../../hooks/useThemeColors';
+import { formatDuration, parseDuration } from '../../utils/durationUtils';
+
+type DurationInputProps = Omit<
+  ComponentProps<typeof FormInput>,
+  'value' | 'onChangeText' | 'containerStyle'
+> & {
+  value: string;
+  onChangeText: (text: string) => void;
+};
+
+/**
+ * Text input for a duration such as "45", "1h 20m" or "1:20". Shows how the
+ * text was understood underneath, so "90" reads back as "1 hr 30 min".
+ */
+export const DurationInput = memo<DurationInputProps>(
+  ({ value, onChangeText, error, ...formInputProps }) => {
+    const { colors } = useThemeColors();
+    const minutes = parseDuration(value);
+    const isInvalid = value.trim().length > 0 && minutes === null;
+
+    return (
+      <View style={styles.container}>
+        <FormInput
+          value={value}
+          onChangeText={onChangeText}
+          placeholder="e.g. 1h 20m"
+          autoCapitalize="none"
+          autoCorrect={false}
+          containerStyle={styles.input}
+          error={error ?? (isInvalid ? 'Try 45m, 1h 20m or 1:20' : undefined)}
+          {...formInputProps}
+        />
+        {minutes !== null && minutes > 0 && (
+          <Text
+            style={[styles.preview, { color: colors.darkGray }]}
+            accessibilityLiveRegion="polite">
+            {formatDuration(minutes)}
+          </Text>
+        )}
+      </View>
+    );
+  },
+);
+
+DurationInput.displayName = 'DurationInput';
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    marginBottom: 24,
+  },
+  input: {
+    marginBottom: 0,
+  },
+  preview: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+});
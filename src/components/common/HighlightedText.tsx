@@ -0,0 +1,58 @@
+import React, { memo, useMemo } from 'react';
+import { Text, TextProps, TextStyle, StyleProp } from 'react-native';
+import { findMatchRanges } from '../../utils/searchUtils';
+import { useThemeColors } from '../../hooks/useThemeColors';
+
+interface HighlightedTextProps extends TextProps {
+  text: string;
+  query?: string;
+  highlightStyle?: StyleProp<TextStyle>;
+}
+
+export const HighlightedText = memo<HighlightedTextProps>(
+  ({ text, query = '', highlightStyle, ...textProps }) => {
+    const { colors } = useThemeColors();
+
+    const segments = useMemo(() => {
+      const ranges = findMatchRanges(text, query);
+      if (ranges.length === 0) {
+        return [{ text, highlighted: false }];
+      }
+
+      const result: { text: string; highlighted: boolean }[] = [];
+      let cursor = 0;
+      ranges.forEach(({ start, end }) => {
+        if (start > cursor) {
+          result.push({ text: text.slice(cursor, start), highlighted: false });
+        }
+        result.push({ text: text.slice(start, end), highlighted: true });
+        cursor = end;
+      });
+      if (cursor < text.length) {
+        result.push({ text: text.slice(cursor), highlighted: false });
+      }
+      return result;
+    }, [text, query]);
+
+    return (
+      <Text {...textProps}>
+        {segments.map((segment, index) =>
+          segment.highlighted ? (
+            <Text
+              key={`${index}-${segment.text}`}
+              style={[
+                { backgroundColor: colors.highlight, color: colors.text },
+                highlightStyle,
+              ]}>
+              {segment.text}
+            </Text>
+          ) : (
+            segment.text
+          ),
+        )}
+      </Text>
+    );
+  },
+);
+
+HighlightedText.displayName = 'HighlightedText';
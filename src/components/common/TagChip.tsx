@@ -0,0 +1,104 @@
+import React, { memo } from 'react';
+import { Text, TouchableOpacity, View, StyleSheet } from 'react-native';
+import { useThemeColors } from '../../hooks/useThemeColors';
+
+interface TagChipProps {
+  tag: string;
+  /** Usage count shown after the tag, e.g. in the filter bar */
+  count?: number;
+  selected?: boolean;
+  onPress?: () => void;
+  /** Shows a remove button; used by the tag editor */
+  onRemove?: () => void;
+  size?: 'small' | 'medium';
+}
+
+export const TagChip = memo<TagChipProps>(
+  ({ tag, count, selected = false, onPress, onRemove, size = 'medium' }) => {
+    const { colors } = useThemeColors();
+
+    const chipStyle = [
+      styles.chip,
+      size === 'small' && styles.smallChip,
+      {
+        backgroundColor: selected ? colors.primary : colors.lightGray,
+        borderColor: selected ? colors.primary : colors.border,
+      },
+    ];
+    const textColor = selected ? colors.primaryButtonText : colors.text;
+    const label = count !== undefined ? `${tag} (${count})` : tag;
+
+    const content = (
+      <>
+        <Text
+          style={[
+            styles.text,
+            size === 'small' && styles.smallText,
+            { color: textColor },
+          ]}
+          numberOfLines={1}>
+          #{label}
+        </Text>
+        {onRemove && (
+          <TouchableOpacity
+            onPress={onRemove}
+            hitSlop={{ top: 8, right: 8, bottom: 8, left: 8 }}
+            accessibilityRole="button"
+            accessibilityLabel={`Remove tag ${tag}`}>
+            <Text style={[styles.remove, { color: colors.darkGray }]}>×</Text>
+          </TouchableOpacity>
+        )}
+      </>
+    );
+
+    if (!onPress) {
+      return (
+        <View style={chipStyle} accessibilityLabel={`Tag ${label}`}>
+          {content}
+        </View>
+      );
+    }
+
+    return (
+      <TouchableOpacity
+        style={chipStyle}
+        onPress={onPress}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityLabel={`Tag ${label}`}
+        accessibilityState={{ selected }}>
+        {content}
+      </TouchableOpacity>
+    );
+  },
+);
+
+TagChip.displayName = 'TagChip';
+
+const styles = StyleSheet.create({
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  smallChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 12,
+  },
+  text: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  smallText: {
+    fontSize: 12,
+  },
+  remove: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,146 @@
+import React, { memo, useCallback } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+} from 'react-native';
+import { useHapticFeedback } from '../../hooks/useHapticFeedback';
+import { useThemeColors } from '../../hooks/useThemeColors';
+
+export interface ActionMenuOption {
+  key: string;
+  label: string;
+  onPress: () => void;
+  selected?: boolean;
+  destructive?: boolean;
+}
+
+interface ActionMenuProps {
+  visible: boolean;
+  title?: string;
+  options: ActionMenuOption[];
+  onClose: () => void;
+}
+
+export const ActionMenu = memo<ActionMenuProps>(
+  ({ visible, title, options, onClose }) => {
+    const { colors } = useThemeColors();
+    const { triggerSelection } = useHapticFeedback();
+
+    const handleSelect = useCallback(
+      (option: ActionMenuOption) => {
+        triggerSelection();
+        onClose();
+        option.onPress();
+      },
+      [onClose, triggerSelection],
+    );
+
+    return (
+      <Modal
+        visible={visible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={onClose}>
+        <TouchableWithoutFeedback
+          onPress={onClose}
+          accessibilityRole="button"
+          accessibilityLabel="Close menu">
+          <View style={styles.backdrop} />
+        </TouchableWithoutFeedback>
+        <View
+          style={[styles.sheet, { backgroundColor: colors.card }]}
+          accessibilityViewIsModal={true}>
+          {title && (
+            <Text
+              style={[styles.title, { color: colors.darkGray }]}
+              accessibilityRole="header">
+              {title}
+            </Text>
+          )}
+          {options.map(option => (
+            <TouchableOpacity
+              key={option.key}
+              style={[styles.option, { borderTopColor: colors.border }]}
+              onPress={() => handleSelect(option)}
+              accessibilityRole="menuitem"
+              accessibilityLabel={option.label}
+              accessibilityState={{ selected: !!option.selected }}>
+              <Text
+                style={[
+                  styles.optionText,
+                  {
+                    color: option.destructive ? colors.danger : colors.text,
+                  },
+                  option.selected && styles.selectedText,
+                ]}>
+                {option.label}
+              </Text>
+              {option.selected && (
+                <Text style={[styles.checkmark, { color: colors.primary }]}>
+                  ✓
+                </Text>
+              )}
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            style={[styles.option, { borderTopColor: colors.border }]}
+            onPress={onClose}
+            accessibilityRole="button"
+            accessibilityLabel="Cancel">
+            <Text style={[styles.cancelText, { color: colors.primary }]}>
+              Cancel
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    );
+  },
+);
+
+ActionMenu.displayName = 'ActionMenu';
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingBottom: 32,
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: '600',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  optionText: {
+    fontSize: 17,
+  },
+  selectedText: {
+    fontWeight: '600',
+  },
+  checkmark: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  cancelText: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,85 @@
+import React, { memo } from 'react';
+import { StyleSheet } from 'react-native';
+import Reanimated, {
+  interpolate,
+  SharedValue,
+  useAnimatedStyle,
+} from 'react-native-reanimated';
+import { Button } from '../common/Button';
+import { useThemeColors } from '../../hooks/useThemeColors';
+
+interface AnimatedFavoriteButtonProps {
+  progress: SharedValue<number>;
+  isFavorite: boolean;
+  onPress: () => void;
+}
+
+export const AnimatedFavoriteButton = memo<AnimatedFavoriteButtonProps>(
+  ({ progress, isFavorite, onPress }) => {
+    const { colors } = useThemeColors();
+
+    const animatedStyle = useAnimatedStyle(() => {
+      const scale = interpolate(progress.value, [0, 0.6], [0, 1], 'clamp');
+      const opacity = interpolate(
+        progress.value,
+        [0, 0.3, 0.7],
+        [0, 0.8, 1],
+        'clamp',
+      );
+
+      return {
+        transform: [{ scale }],
+        opacity,
+      };
+    });
+
+    return (
+      <Reanimated.View
+        style={[
+          styles.favoriteButton,
+          {
+            backgroundColor: colors.favorite,
+            shadowColor: colors.shadowColor,
+          },
+          animatedStyle,
+        ]}>
+        <Button
+          icon={isFavorite ? '♡' : '♥'}
+          title={isFavorite ? 'Unfavorite' : 'Favorite'}
+          variant="favorite"
+          size="small"
+          onPress={onPress}
+          style={styles.favoriteButtonTouch}
+          accessibilityLabel={
+            isFavorite ? 'Remove from favorites' : 'Add to favorites'
+          }
+        />
+      </Reanimated.View>
+    );
+  },
+);
+
+AnimatedFavoriteButton.displayName = 'AnimatedFavoriteButton';
+
+const styles = StyleSheet.create({
+  favoriteButton: {
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: 70,
+    height: '100%',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  favoriteButtonTouch: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: '100%',
+  },
+});
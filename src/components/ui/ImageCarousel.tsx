@@ -0,0 +1,182 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  FlatList,
+  StyleSheet,
+  TouchableOpacity,
+  Dimensions,
+  ListRenderItem,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+} from 'react-native';
+import FastImage from 'react-native-fast-image';
+import { ImageModal } from './ImageModal';
+import {
+  createImageSource,
+  getImageConfigForUri,
+} from '../../services/imageCache';
+import { useHapticFeedback } from '../../hooks/useHapticFeedback';
+import { useThemeColors } from '../../hooks/useThemeColors';
+
+const { width: screenWidth } = Dimensions.get('window');
+
+interface ImageCarouselProps {
+  images: string[];
+  height?: number;
+}
+
+interface CarouselImageProps {
+  uri: string;
+  index: number;
+  totalImages: number;
+  height: number;
+  onPress: (index: number) => void;
+}
+
+const CarouselImage = memo<CarouselImageProps>(
+  ({ uri, index, totalImages, height, onPress }) => {
+    const source = useMemo(
+      () => createImageSource(uri, getImageConfigForUri(uri)),
+      [uri],
+    );
+
+    return (
+      <TouchableOpacity
+        activeOpacity={0.9}
+        onPress={() => onPress(index)}
+        accessibilityRole="imagebutton"
+        accessibilityLabel={`Recipe image ${index + 1} of ${totalImages}`}
+        accessibilityHint="Opens the image in full screen">
+        {source && (
+          <FastImage
+            source={source}
+            style={{ width: screenWidth, height }}
+            resizeMode={FastImage.resizeMode.cover}
+          />
+        )}
+      </TouchableOpacity>
+    );
+  },
+);
+
+CarouselImage.displayName = 'CarouselImage';
+
+export const ImageCarousel = memo<ImageCarouselProps>(
+  ({ images, height = screenWidth * 0.75 }) => {
+    const { colors } = useThemeColors();
+    const { triggerImpactLight } = useHapticFeedback();
+    const [activeIndex, setActiveIndex] = useState(0);
+    const [modalVisible, setModalVisible] = useState(false);
+
+    const handleImagePress = useCallback(
+      (index: number) => {
+        triggerImpactLight();
+        setActiveIndex(index);
+        setModalVisible(true);
+      },
+      [triggerImpactLight],
+    );
+
+    const handleCloseModal = useCallback(() => {
+      setModalVisible(false);
+    }, []);
+
+    const handleMomentumScrollEnd = useCallback(
+      (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+        const index = Math.round(
+          event.nativeEvent.contentOffset.x / screenWidth,
+        );
+        setActiveIndex(index);
+      },
+      [],
+    );
+
+    const renderImage = useCallback<ListRenderItem<string>>(
+      ({ item, index }) => (
+        <CarouselImage
+          uri={item}
+          index={index}
+          totalImages={images.length}
+          height={height}
+          onPress={handleImagePress}
+        />
+      ),
+      [images.length, height, handleImagePress],
+    );
+
+    const getItemLayout = useCallback(
+      (_data: ArrayLike<string> | null | undefined, index: number) => ({
+        length: screenWidth,
+        offset: screenWidth * index,
+        index,
+      }),
+      [],
+    );
+
+    if (images.length === 0) {
+      return null;
+    }
+
+    return (
+      <View>
+        <FlatList
+          data={images}
+          renderItem={renderImage}
+          keyExtractor={(item, index) => `carousel-${index}-${item}`}
+          horizontal
+          pagingEnabled
+          showsHorizontalScrollIndicator={false}
+          getItemLayout={getItemLayout}
+          onMomentumScrollEnd={handleMomentumScrollEnd}
+          accessibilityRole="list"
+          accessibilityLabel={`Image carousel with ${images.length} ${
+            images.length === 1 ? 'image' : 'images'
+          }`}
+        />
+        {images.length > 1 && (
+          <View style={styles.pagination}>
+            {images.map((uri, index) => (
+              <View
+                key={`dot-${index}-${uri}`}
+                style={[
+                  styles.dot,
+                  {
+                    backgroundColor:
+                      index === activeIndex
+                        ? colors.primary
+                        : colors.disabledGray,
+                  },
+                ]}
+              />
+            ))}
+          </View>
+        )}
+        {modalVisible && (
+          <ImageModal
+            visible={modalVisible}
+            images={images}
+            index={activeIndex}
+            onClose={handleCloseModal}
+            onIndexChange={setActiveIndex}
+          />
+        )}
+      </View>
+    );
+  },
+);
+
+ImageCarousel.displayName = 'ImageCarousel';
+
+const styles = StyleSheet.create({
+  pagination: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    paddingVertical: 8,
+    gap: 6,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+});
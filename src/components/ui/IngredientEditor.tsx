@@ -0,0 +1,303 @@
+import React, { memo, useCallback, useState } from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+import { Ingredient } from '../../types/Recipe';
+import { Button } from '../common/Button';
+import { useThemeColors } from '../../hooks/useThemeColors';
+import { MAX_INGREDIENTS, MAX_INGREDIENT_NAME_LENGTH } from '../../constants';
+
+type IngredientChanges = Partial<Omit<Ingredient, 'id'>>;
+
+interface IngredientEditorProps {
+  ingredients: Ingredient[];
+  onAdd: () => void;
+  onUpdate: (id: string, changes: IngredientChanges) => void;
+  onRemove: (id: string) => void;
+  onMove: (from: number, to: number) => void;
+  /** Adds rows parsed from pasted text; returns how many were added */
+  onPasteList?: (text: string) => number;
+  maxIngredients?: number;
+}
+
+interface IngredientRowProps {
+  ingredient: Ingredient;
+  index: number;
+  isFirst: boolean;
+  isLast: boolean;
+  onUpdate: (id: string, changes: IngredientChanges) => void;
+  onRemove: (id: string) => void;
+  onMove: (from: number, to: number) => void;
+}
+
+const IngredientRow = memo<IngredientRowProps>(
+  ({ ingredient, index, isFirst, isLast, onUpdate, onRemove, onMove }) => {
+    const { colors } = useThemeColors();
+    const position = index + 1;
+
+    const inputStyle = [
+      styles.input,
+      {
+        backgroundColor: colors.inputBackground,
+        borderColor: colors.inputBorder,
+        color: colors.text,
+      },
+    ];
+
+    return (
+      <View
+        style={[
+          styles.row,
+          { backgroundColor: colors.card, borderColor: colors.border },
+        ]}
+        accessibilityLabel={`Ingredient ${position}`}>
+        <View style={styles.inputRow}>
+          <TextInput
+            style={[inputStyle, styles.quantityInput]}
+            value={ingredient.quantity}
+            onChangeText={quantity => onUpdate(ingredient.id, { quantity })}
+            placeholder="Qty"
+            placeholderTextColor={colors.placeholder}
+            keyboardType="numbers-and-punctuation"
+            accessibilityLabel={`Ingredient ${position} quantity`}
+          />
+          <TextInput
+            style={[inputStyle, styles.unitInput]}
+            value={ingredient.unit}
+            onChangeText={unit => onUpdate(ingredient.id, { unit })}
+            placeholder="Unit"
+            placeholderTextColor={colors.placeholder}
+            autoCapitalize="none"
+            accessibilityLabel={`Ingredient ${position} unit`}
+          />
+          <TextInput
+            style={[inputStyle, styles.nameInput]}
+            value={ingredient.name}
+            onChangeText={name => onUpdate(ingredient.id, { name })}
+            placeholder="Ingredient"
+            placeholderTextColor={colors.placeholder}
+            maxLength={MAX_INGREDIENT_NAME_LENGTH}
+            accessibilityLabel={`Ingredient ${position} name`}
+          />
+        </View>
+        <View style={styles.inputRow}>
+          <TextInput
+            style={[inputStyle, styles.noteInput]}
+            value={ingredient.note ?? ''}
+            onChangeText={note => onUpdate(ingredient.id, { note })}
+            placeholder="Note (optional)"
+            placeholderTextColor={colors.placeholder}
+            accessibilityLabel={`Ingredient ${position} note`}
+          />
+          <TextInput
+            style={[inputStyle, styles.groupInput]}
+            value={ingredient.group ?? ''}
+            onChangeText={group => onUpdate(ingredient.id, { group })}
+            placeholder="Group"
+            placeholderTextColor={colors.placeholder}
+            accessibilityLabel={`Ingredient ${position} group`}
+          />
+        </View>
+        <View style={styles.actions}>
+          <Button
+            icon="↑"
+            variant="ghost"
+            size="small"
+            onPress={() => onMove(index, index - 1)}
+            disabled={isFirst}
+            accessibilityLabel={`Move ingredient ${position} up`}
+          />
+          <Button
+            icon="↓"
+            variant="ghost"
+            size="small"
+            onPress={() => onMove(index, index + 1)}
+            disabled={isLast}
+            accessibilityLabel={`Move ingredient ${position} down`}
+          />
+          <Button
+            title="Remove"
+            variant="ghost"
+            size="small"
+            onPress={() => onRemove(ingredient.id)}
+            textStyle={{ color: colors.danger }}
+            accessibilityLabel={`Remove ingredient ${position}`}
+          />
+        </View>
+      </View>
+    );
+  },
+);
+
+IngredientRow.displayName = 'IngredientRow';
+
+export const IngredientEditor = memo<IngredientEditorProps>(
+  ({
+    ingredients,
+    onAdd,
+    onUpdate,
+    onRemove,
+    onMove,
+    onPasteList,
+    maxIngredients = MAX_INGREDIENTS,
+  }) => {
+    const { colors } = useThemeColors();
+    const canAdd = ingredients.length < maxIngredients;
+    const [pasteVisible, setPasteVisible] = useState(false);
+    const [pasteText, setPasteText] = useState('');
+
+    const handleAdd = useCallback(() => {
+      if (canAdd) {
+        onAdd();
+      }
+    }, [canAdd, onAdd]);
+
+    const closePaste = useCallback(() => {
+      setPasteVisible(false);
+      setPasteText('');
+    }, []);
+
+    const handlePaste = useCallback(() => {
+      if (onPasteList && onPasteList(pasteText) > 0) {
+        closePaste();
+      }
+    }, [onPasteList, pasteText, closePaste]);
+
+    return (
+      <View style={styles.container}>
+        {ingredients.length === 0 && (
+          <Text style={[styles.emptyText, { color: colors.placeholder }]}>
+            No ingredients yet
+          </Text>
+        )}
+        {ingredients.map((ingredient, index) => (
+          <IngredientRow
+            key={ingredient.id}
+            ingredient={ingredient}
+            index={index}
+            isFirst={index === 0}
+            isLast={index === ingredients.length - 1}
+            onUpdate={onUpdate}
+            onRemove={onRemove}
+            onMove={onMove}
+          />
+        ))}
+        <Button
+          icon="+"
+          title="Add Ingredient"
+          variant="ghost"
+          size="medium"
+          onPress={handleAdd}
+          disabled={!canAdd}
+          accessibilityLabel="Add ingredient"
+          accessibilityHint={`Adds a new ingredient row. Up to ${maxIngredients} ingredients`}
+        />
+        {onPasteList && !pasteVisible && (
+          <Button
+            title="Paste Ingredient List"
+            variant="ghost"
+            size="medium"
+            onPress={() => setPasteVisible(true)}
+            disabled={!canAdd}
+            accessibilityHint="Turns a pasted list of ingredients into rows"
+          />
+        )}
+        {onPasteList && pasteVisible && (
+          <View
+            style={[
+              styles.row,
+              { backgroundColor: colors.card, borderColor: colors.border },
+            ]}>
+            <TextInput
+              style={[
+                styles.input,
+                styles.pasteInput,
+                {
+                  backgroundColor: colors.inputBackground,
+                  borderColor: colors.inputBorder,
+                  color: colors.text,
+                },
+              ]}
+              value={pasteText}
+              onChangeText={setPasteText}
+              placeholder={'2 1/2 cups flour, sifted\n1 tsp salt'}
+              placeholderTextColor={colors.placeholder}
+              multiline
+              autoFocus
+              textAlignVertical="top"
+              accessibilityLabel="Ingredient list"
+              accessibilityHint="One ingredient per line. Lines ending in a colon start a group"
+            />
+            <View style={styles.actions}>
+              <Button
+                title="Cancel"
+                variant="ghost"
+                size="small"
+                onPress={closePaste}
+                accessibilityLabel="Cancel pasting ingredients"
+              />
+              <Button
+                title="Add Ingredients"
+                variant="primary"
+                size="small"
+                onPress={handlePaste}
+                disabled={pasteText.trim().length === 0}
+              />
+            </View>
+          </View>
+        )}
+      </View>
+    );
+  },
+);
+
+IngredientEditor.displayName = 'IngredientEditor';
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+  row: {
+    borderRadius: 8,
+    borderWidth: 1,
+    padding: 8,
+    gap: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    borderRadius: 6,
+    borderWidth: 1,
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  quantityInput: {
+    width: 64,
+  },
+  unitInput: {
+    width: 72,
+  },
+  nameInput: {
+    flex: 1,
+  },
+  noteInput: {
+    flex: 2,
+  },
+  groupInput: {
+    flex: 1,
+  },
+  pasteInput: {
+    minHeight: 120,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+  },
+});
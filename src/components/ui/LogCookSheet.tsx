@@ -0,0 +1,155 @@
+import React, { memo, useCallback, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  StyleSheet,
+  TouchableWithoutFeedback,
+  Alert,
+} from 'react-native';
+import {
+  launchImageLibrary,
+  ImagePickerResponse,
+} from 'react-native-image-picker';
+import { Button } from '../common/Button';
+import { ImageList } from './ImageList';
+import { RatingControl } from './RatingControl';
+import { CookDetails } from '../../services/storage';
+import { useHapticFeedback } from '../../hooks/useHapticFeedback';
+import { useThemeColors } from '../../hooks/useThemeColors';
+import { DEFAULT_IMAGE_QUALITY } from '../../constants';
+
+interface LogCookSheetProps {
+  visible: boolean;
+  onSave: (details: CookDetails) => void;
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet for recording that a recipe was cooked, with an optional
+ * rating and photo of how it turned out.
+ */
+export const LogCookSheet = memo<LogCookSheetProps>(
+  ({ visible, onSave, onClose }) => {
+    const { colors } = useThemeColors();
+    const { triggerImpactLight } = useHapticFeedback();
+    const [rating, setRating] = useState<number | undefined>();
+    const [photo, setPhoto] = useState<string | undefined>();
+
+    const close = useCallback(() => {
+      setRating(undefined);
+      setPhoto(undefined);
+      onClose();
+    }, [onClose]);
+
+    const save = useCallback(() => {
+      onSave({ rating, photo });
+      close();
+    }, [rating, photo, onSave, close]);
+
+    const handlePickerResponse = useCallback(
+      (response: ImagePickerResponse) => {
+        if (response.errorCode) {
+          Alert.alert(
+            'Error',
+            response.errorCode === 'permission'
+              ? 'Permission to access photo library was denied'
+              : response.errorMessage || 'Failed to pick image',
+          );
+          return;
+        }
+        const uri = response.assets?.[0]?.uri;
+        if (!response.didCancel && uri) {
+          setPhoto(uri);
+        }
+      },
+      [],
+    );
+
+    const pickPhoto = useCallback(() => {
+      triggerImpactLight();
+      launchImageLibrary(
+        {
+          mediaType: 'photo',
+          quality: DEFAULT_IMAGE_QUALITY,
+          selectionLimit: 1,
+          includeBase64: false,
+          includeExtra: false,
+        },
+        handlePickerResponse,
+      );
+    }, [handlePickerResponse, triggerImpactLight]);
+
+    return (
+      <Modal
+        visible={visible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={close}>
+        <TouchableWithoutFeedback
+          onPress={close}
+          accessibilityRole="button"
+          accessibilityLabel="Close">
+          <View style={styles.backdrop} />
+        </TouchableWithoutFeedback>
+        <View
+          style={[styles.sheet, { backgroundColor: colors.card }]}
+          accessibilityViewIsModal={true}>
+          <Text
+            style={[styles.title, { color: colors.text }]}
+            accessibilityRole="header">
+            How did it turn out?
+          </Text>
+          <RatingControl rating={rating} onChange={setRating} />
+          {photo ? (
+            <ImageList
+              images={[photo]}
+              onRemoveImage={() => setPhoto(undefined)}
+              keyPrefix="cook-photo"
+            />
+          ) : (
+            <Button
+              title="Add Photo"
+              icon="📷"
+              variant="ghost"
+              size="small"
+              onPress={pickPhoto}
+            />
+          )}
+          <View style={styles.actions}>
+            <Button title="Cancel" variant="ghost" onPress={close} />
+            <Button title="Save" variant="primary" onPress={save} />
+          </View>
+        </View>
+      </Modal>
+    );
+  },
+);
+
+LogCookSheet.displayName = 'LogCookSheet';
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 32,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignSelf: 'stretch',
+    gap: 8,
+  },
+});
@@ -0,0 +1,82 @@
+import React, { memo, useCallback } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Button } from '../common/Button';
+import { useHapticFeedback } from '../../hooks/useHapticFeedback';
+import { useThemeColors } from '../../hooks/useThemeColors';
+import { MAX_RATING } from '../../constants';
+import { formatRatingLabel } from '../../utils/ratingUtils';
+
+interface RatingControlProps {
+  rating?: number;
+  /** Called with undefined when the current rating is tapped again */
+  onChange: (rating: number | undefined) => void;
+  disabled?: boolean;
+}
+
+const STARS = Array.from({ length: MAX_RATING }, (_, index) => index + 1);
+
+/**
+ * Row of star buttons for rating a recipe. Tapping the star that matches
+ * the current rating clears it.
+ */
+export const RatingControl = memo<RatingControlProps>(
+  ({ rating, onChange, disabled = false }) => {
+    const { colors } = useThemeColors();
+    const { triggerSelection } = useHapticFeedback();
+
+    const handlePress = useCallback(
+      (star: number) => {
+        triggerSelection();
+        onChange(star === rating ? undefined : star);
+      },
+      [rating, onChange, triggerSelection],
+    );
+
+    return (
+      <View
+        style={styles.container}
+        accessibilityLabel={rating ? formatRatingLabel(rating) : 'Not rated'}>
+        {STARS.map(star => {
+          const isFilled = rating !== undefined && star <= rating;
+          return (
+            <Button
+              key={star}
+              title={isFilled ? '★' : '☆'}
+              variant="ghost"
+              size="small"
+              onPress={() => handlePress(star)}
+              disabled={disabled}
+              style={styles.star}
+              textStyle={{
+                ...styles.starText,
+                color: isFilled ? colors.warning : colors.darkGray,
+              }}
+              accessibilityLabel={`Rate ${star} ${
+                star === 1 ? 'star' : 'stars'
+              }`}
+              accessibilityHint={
+                star === rating ? 'Clears the rating' : undefined
+              }
+            />
+          );
+        })}
+      </View>
+    );
+  },
+);
+
+RatingControl.displayName = 'RatingControl';
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  star: {
+    paddingHorizontal: 4,
+    paddingVertical: 4,
+  },
+  starText: {
+    fontSize: 26,
+  },
+});
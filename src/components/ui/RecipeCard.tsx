@@ -6,15 +6,28 @@ import ReanimatedSwipeable, {
 import { SharedValue } from 'react-native-reanimated';
 import { Recipe } from '../../types/Recipe';
 import { ImageList } from './ImageList';
+import { HighlightedText } from '../common/HighlightedText';
+import { TagChip } from '../common/TagChip';
+import { formatDuration, getTotalMinutes } from '../../utils/durationUtils';
+import { formatRatingLabel, formatRatingStars } from '../../utils/ratingUtils';
+import { formatTimesCooked } from '../../utils/cookLog';
 import { useHapticFeedback } from '../../hooks/useHapticFeedback';
 import { useThemeColors } from '../../hooks/useThemeColors';
 import { IMAGE_SIZE, SWIPE_THRESHOLD, SWIPE_FRICTION } from '../../constants';
 import { AnimatedDeleteButton } from './AnimatedDeleteButton';
+import { AnimatedFavoriteButton } from './AnimatedFavoriteButton';
 
 interface RecipeCardProps {
   recipe: Recipe;
   onPress?: () => void;
+  /** Opens more actions for the recipe, such as duplicating it */
+  onLongPress?: (recipe: Recipe) => void;
   onDelete: (recipe: Recipe) => void;
+  /** Enables the swipe-right favorite action */
+  onToggleFavorite?: (recipe: Recipe) => void;
+  highlightQuery?: string;
+  /** Ask before deleting; turn off when the screen offers undo instead */
+  confirmDelete?: boolean;
 }
 
 const EmptyImages = memo(() => {
@@ -46,7 +59,7 @@ const showDeleteConfirmation = (
 ): void => {
   Alert.alert(
     'Delete Recipe',
-    `Are you sure you want to delete "${recipe.title}"? This action cannot be undone.`,
+    `Move "${recipe.title}" to the Trash? You can restore it from there until it is permanently deleted.`,
     [
       {
         text: 'Cancel',
@@ -63,32 +76,52 @@ const showDeleteConfirmation = (
 };
 
 export const RecipeCard = memo<RecipeCardProps>(
-  ({ recipe, onPress, onDelete }) => {
+  ({
+    recipe,
+    onPress,
+    onLongPress,
+    onDelete,
+    onToggleFavorite,
+    highlightQuery,
+    confirmDelete = true,
+  }) => {
     const swipeableRef = useRef<SwipeableMethods>(null);
     const [isScrolling, setIsScrolling] = useState(false);
     const { colors } = useThemeColors();
-    const { triggerImpactMedium, triggerNotificationWarning } =
-      useHapticFeedback();
+    const {
+      triggerImpactLight,
+      triggerImpactMedium,
+      triggerNotificationWarning,
+    } = useHapticFeedback();
 
     const truncatedDescription = useMemo(
       () => recipe.description?.substring(0, 100) ?? 'No description',
       [recipe.description],
     );
+    const totalMinutes = getTotalMinutes(recipe);
 
     const handleDelete = useCallback(() => {
-      triggerImpactMedium();
+      const confirm = () => {
+        triggerNotificationWarning();
+        onDelete(recipe);
+      };
 
-      showDeleteConfirmation(
-        recipe,
-        () => {
-          triggerNotificationWarning();
-          onDelete(recipe);
-        },
-        () => {
-          swipeableRef.current?.close();
-        },
-      );
-    }, [recipe, onDelete, triggerImpactMedium, triggerNotificationWarning]);
+      if (!confirmDelete) {
+        confirm();
+        return;
+      }
+
+      triggerImpactMedium();
+      showDeleteConfirmation(recipe, confirm, () => {
+        swipeableRef.current?.close();
+      });
+    }, [
+      recipe,
+      onDelete,
+      confirmDelete,
+      triggerImpactMedium,
+      triggerNotificationWarning,
+    ]);
 
     const renderRightActions = useCallback(
       (progress: SharedValue<number>) => (
@@ -99,6 +132,30 @@ export const RecipeCard = memo<RecipeCardProps>(
       [handleDelete],
     );
 
+    const handleToggleFavorite = useCallback(() => {
+      triggerImpactLight();
+      swipeableRef.current?.close();
+      onToggleFavorite?.(recipe);
+    }, [recipe, onToggleFavorite, triggerImpactLight]);
+
+    const renderLeftActions = useCallback(
+      (progress: SharedValue<number>) => (
+        <View style={styles.leftActionContainer}>
+          <AnimatedFavoriteButton
+            progress={progress}
+            isFavorite={!!recipe.isFavorite}
+            onPress={handleToggleFavorite}
+          />
+        </View>
+      ),
+      [recipe.isFavorite, handleToggleFavorite],
+    );
+
+    const handleLongPress = useCallback(() => {
+      triggerImpactMedium();
+      onLongPress?.(recipe);
+    }, [recipe, onLongPress, triggerImpactMedium]);
+
     const setScrollingTrue = useCallback(() => setIsScrolling(true), []);
     const setScrollingFalse = useCallback(() => setIsScrolling(false), []);
 
@@ -112,6 +169,8 @@ export const RecipeCard = memo<RecipeCardProps>(
       <ReanimatedSwipeable
         ref={swipeableRef}
         renderRightActions={renderRightActions}
+        renderLeftActions={onToggleFavorite ? renderLeftActions : undefined}
+        leftThreshold={SWIPE_THRESHOLD}
         rightThreshold={SWIPE_THRESHOLD}
         friction={SWIPE_FRICTION}
         enabled={!isScrolling}>
@@ -131,22 +190,68 @@ export const RecipeCard = memo<RecipeCardProps>(
             <TouchableOpacity
               style={styles.textContainer}
               onPress={onPress}
+              onLongPress={onLongPress ? handleLongPress : undefined}
               activeOpacity={0.7}
               accessibilityRole="button"
               accessibilityLabel={`Recipe: ${recipe.title}`}
-              accessibilityHint={`Tap to edit recipe. ${truncatedDescription}`}>
-              <Text
-                style={[styles.title, { color: colors.text }]}
-                numberOfLines={2}
-                accessibilityRole="header">
-                {recipe.title}
-              </Text>
-              <Text
+              accessibilityHint={`Tap to view recipe${
+                onLongPress ? ', long press for more actions' : ''
+              }. ${truncatedDescription}`}>
+              <View style={styles.titleRow}>
+                <HighlightedText
+                  text={recipe.title}
+                  query={highlightQuery}
+                  style={[styles.title, { color: colors.text }]}
+                  numberOfLines={2}
+                  accessibilityRole="header"
+                />
+                {recipe.isFavorite && (
+                  <Text
+                    style={[styles.favoriteIcon, { color: colors.favorite }]}
+                    accessibilityLabel="Favorite">
+                    ♥
+                  </Text>
+                )}
+              </View>
+              <HighlightedText
+                text={recipe.description || 'No description provided'}
+                query={recipe.description ? highlightQuery : undefined}
                 style={[styles.description, { color: colors.darkGray }]}
                 numberOfLines={3}
-                accessibilityRole="text">
-                {recipe.description || 'No description provided'}
-              </Text>
+                accessibilityRole="text"
+              />
+              {recipe.rating !== undefined && (
+                <Text
+                  style={[styles.rating, { color: colors.warning }]}
+                  accessibilityLabel={formatRatingLabel(recipe.rating)}>
+                  {formatRatingStars(recipe.rating)}
+                </Text>
+              )}
+              {totalMinutes !== undefined && (
+                <Text
+                  style={[styles.time, { color: colors.darkGray }]}
+                  accessibilityLabel={`Total time ${formatDuration(
+                    totalMinutes,
+                  )}`}>
+                  ⏱ {formatDuration(totalMinutes)}
+                </Text>
+              )}
+              {recipe.timesCooked !== undefined && recipe.lastCookedAt && (
+                <Text style={[styles.time, { color: colors.darkGray }]}>
+                  {formatTimesCooked(recipe.timesCooked)}, last{' '}
+                  {recipe.lastCookedAt.toLocaleDateString(undefined, {
+                    month: 'short',
+                    day: 'numeric',
+                  })}
+                </Text>
+              )}
+              {recipe.tags && recipe.tags.length > 0 && (
+                <View style={styles.tags}>
+                  {recipe.tags.map(tag => (
+                    <TagChip key={tag} tag={tag} size="small" />
+                  ))}
+                </View>
+              )}
             </TouchableOpacity>
 
             <View style={styles.imagesSection}>
@@ -195,16 +300,39 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     paddingVertical: 4,
   },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
   title: {
+    flex: 1,
     fontSize: 18,
     fontWeight: '600',
     marginBottom: 8,
   },
+  favoriteIcon: {
+    fontSize: 18,
+  },
   description: {
     fontSize: 14,
     lineHeight: 20,
     marginBottom: 0,
   },
+  rating: {
+    fontSize: 14,
+    marginTop: 8,
+  },
+  time: {
+    fontSize: 13,
+    marginTop: 8,
+  },
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
   imagesSection: {
     minHeight: IMAGE_SIZE,
   },
@@ -219,6 +347,12 @@ const styles = StyleSheet.create({
   emptyImagesText: {
     fontSize: 14,
   },
+  leftActionContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    width: 80,
+    marginVertical: 8,
+  },
   rightActionContainer: {
     alignItems: 'center',
     justifyContent: 'center',
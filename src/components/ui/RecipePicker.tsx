@@ -0,0 +1,180 @@
+import React, { memo, useState, useCallback } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+} from 'react-native';
+import { Recipe } from '../../types/Recipe';
+import { Button } from '../common/Button';
+import { useHapticFeedback } from '../../hooks/useHapticFeedback';
+import { useThemeColors } from '../../hooks/useThemeColors';
+
+interface RecipePickerProps {
+  visible: boolean;
+  title: string;
+  recipes: Recipe[];
+  /** Allow picking several recipes and confirming with an Add button */
+  multiple?: boolean;
+  onSelect: (recipes: Recipe[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Sheet listing recipes to choose from. In single mode tapping a recipe
+ * picks it straight away; in multiple mode recipes are ticked and added
+ * together. Selection starts empty each time it opens.
+ */
+export const RecipePicker = memo<RecipePickerProps>(
+  ({ visible, title, recipes, multiple = false, onSelect, onClose }) => {
+    const { colors } = useThemeColors();
+    const { triggerSelection } = useHapticFeedback();
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+    const close = useCallback(() => {
+      setSelectedIds([]);
+      onClose();
+    }, [onClose]);
+
+    const handlePress = useCallback(
+      (recipe: Recipe) => {
+        triggerSelection();
+        if (!multiple) {
+          onSelect([recipe]);
+          close();
+          return;
+        }
+        setSelectedIds(current =>
+          current.includes(recipe.id)
+            ? current.filter(id => id !== recipe.id)
+            : [...current, recipe.id],
+        );
+      },
+      [multiple, onSelect, close, triggerSelection],
+    );
+
+    const confirm = useCallback(() => {
+      onSelect(recipes.filter(recipe => selectedIds.includes(recipe.id)));
+      close();
+    }, [recipes, selectedIds, onSelect, close]);
+
+    return (
+      <Modal
+        visible={visible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={close}>
+        <View
+          style={[styles.container, { backgroundColor: colors.background }]}>
+          <View style={styles.header}>
+            <Button
+              title="Cancel"
+              variant="ghost"
+              size="small"
+              onPress={close}
+            />
+            <Text
+              style={[styles.title, { color: colors.text }]}
+              accessibilityRole="header">
+              {title}
+            </Text>
+            {multiple ? (
+              <Button
+                title={
+                  selectedIds.length > 0 ? `Add (${selectedIds.length})` : 'Add'
+                }
+                variant="ghost"
+                size="small"
+                onPress={confirm}
+                disabled={selectedIds.length === 0}
+                accessibilityLabel={`Add ${selectedIds.length} ${
+                  selectedIds.length === 1 ? 'recipe' : 'recipes'
+                }`}
+              />
+            ) : (
+              <View style={styles.headerSpacer} />
+            )}
+          </View>
+          <FlatList
+            data={recipes}
+            keyExtractor={recipe => recipe.id}
+            renderItem={({ item: recipe }) => {
+              const isSelected = selectedIds.includes(recipe.id);
+              return (
+                <TouchableOpacity
+                  style={[styles.row, { borderColor: colors.border }]}
+                  onPress={() => handlePress(recipe)}
+                  accessibilityRole={multiple ? 'checkbox' : 'button'}
+                  accessibilityState={
+                    multiple ? { checked: isSelected } : undefined
+                  }
+                  accessibilityLabel={recipe.title}>
+                  {multiple && (
+                    <Text
+                      style={[styles.checkbox, { color: colors.primary }]}
+                      importantForAccessibility="no">
+                      {isSelected ? '☑' : '☐'}
+                    </Text>
+                  )}
+                  <Text
+                    style={[styles.rowText, { color: colors.text }]}
+                    numberOfLines={1}>
+                    {recipe.title}
+                  </Text>
+                </TouchableOpacity>
+              );
+            }}
+            ListEmptyComponent={
+              <Text style={[styles.empty, { color: colors.darkGray }]}>
+                No recipes yet
+              </Text>
+            }
+          />
+        </View>
+      </Modal>
+    );
+  },
+);
+
+RecipePicker.displayName = 'RecipePicker';
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 8,
+  },
+  headerSpacer: {
+    width: 64,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  checkbox: {
+    fontSize: 22,
+  },
+  rowText: {
+    flex: 1,
+    fontSize: 16,
+  },
+  empty: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 32,
+  },
+});
@@ -0,0 +1,121 @@
+import React, { memo, useEffect, useRef, useCallback } from 'react';
+import { Animated, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useThemeColors } from '../../hooks/useThemeColors';
+import { UNDO_SNACKBAR_DURATION_MS } from '../../constants';
+
+interface SnackbarProps {
+  visible: boolean;
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+  duration?: number;
+}
+
+/**
+ * Transient message pinned to the bottom of the screen. Dismisses itself
+ * after `duration`; showing a new message restarts the timer. Give each
+ * event its own `key` when the same message can be shown twice in a row.
+ */
+export const Snackbar = memo<SnackbarProps>(
+  ({
+    visible,
+    message,
+    actionLabel,
+    onAction,
+    onDismiss,
+    duration = UNDO_SNACKBAR_DURATION_MS,
+  }) => {
+    const { colors } = useThemeColors();
+    const translateY = useRef(new Animated.Value(80)).current;
+
+    useEffect(() => {
+      if (!visible) {
+        return;
+      }
+
+      translateY.setValue(80);
+      Animated.timing(translateY, {
+        toValue: 0,
+        duration: 200,
+        useNativeDriver: true,
+      }).start();
+
+      const timeout = setTimeout(onDismiss, duration);
+      return () => clearTimeout(timeout);
+    }, [visible, message, duration, onDismiss, translateY]);
+
+    const handleAction = useCallback(() => {
+      onDismiss();
+      onAction?.();
+    }, [onAction, onDismiss]);
+
+    if (!visible) {
+      return null;
+    }
+
+    return (
+      <Animated.View
+        style={[
+          styles.container,
+          {
+            backgroundColor: colors.snackbarBackground,
+            shadowColor: colors.shadowColor,
+            transform: [{ translateY }],
+          },
+        ]}
+        accessibilityRole="alert"
+        accessibilityLiveRegion="polite">
+        <Text
+          style={[styles.message, { color: colors.snackbarText }]}
+          numberOfLines={2}>
+          {message}
+        </Text>
+        {actionLabel && onAction && (
+          <TouchableOpacity
+            onPress={handleAction}
+            hitSlop={{ top: 10, right: 10, bottom: 10, left: 10 }}
+            accessibilityRole="button"
+            accessibilityLabel={actionLabel}>
+            <Text style={[styles.action, { color: colors.snackbarAction }]}>
+              {actionLabel}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </Animated.View>
+    );
+  },
+);
+
+Snackbar.displayName = 'Snackbar';
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 32,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 8,
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 6,
+  },
+  message: {
+    flex: 1,
+    fontSize: 15,
+  },
+  action: {
+    fontSize: 15,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+  },
+});
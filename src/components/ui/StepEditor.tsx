@@ -0,0 +1,250 @@
+import React, { memo, useCallback, useState } from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+import { RecipeStep } from '../../types/Recipe';
+import { Button } from '../common/Button';
+import { ImagePickerComponent } from './ImagePicker';
+import { useThemeColors } from '../../hooks/useThemeColors';
+import { formatDuration, parseDuration } from '../../utils/durationUtils';
+import { MAX_STEPS, MAX_STEP_LENGTH, MAX_STEP_IMAGES } from '../../constants';
+
+type StepChanges = Partial<Omit<RecipeStep, 'id'>>;
+
+interface StepEditorProps {
+  steps: RecipeStep[];
+  onAdd: () => void;
+  onUpdate: (id: string, changes: StepChanges) => void;
+  onRemove: (id: string) => void;
+  onMove: (from: number, to: number) => void;
+  maxSteps?: number;
+}
+
+interface StepRowProps {
+  step: RecipeStep;
+  index: number;
+  isFirst: boolean;
+  isLast: boolean;
+  onUpdate: (id: string, changes: StepChanges) => void;
+  onRemove: (id: string) => void;
+  onMove: (from: number, to: number) => void;
+}
+
+const StepRow = memo<StepRowProps>(
+  ({ step, index, isFirst, isLast, onUpdate, onRemove, onMove }) => {
+    const { colors } = useThemeColors();
+    const position = index + 1;
+    // The typed text is kept as is so "1h 20m" can be entered a character
+    // at a time; only text that reads as a duration updates the step
+    const [durationText, setDurationText] = useState(() =>
+      step.durationMinutes ? formatDuration(step.durationMinutes, 'short') : '',
+    );
+    const isDurationInvalid =
+      durationText.trim().length > 0 && parseDuration(durationText) === null;
+
+    const inputStyle = [
+      styles.input,
+      {
+        backgroundColor: colors.inputBackground,
+        borderColor: colors.inputBorder,
+        color: colors.text,
+      },
+    ];
+
+    const handleDurationChange = useCallback(
+      (text: string) => {
+        setDurationText(text);
+        const minutes = parseDuration(text);
+        if (!text.trim() || minutes !== null) {
+          onUpdate(step.id, { durationMinutes: minutes || undefined });
+        }
+      },
+      [step.id, onUpdate],
+    );
+
+    const handleImagesChange = useCallback(
+      (images: string[]) => {
+        onUpdate(step.id, { images: images.length > 0 ? images : undefined });
+      },
+      [step.id, onUpdate],
+    );
+
+    return (
+      <View
+        style={[
+          styles.row,
+          { backgroundColor: colors.card, borderColor: colors.border },
+        ]}
+        accessibilityLabel={`Step ${position}`}>
+        <View style={styles.header}>
+          <Text style={[styles.stepNumber, { color: colors.text }]}>
+            Step {position}
+          </Text>
+          <View style={styles.actions}>
+            <Button
+              icon="↑"
+              variant="ghost"
+              size="small"
+              onPress={() => onMove(index, index - 1)}
+              disabled={isFirst}
+              accessibilityLabel={`Move step ${position} up`}
+            />
+            <Button
+              icon="↓"
+              variant="ghost"
+              size="small"
+              onPress={() => onMove(index, index + 1)}
+              disabled={isLast}
+              accessibilityLabel={`Move step ${position} down`}
+            />
+            <Button
+              title="Delete"
+              variant="ghost"
+              size="small"
+              onPress={() => onRemove(step.id)}
+              textStyle={{ color: colors.danger }}
+              accessibilityLabel={`Delete step ${position}`}
+            />
+          </View>
+        </View>
+        <TextInput
+          style={[inputStyle, styles.textInput]}
+          value={step.text}
+          onChangeText={text => onUpdate(step.id, { text })}
+          placeholder="Describe this step..."
+          placeholderTextColor={colors.placeholder}
+          multiline
+          textAlignVertical="top"
+          maxLength={MAX_STEP_LENGTH}
+          accessibilityLabel={`Step ${position} instructions`}
+        />
+        <View style={styles.durationRow}>
+          <TextInput
+            style={[inputStyle, styles.durationInput]}
+            value={durationText}
+            onChangeText={handleDurationChange}
+            placeholder="e.g. 10m"
+            placeholderTextColor={colors.placeholder}
+            autoCapitalize="none"
+            autoCorrect={false}
+            accessibilityLabel={`Step ${position} duration`}
+            accessibilityHint="Optional. For example 45m, 1h 20m or 1:20"
+          />
+          <Text
+            style={[
+              styles.durationLabel,
+              { color: isDurationInvalid ? colors.danger : colors.darkGray },
+            ]}
+            accessibilityLiveRegion="polite">
+            {isDurationInvalid
+              ? 'Try 45m, 1h 20m or 1:20'
+              : 'duration (optional)'}
+          </Text>
+        </View>
+        <ImagePickerComponent
+          images={step.images ?? []}
+          onImagesChange={handleImagesChange}
+          maxImages={MAX_STEP_IMAGES}
+        />
+      </View>
+    );
+  },
+);
+
+StepRow.displayName = 'StepRow';
+
+export const StepEditor = memo<StepEditorProps>(
+  ({ steps, onAdd, onUpdate, onRemove, onMove, maxSteps = MAX_STEPS }) => {
+    const { colors } = useThemeColors();
+    const canAdd = steps.length < maxSteps;
+
+    const handleAdd = useCallback(() => {
+      if (canAdd) {
+        onAdd();
+      }
+    }, [canAdd, onAdd]);
+
+    return (
+      <View style={styles.container}>
+        {steps.length === 0 && (
+          <Text style={[styles.emptyText, { color: colors.placeholder }]}>
+            No steps yet
+          </Text>
+        )}
+        {steps.map((step, index) => (
+          <StepRow
+            key={step.id}
+            step={step}
+            index={index}
+            isFirst={index === 0}
+            isLast={index === steps.length - 1}
+            onUpdate={onUpdate}
+            onRemove={onRemove}
+            onMove={onMove}
+          />
+        ))}
+        <Button
+          icon="+"
+          title="Add Step"
+          variant="ghost"
+          size="medium"
+          onPress={handleAdd}
+          disabled={!canAdd}
+          accessibilityLabel="Add step"
+          accessibilityHint={`Adds a new preparation step. Up to ${maxSteps} steps`}
+        />
+      </View>
+    );
+  },
+);
+
+StepEditor.displayName = 'StepEditor';
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+  row: {
+    borderRadius: 8,
+    borderWidth: 1,
+    padding: 8,
+    gap: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  stepNumber: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    borderRadius: 6,
+    borderWidth: 1,
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  textInput: {
+    minHeight: 72,
+  },
+  durationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  durationInput: {
+    width: 96,
+  },
+  durationLabel: {
+    fontSize: 14,
+  },
+});
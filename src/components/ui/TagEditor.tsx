@@ -0,0 +1,134 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+import { TagChip } from '../common/TagChip';
+import { useThemeColors } from '../../hooks/useThemeColors';
+import { TagCount, normalizeTags, suggestTags } from '../../utils/tagUtils';
+import { MAX_TAGS, MAX_TAG_LENGTH } from '../../constants';
+
+interface TagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  /** Existing tags offered for autocomplete */
+  availableTags?: TagCount[];
+  maxTags?: number;
+}
+
+export const TagEditor = memo<TagEditorProps>(
+  ({ tags, onChange, availableTags = [], maxTags = MAX_TAGS }) => {
+    const { colors } = useThemeColors();
+    const [input, setInput] = useState('');
+    const canAdd = tags.length < maxTags;
+
+    const suggestions = useMemo(
+      () => (input.trim() ? suggestTags(input, availableTags, tags) : []),
+      [input, availableTags, tags],
+    );
+
+    const addTags = useCallback(
+      (values: string[]) => {
+        onChange(normalizeTags([...tags, ...values]).slice(0, maxTags));
+        setInput('');
+      },
+      [tags, onChange, maxTags],
+    );
+
+    // A comma finishes the current tag so several can be typed in a row
+    const handleChangeText = useCallback(
+      (text: string) => {
+        if (text.includes(',')) {
+          addTags(text.split(','));
+        } else {
+          setInput(text);
+        }
+      },
+      [addTags],
+    );
+
+    const handleSubmit = useCallback(() => {
+      if (input.trim()) {
+        addTags([input]);
+      }
+    }, [input, addTags]);
+
+    const removeTag = useCallback(
+      (tag: string) => onChange(tags.filter(t => t !== tag)),
+      [tags, onChange],
+    );
+
+    return (
+      <View style={styles.container}>
+        {tags.length > 0 && (
+          <View style={styles.chips}>
+            {tags.map(tag => (
+              <TagChip key={tag} tag={tag} onRemove={() => removeTag(tag)} />
+            ))}
+          </View>
+        )}
+        <TextInput
+          style={[
+            styles.input,
+            {
+              backgroundColor: colors.inputBackground,
+              borderColor: colors.inputBorder,
+              color: colors.text,
+            },
+          ]}
+          value={input}
+          onChangeText={handleChangeText}
+          onSubmitEditing={handleSubmit}
+          placeholder={
+            canAdd ? 'Add a tag, e.g. vegetarian' : `Up to ${maxTags} tags`
+          }
+          placeholderTextColor={colors.placeholder}
+          editable={canAdd}
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="done"
+          blurOnSubmit={false}
+          maxLength={MAX_TAG_LENGTH}
+          accessibilityLabel="New tag"
+          accessibilityHint="Type a tag and press done or comma to add it"
+        />
+        {suggestions.length > 0 && (
+          <View style={styles.chips} accessibilityLabel="Tag suggestions">
+            {suggestions.map(tag => (
+              <TagChip
+                key={tag}
+                tag={tag}
+                size="small"
+                onPress={() => addTags([tag])}
+              />
+            ))}
+          </View>
+        )}
+        <Text style={[styles.hint, { color: colors.darkGray }]}>
+          {tags.length}/{maxTags} tags
+        </Text>
+      </View>
+    );
+  },
+);
+
+TagEditor.displayName = 'TagEditor';
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  input: {
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  hint: {
+    fontSize: 12,
+    textAlign: 'right',
+  },
+});
@@ -0,0 +1,85 @@
+import React, { memo } from 'react';
+import { View, ScrollView, StyleSheet } from 'react-native';
+import { TagChip } from '../common/TagChip';
+import { Button } from '../common/Button';
+import { TagCount, TagMatchMode } from '../../utils/tagUtils';
+
+interface TagFilterBarProps {
+  tagCounts: TagCount[];
+  selectedTags: string[];
+  mode: TagMatchMode;
+  onToggleTag: (tag: string) => void;
+  onModeChange: (mode: TagMatchMode) => void;
+  onClear: () => void;
+}
+
+export const TagFilterBar = memo<TagFilterBarProps>(
+  ({ tagCounts, selectedTags, mode, onToggleTag, onModeChange, onClear }) => {
+    if (tagCounts.length === 0) {
+      return null;
+    }
+
+    return (
+      <View style={styles.container} accessibilityLabel="Filter by tag">
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chips}
+          keyboardShouldPersistTaps="handled">
+          {tagCounts.map(({ tag, count }) => (
+            <TagChip
+              key={tag}
+              tag={tag}
+              count={count}
+              selected={selectedTags.includes(tag)}
+              onPress={() => onToggleTag(tag)}
+            />
+          ))}
+        </ScrollView>
+        {selectedTags.length > 0 && (
+          <View style={styles.actions}>
+            {selectedTags.length > 1 && (
+              <Button
+                title={mode === 'all' ? 'Match: All Tags' : 'Match: Any Tag'}
+                variant="ghost"
+                size="small"
+                onPress={() => onModeChange(mode === 'all' ? 'any' : 'all')}
+                accessibilityLabel={
+                  mode === 'all'
+                    ? 'Showing recipes with all selected tags'
+                    : 'Showing recipes with any selected tag'
+                }
+                accessibilityHint="Switches between matching all or any of the selected tags"
+              />
+            )}
+            <Button
+              title="Clear"
+              variant="ghost"
+              size="small"
+              onPress={onClear}
+              accessibilityLabel="Clear tag filter"
+            />
+          </View>
+        )}
+      </View>
+    );
+  },
+);
+
+TagFilterBar.displayName = 'TagFilterBar';
+
+const styles = StyleSheet.create({
+  container: {
+    paddingBottom: 8,
+  },
+  chips: {
+    gap: 8,
+    paddingHorizontal: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    paddingHorizontal: 8,
+    paddingTop: 4,
+  },
+});
@@ -0,0 +1,90 @@
+import React, { memo } from 'react';
+import { View, Text, StyleSheet, SafeAreaView } from 'react-native';
+import { Button } from '../common/Button';
+import { useKitchenTimers } from '../../context/TimerContext';
+import { useThemeColors } from '../../hooks/useThemeColors';
+import { getTimerEndTime } from '../../services/kitchenTimers';
+import { formatCountdown } from '../../utils/durationUtils';
+
+/**
+ * Mini-bar pinned under every screen listing running kitchen timers. Hidden
+ * when there are none.
+ */
+export const TimerBar = memo(() => {
+  const { timers, now, cancelTimer } = useKitchenTimers();
+  const { colors } = useThemeColors();
+
+  if (timers.length === 0) {
+    return null;
+  }
+
+  return (
+    <SafeAreaView
+      style={[
+        styles.container,
+        { backgroundColor: colors.card, borderTopColor: colors.border },
+      ]}>
+      {timers.map(timer => {
+        const secondsLeft = (getTimerEndTime(timer) - now) / 1000;
+        const isDone = secondsLeft <= 0;
+
+        return (
+          <View
+            key={timer.id}
+            style={styles.row}
+            accessibilityLabel={`${timer.label} timer, ${
+              isDone ? 'done' : `${formatCountdown(secondsLeft)} left`
+            }`}>
+            <Text
+              style={[styles.label, { color: colors.text }]}
+              numberOfLines={1}>
+              {timer.label}
+            </Text>
+            <Text
+              style={[
+                styles.countdown,
+                { color: isDone ? colors.success : colors.text },
+              ]}
+              accessibilityLiveRegion={isDone ? 'assertive' : 'none'}>
+              {isDone ? 'Done!' : formatCountdown(secondsLeft)}
+            </Text>
+            <Button
+              title={isDone ? 'Dismiss' : 'Cancel'}
+              variant="ghost"
+              size="small"
+              onPress={() => cancelTimer(timer.id)}
+              accessibilityLabel={`${isDone ? 'Dismiss' : 'Cancel'} ${
+                timer.label
+              } timer`}
+            />
+          </View>
+        );
+      })}
+    </SafeAreaView>
+  );
+});
+
+TimerBar.displayName = 'TimerBar';
+
+const styles = StyleSheet.create({
+  container: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingLeft: 16,
+    paddingRight: 8,
+    paddingVertical: 4,
+  },
+  label: {
+    flex: 1,
+    fontSize: 15,
+  },
+  countdown: {
+    fontSize: 17,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+  },
+});
@@ -0,0 +1,83 @@
+import React, { memo, useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Button } from '../common/Button';
+import { useKitchenTimers } from '../../context/TimerContext';
+import { useHapticFeedback } from '../../hooks/useHapticFeedback';
+import { useThemeColors } from '../../hooks/useThemeColors';
+import {
+  findDurationMentions,
+  formatTimerDuration,
+} from '../../utils/durationUtils';
+
+interface TimerButtonsProps {
+  /** Text to look for durations in, e.g. "Bake for 25 minutes" */
+  text: string;
+  /** A duration set on the step itself, offered alongside the text's */
+  durationMinutes?: number;
+  /** Shown on the timer bar, e.g. "Lasagna, step 3" */
+  label: string;
+  recipeId?: string;
+}
+
+/**
+ * One start-timer button per distinct duration mentioned in `text`. Renders
+ * nothing when there are none.
+ */
+export const TimerButtons = memo<TimerButtonsProps>(
+  ({ text, durationMinutes, label, recipeId }) => {
+    const { startTimer } = useKitchenTimers();
+    const { triggerImpactLight } = useHapticFeedback();
+    const { colors } = useThemeColors();
+
+    const durations = useMemo(() => {
+      const seconds = findDurationMentions(text).map(
+        mention => mention.seconds,
+      );
+      if (durationMinutes !== undefined) {
+        seconds.unshift(durationMinutes * 60);
+      }
+      return Array.from(new Set(seconds));
+    }, [text, durationMinutes]);
+
+    if (durations.length === 0) {
+      return null;
+    }
+
+    return (
+      <View style={styles.container}>
+        {durations.map(seconds => {
+          const duration = formatTimerDuration(seconds);
+          return (
+            <Button
+              key={seconds}
+              title={duration}
+              icon="⏱"
+              variant="ghost"
+              size="small"
+              style={{ ...styles.button, borderColor: colors.primary }}
+              onPress={() => {
+                triggerImpactLight();
+                startTimer({ label, recipeId, durationSeconds: seconds });
+              }}
+              accessibilityLabel={`Start ${duration} timer`}
+            />
+          );
+        })}
+      </View>
+    );
+  },
+);
+
+TimerButtons.displayName = 'TimerButtons';
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  button: {
+    borderWidth: 1,
+  },
+});
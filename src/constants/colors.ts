@@ -15,9 +15,16 @@ export const COLORS = {
     inputBorder: '#E0E0E0',
     inputBackground: '#FFFFFF',
     error: '#FF3B30',
+    // Search
+    highlight: '#FFE58F',
+    // Snackbar
+    snackbarBackground: '#323232',
+    snackbarText: '#FFFFFF',
+    snackbarAction: '#64B5F6',
     // Component specific colors
     shadowColor: '#000000',
     deleteButton: '#FF3B30',
+    favorite: '#FF2D55',
     // Gray shades
     lightGray: '#F0F0F0',
     mediumGray: '#F5F5F5',
@@ -33,6 +40,8 @@ export const COLORS = {
     primaryButtonBackgroundLight: '#F8F9FF',
     dangerButtonBackground: '#FF3B30',
     dangerButtonText: '#FFFFFF',
+    favoriteButtonBackground: '#FF2D55',
+    favoriteButtonText: '#FFFFFF',
     ghostButtonBackground: 'transparent',
     ghostButtonText: '#007AFF',
   },
@@ -52,9 +61,16 @@ export const COLORS = {
     inputBorder: '#38383A',
     inputBackground: '#1C1C1E',
     error: '#FF453A',
+    // Search
+    highlight: '#7A5C00',
+    // Snackbar
+    snackbarBackground: '#E5E5EA',
+    snackbarText: '#000000',
+    snackbarAction: '#0A60C2',
     // Component specific colors
     shadowColor: '#000000',
     deleteButton: '#FF453A',
+    favorite: '#FF375F',
     // Gray shades
     lightGray: '#2C2C2E',
     mediumGray: '#1C1C1E',
@@ -70,6 +86,8 @@ export const COLORS = {
     primaryButtonBackgroundLight: '#1C2A3D',
     dangerButtonBackground: '#FF453A',
     dangerButtonText: '#FFFFFF',
+    favoriteButtonBackground: '#FF375F',
+    favoriteButtonText: '#FFFFFF',
     ghostButtonBackground: 'transparent',
     ghostButtonText: '#0A84FF',
   },
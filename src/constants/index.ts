@@ -15,6 +15,27 @@ export const MAX_TITLE_LENGTH = 100;
 /** Maximum allowed characters for recipe description */
 export const MAX_DESCRIPTION_LENGTH = 1000;
 
+/** Maximum number of ingredient rows allowed per recipe */
+export const MAX_INGREDIENTS = 50;
+
+/** Maximum allowed characters for an ingredient name */
+export const MAX_INGREDIENT_NAME_LENGTH = 100;
+
+/** Maximum number of preparation steps allowed per recipe */
+export const MAX_STEPS = 50;
+
+/** Maximum allowed characters for a single preparation step */
+export const MAX_STEP_LENGTH = 500;
+
+/** Maximum number of images allowed per preparation step */
+export const MAX_STEP_IMAGES = 3;
+
+/** Highest star rating a recipe can be given */
+export const MAX_RATING = 5;
+
+/** Maximum allowed characters for a single cooking note */
+export const MAX_NOTE_LENGTH = 500;
+
 /** Maximum number of images allowed per recipe */
 export const MAX_IMAGES = 8;
 
@@ -33,6 +54,48 @@ export const KEYBOARD_VERTICAL_OFFSET_ANDROID = 20;
 /** Key for storing navigation state in AsyncStorage */
 export const NAVIGATION_STATE_KEY = '@recipe_app_nav_state';
 
+/** Key for storing the recipe list sort order in AsyncStorage */
+export const SORT_ORDER_KEY = '@recipe_app_sort_order';
+
+/** Key for storing whether deleting a recipe asks for confirmation first */
+export const CONFIRM_DELETE_KEY = '@recipe_app_confirm_delete';
+
+/** How long the undo snackbar stays on screen after a delete */
+export const UNDO_SNACKBAR_DURATION_MS = 5000;
+
+/** Key for storing how long deleted recipes stay in the trash */
+export const TRASH_RETENTION_KEY = '@recipe_app_trash_retention_days';
+
+/** Days a deleted recipe is kept in the trash before it is purged */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/** Retention periods offered on the Trash screen, in days */
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90] as const;
+
+/** Key for storing which measurement system quantities are shown in */
+export const UNIT_PREFERENCE_KEY = '@recipe_app_unit_preference';
+
+/** Key for storing the step each recipe was left on in cooking mode */
+export const COOKING_PROGRESS_KEY = '@recipe_app_cooking_progress';
+
+/** Key for storing running kitchen timers so they survive a restart */
+export const KITCHEN_TIMERS_KEY = '@recipe_app_kitchen_timers';
+
+/** Seconds left on a kitchen timer when the heads-up haptic fires */
+export const TIMER_WARNING_SECONDS = 60;
+
+/** Key for storing the shopping list in AsyncStorage */
+export const SHOPPING_LIST_KEY = '@recipe_app_shopping_list';
+
+/** Key for storing the weekly meal plan in AsyncStorage */
+export const MEAL_PLAN_KEY = '@recipe_app_meal_plan';
+
+/** Key for storing earlier versions of edited recipes */
+export const RECIPE_HISTORY_KEY = '@recipe_app_recipe_history';
+
+/** Earlier versions kept per recipe; the oldest are dropped first */
+export const MAX_RECIPE_REVISIONS = 20;
+
 /** Default image size for Picsum placeholder images */
 export const DEFAULT_IMAGE_SIZE = 400;
 
@@ -54,6 +117,24 @@ export const SWIPE_THRESHOLD = 40;
 /** Friction factor for swipe animations */
 export const SWIPE_FRICTION = 4;
 
+/** Maximum number of servings a recipe can be written or scaled for */
+export const MAX_SERVINGS = 100;
+
+/** Longest prep or cook time a recipe can have, in minutes (3 days) */
+export const MAX_DURATION_MINUTES = 3 * 24 * 60;
+
+/** Total time limits offered by the recipe list filter, in minutes */
+export const TOTAL_TIME_FILTER_OPTIONS = [15, 30, 60] as const;
+
+/** Maximum number of tags per recipe */
+export const MAX_TAGS = 10;
+
+/** Maximum length of a single tag */
+export const MAX_TAG_LENGTH = 30;
+
+/** Delay before a typed search query is applied to the recipe list */
+export const SEARCH_DEBOUNCE_MS = 300;
+
 /** Minimum blur value for Picsum images */
 export const MIN_BLUR = 1;
 
@@ -0,0 +1,144 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  ReactNode,
+} from 'react';
+import {
+  KitchenTimer,
+  getKitchenTimers,
+  getTimerEndTime,
+  saveKitchenTimers,
+} from '../services/kitchenTimers';
+import { useHapticFeedback } from '../hooks/useHapticFeedback';
+import { createLocalId } from '../utils/listUtils';
+import { TIMER_WARNING_SECONDS } from '../constants';
+
+interface TimerContextValue {
+  timers: KitchenTimer[];
+  /** Current time in epoch milliseconds, updated every second while a timer runs */
+  now: number;
+  startTimer: (timer: Omit<KitchenTimer, 'id' | 'startedAt'>) => void;
+  cancelTimer: (id: string) => void;
+}
+
+const TimerContext = createContext<TimerContextValue | null>(null);
+
+/**
+ * Holds kitchen timers above the navigator so they keep running between
+ * screens, and restores them from storage after an app restart.
+ */
+export const TimerProvider = ({ children }: { children: ReactNode }) => {
+  const [timers, setTimers] = useState<KitchenTimer[]>([]);
+  const [now, setNow] = useState(Date.now);
+  const [isRestored, setIsRestored] = useState(false);
+  const { triggerNotificationWarning, triggerNotificationSuccess } =
+    useHapticFeedback();
+
+  // Timers whose heads-up and done haptics have already fired
+  const warnedIds = useRef(new Set<string>());
+  const finishedIds = useRef(new Set<string>());
+
+  useEffect(() => {
+    let isActive = true;
+
+    getKitchenTimers().then(restored => {
+      if (!isActive) {
+        return;
+      }
+      // Don't buzz for timers that went off while the app was closed
+      const restoredAt = Date.now();
+      restored.forEach(timer => {
+        const secondsLeft = (getTimerEndTime(timer) - restoredAt) / 1000;
+        if (secondsLeft <= TIMER_WARNING_SECONDS) {
+          warnedIds.current.add(timer.id);
+        }
+        if (secondsLeft <= 0) {
+          finishedIds.current.add(timer.id);
+        }
+      });
+      setNow(restoredAt);
+      setTimers(current => [...restored, ...current]);
+      setIsRestored(true);
+    });
+
+    return () => {
+      isActive = false;
+    };
+  }, []);
+
+  // Saving before the restore finishes would overwrite the saved timers
+  useEffect(() => {
+    if (isRestored) {
+      saveKitchenTimers(timers);
+    }
+  }, [isRestored, timers]);
+
+  const hasRunningTimer = timers.some(timer => getTimerEndTime(timer) > now);
+
+  useEffect(() => {
+    if (!hasRunningTimer) {
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasRunningTimer]);
+
+  useEffect(() => {
+    timers.forEach(timer => {
+      const secondsLeft = (getTimerEndTime(timer) - now) / 1000;
+      if (secondsLeft <= 0) {
+        if (!finishedIds.current.has(timer.id)) {
+          finishedIds.current.add(timer.id);
+          triggerNotificationSuccess();
+        }
+      } else if (
+        secondsLeft <= TIMER_WARNING_SECONDS &&
+        timer.durationSeconds > TIMER_WARNING_SECONDS &&
+        !warnedIds.current.has(timer.id)
+      ) {
+        warnedIds.current.add(timer.id);
+        triggerNotificationWarning();
+      }
+    });
+  }, [timers, now, triggerNotificationSuccess, triggerNotificationWarning]);
+
+  const startTimer = useCallback(
+    (timer: Omit<KitchenTimer, 'id' | 'startedAt'>) => {
+      const startedAt = Date.now();
+      setNow(startedAt);
+      setTimers(current => [
+        ...current,
+        { ...timer, id: createLocalId(), startedAt },
+      ]);
+    },
+    [],
+  );
+
+  const cancelTimer = useCallback((id: string) => {
+    warnedIds.current.delete(id);
+    finishedIds.current.delete(id);
+    setTimers(current => current.filter(timer => timer.id !== id));
+  }, []);
+
+  const value = useMemo(
+    () => ({ timers, now, startTimer, cancelTimer }),
+    [timers, now, startTimer, cancelTimer],
+  );
+
+  return (
+    <TimerContext.Provider value={value}>{children}</TimerContext.Provider>
+  );
+};
+
+export const useKitchenTimers = (): TimerContextValue => {
+  const context = useContext(TimerContext);
+  if (!context) {
+    throw new Error('useKitchenTimers must be used within a TimerProvider');
+  }
+  return context;
+};
@@ -1,12 +1,94 @@
 import { useState, useMemo, useCallback } from 'react';
-import { Recipe } from '../types/Recipe';
+import { Ingredient, Recipe, RecipeStep } from '../types/Recipe';
 import {
   MAX_TITLE_LENGTH,
   MAX_DESCRIPTION_LENGTH,
   MAX_IMAGES,
+  MAX_INGREDIENTS,
+  MAX_INGREDIENT_NAME_LENGTH,
+  MAX_STEPS,
+  MAX_STEP_LENGTH,
+  MAX_STEP_IMAGES,
+  MAX_TAGS,
+  MAX_SERVINGS,
+  MAX_DURATION_MINUTES,
 } from '../constants';
+import { createLocalId, moveItem } from '../utils/listUtils';
+import { generateId } from '../services/idGenerator';
+import { normalizeTags } from '../utils/tagUtils';
+import { parseIngredientBlock } from '../utils/ingredientParser';
+import { formatDuration, parseDuration } from '../utils/durationUtils';
 
-export { MAX_TITLE_LENGTH, MAX_DESCRIPTION_LENGTH, MAX_IMAGES };
+export {
+  MAX_TITLE_LENGTH,
+  MAX_DESCRIPTION_LENGTH,
+  MAX_IMAGES,
+  MAX_INGREDIENTS,
+  MAX_INGREDIENT_NAME_LENGTH,
+  MAX_STEPS,
+  MAX_STEP_LENGTH,
+  MAX_STEP_IMAGES,
+  MAX_TAGS,
+  MAX_SERVINGS,
+};
+
+export const createEmptyIngredient = (): Ingredient => ({
+  id: createLocalId(),
+  quantity: '',
+  unit: '',
+  name: '',
+});
+
+const trimIngredient = (ingredient: Ingredient): Ingredient => {
+  const trimmed: Ingredient = {
+    id: ingredient.id,
+    quantity: ingredient.quantity.trim(),
+    unit: ingredient.unit.trim(),
+    name: ingredient.name.trim(),
+  };
+  const note = ingredient.note?.trim();
+  const group = ingredient.group?.trim();
+  if (note) {
+    trimmed.note = note;
+  }
+  if (group) {
+    trimmed.group = group;
+  }
+  return trimmed;
+};
+
+// Blank is unset; unreadable text becomes NaN so validation can report it
+const toDurationValue = (text: string): number | undefined =>
+  text.trim() ? parseDuration(text) ?? NaN : undefined;
+
+const toDurationText = (minutes: number | undefined): string =>
+  minutes ? formatDuration(minutes, 'short') : '';
+
+const isBlankIngredient = (ingredient: Ingredient): boolean =>
+  !ingredient.quantity &&
+  !ingredient.unit &&
+  !ingredient.name &&
+  !ingredient.note &&
+  !ingredient.group;
+
+export const createEmptyStep = (): RecipeStep => ({
+  id: createLocalId(),
+  text: '',
+});
+
+const trimStep = (step: RecipeStep): RecipeStep => {
+  const trimmed: RecipeStep = { id: step.id, text: step.text.trim() };
+  if (step.durationMinutes !== undefined) {
+    trimmed.durationMinutes = step.durationMinutes;
+  }
+  if (step.images && step.images.length > 0) {
+    trimmed.images = step.images;
+  }
+  return trimmed;
+};
+
+const isBlankStep = (step: RecipeStep): boolean =>
+  !step.text && step.durationMinutes === undefined && !step.images;
 
 export const useRecipeForm = (initialRecipe?: Recipe) => {
   const [title, setTitle] = useState(initialRecipe?.title || '');
@@ -14,21 +96,154 @@ export const useRecipeForm = (initialRecipe?: Recipe) => {
     initialRecipe?.description || '',
   );
   const [images, setImages] = useState<string[]>(initialRecipe?.images || []);
+  const [servings, setServings] = useState(
+    initialRecipe?.servings ? String(initialRecipe.servings) : '',
+  );
+  const [prepTime, setPrepTime] = useState(
+    toDurationText(initialRecipe?.prepMinutes),
+  );
+  const [cookTime, setCookTime] = useState(
+    toDurationText(initialRecipe?.cookMinutes),
+  );
+  const [ingredients, setIngredients] = useState<Ingredient[]>(
+    initialRecipe?.ingredients || [],
+  );
+  const [steps, setSteps] = useState<RecipeStep[]>(initialRecipe?.steps || []);
+  const [tags, setTags] = useState<string[]>(initialRecipe?.tags || []);
 
   const trimmedTitle = useMemo(() => title.trim(), [title]);
   const trimmedDescription = useMemo(() => description.trim(), [description]);
+  const servingsValue = useMemo(() => {
+    const trimmed = servings.trim();
+    return trimmed ? Number(trimmed) : undefined;
+  }, [servings]);
+  const prepMinutes = useMemo(() => toDurationValue(prepTime), [prepTime]);
+  const cookMinutes = useMemo(() => toDurationValue(cookTime), [cookTime]);
+  const trimmedIngredients = useMemo(
+    () =>
+      ingredients
+        .map(trimIngredient)
+        .filter(ingredient => !isBlankIngredient(ingredient)),
+    [ingredients],
+  );
+  const trimmedSteps = useMemo(
+    () => steps.map(trimStep).filter(step => !isBlankStep(step)),
+    [steps],
+  );
+  const normalizedTags = useMemo(() => normalizeTags(tags), [tags]);
 
   const hasChanges = useMemo(() => {
     if (!initialRecipe) {
-      return !!(trimmedTitle || trimmedDescription || images.length > 0);
+      return !!(
+        trimmedTitle ||
+        trimmedDescription ||
+        servingsValue !== undefined ||
+        prepMinutes !== undefined ||
+        cookMinutes !== undefined ||
+        images.length > 0 ||
+        trimmedIngredients.length > 0 ||
+        trimmedSteps.length > 0 ||
+        normalizedTags.length > 0
+      );
     }
 
     return (
       trimmedTitle !== initialRecipe.title.trim() ||
       trimmedDescription !== initialRecipe.description.trim() ||
-      JSON.stringify(images) !== JSON.stringify(initialRecipe.images)
+      servingsValue !== initialRecipe.servings ||
+      prepMinutes !== initialRecipe.prepMinutes ||
+      cookMinutes !== initialRecipe.cookMinutes ||
+      JSON.stringify(images) !== JSON.stringify(initialRecipe.images) ||
+      JSON.stringify(trimmedIngredients) !==
+        JSON.stringify((initialRecipe.ingredients || []).map(trimIngredient)) ||
+      JSON.stringify(trimmedSteps) !==
+        JSON.stringify((initialRecipe.steps || []).map(trimStep)) ||
+      JSON.stringify(normalizedTags) !==
+        JSON.stringify(normalizeTags(initialRecipe.tags || []))
+    );
+  }, [
+    trimmedTitle,
+    trimmedDescription,
+    servingsValue,
+    prepMinutes,
+    cookMinutes,
+    images,
+    trimmedIngredients,
+    trimmedSteps,
+    normalizedTags,
+    initialRecipe,
+  ]);
+
+  const addIngredient = useCallback(() => {
+    setIngredients(current => [...current, createEmptyIngredient()]);
+  }, []);
+
+  const updateIngredient = useCallback(
+    (id: string, changes: Partial<Omit<Ingredient, 'id'>>) => {
+      setIngredients(current =>
+        current.map(ingredient =>
+          ingredient.id === id ? { ...ingredient, ...changes } : ingredient,
+        ),
+      );
+    },
+    [],
+  );
+
+  const removeIngredient = useCallback((id: string) => {
+    setIngredients(current =>
+      current.filter(ingredient => ingredient.id !== id),
     );
-  }, [trimmedTitle, trimmedDescription, images, initialRecipe]);
+  }, []);
+
+  const moveIngredient = useCallback((from: number, to: number) => {
+    setIngredients(current => moveItem(current, from, to));
+  }, []);
+
+  /**
+   * Parses a pasted block of ingredient lines into rows. Blank rows are
+   * dropped first so pasting into a fresh form doesn't leave an empty row
+   * at the top. Returns the number of rows added.
+   */
+  const addIngredientsFromText = useCallback(
+    (text: string): number => {
+      const kept = ingredients.filter(
+        ingredient => !isBlankIngredient(trimIngredient(ingredient)),
+      );
+      const parsed = parseIngredientBlock(text).slice(
+        0,
+        Math.max(0, MAX_INGREDIENTS - kept.length),
+      );
+      if (parsed.length > 0) {
+        setIngredients([
+          ...kept,
+          ...parsed.map(ingredient => ({ id: createLocalId(), ...ingredient })),
+        ]);
+      }
+      return parsed.length;
+    },
+    [ingredients],
+  );
+
+  const addStep = useCallback(() => {
+    setSteps(current => [...current, createEmptyStep()]);
+  }, []);
+
+  const updateStep = useCallback(
+    (id: string, changes: Partial<Omit<RecipeStep, 'id'>>) => {
+      setSteps(current =>
+        current.map(step => (step.id === id ? { ...step, ...changes } : step)),
+      );
+    },
+    [],
+  );
+
+  const removeStep = useCallback((id: string) => {
+    setSteps(current => current.filter(step => step.id !== id));
+  }, []);
+
+  const moveStep = useCallback((from: number, to: number) => {
+    setSteps(current => moveItem(current, from, to));
+  }, []);
 
   const validate = useCallback((): { isValid: boolean; errors: string[] } => {
     const errors: string[] = [];
@@ -47,32 +262,157 @@ export const useRecipeForm = (initialRecipe?: Recipe) => {
       );
     }
 
+    if (
+      servingsValue !== undefined &&
+      (!Number.isInteger(servingsValue) ||
+        servingsValue < 1 ||
+        servingsValue > MAX_SERVINGS)
+    ) {
+      errors.push(
+        `Servings must be a whole number between 1 and ${MAX_SERVINGS}.`,
+      );
+    }
+
+    const checkDuration = (label: string, minutes: number | undefined) => {
+      if (minutes === undefined) {
+        return;
+      }
+      if (Number.isNaN(minutes)) {
+        errors.push(`${label} must be a duration like 45m or 1h 20m.`);
+      } else if (minutes < 1 || minutes > MAX_DURATION_MINUTES) {
+        errors.push(
+          `${label} must be between 1 minute and ${formatDuration(
+            MAX_DURATION_MINUTES,
+          )}.`,
+        );
+      }
+    };
+    checkDuration('Prep time', prepMinutes);
+    checkDuration('Cook time', cookMinutes);
+
     if (images.length > MAX_IMAGES) {
       errors.push(`You can only add up to ${MAX_IMAGES} images.`);
     }
 
+    if (trimmedIngredients.length > MAX_INGREDIENTS) {
+      errors.push(`You can only add up to ${MAX_INGREDIENTS} ingredients.`);
+    }
+
+    trimmedIngredients.forEach((ingredient, index) => {
+      if (!ingredient.name) {
+        errors.push(`Ingredient ${index + 1} needs a name.`);
+      } else if (ingredient.name.length > MAX_INGREDIENT_NAME_LENGTH) {
+        errors.push(
+          `Ingredient ${
+            index + 1
+          } name must be less than ${MAX_INGREDIENT_NAME_LENGTH} characters.`,
+        );
+      }
+    });
+
+    if (trimmedSteps.length > MAX_STEPS) {
+      errors.push(`You can only add up to ${MAX_STEPS} steps.`);
+    }
+
+    trimmedSteps.forEach((step, index) => {
+      if (!step.text) {
+        errors.push(`Step ${index + 1} needs instructions.`);
+      } else if (step.text.length > MAX_STEP_LENGTH) {
+        errors.push(
+          `Step ${index + 1} must be less than ${MAX_STEP_LENGTH} characters.`,
+        );
+      }
+
+      if (
+        step.durationMinutes !== undefined &&
+        (!Number.isFinite(step.durationMinutes) || step.durationMinutes <= 0)
+      ) {
+        errors.push(`Step ${index + 1} duration must be a positive number.`);
+      }
+
+      if (step.images && step.images.length > MAX_STEP_IMAGES) {
+        errors.push(
+          `Step ${index + 1} can only have up to ${MAX_STEP_IMAGES} images.`,
+        );
+      }
+    });
+
+    if (normalizedTags.length > MAX_TAGS) {
+      errors.push(`You can only add up to ${MAX_TAGS} tags.`);
+    }
+
     return { isValid: errors.length === 0, errors };
-  }, [trimmedTitle, trimmedDescription, images]);
+  }, [
+    trimmedTitle,
+    trimmedDescription,
+    servingsValue,
+    prepMinutes,
+    cookMinutes,
+    images,
+    trimmedIngredients,
+    trimmedSteps,
+    normalizedTags,
+  ]);
 
   const getRecipeData = useCallback((): Recipe => {
     const now = new Date();
     return {
-      id: initialRecipe?.id || Date.now().toString(),
+      // Keep fields the form does not edit, such as the favorite flag
+      ...initialRecipe,
+      id: initialRecipe?.id || generateId(),
       title: trimmedTitle,
       description: trimmedDescription,
+      servings: servingsValue,
+      prepMinutes,
+      cookMinutes,
       images,
+      ingredients: trimmedIngredients,
+      steps: trimmedSteps,
+      tags: normalizedTags,
       createdAt: initialRecipe?.createdAt || now,
       updatedAt: now,
     };
-  }, [initialRecipe, trimmedTitle, trimmedDescription, images]);
+  }, [
+    initialRecipe,
+    trimmedTitle,
+    trimmedDescription,
+    servingsValue,
+    prepMinutes,
+    cookMinutes,
+    images,
+    trimmedIngredients,
+    trimmedSteps,
+    normalizedTags,
+  ]);
 
   return {
     title,
     setTitle,
     description,
     setDescription,
+    servings,
+    setServings,
+    prepTime,
+    setPrepTime,
+    cookTime,
+    setCookTime,
     images,
     setImages,
+    ingredients,
+    setIngredients,
+    addIngredient,
+    updateIngredient,
+    removeIngredient,
+    moveIngredient,
+    addIngredientsFromText,
+    steps,
+    setSteps,
+    addStep,
+    updateStep,
+    removeStep,
+    moveStep,
+    tags,
+    setTags,
     hasChanges,
     validate,
     getRecipeData,
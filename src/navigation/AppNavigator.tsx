@@ -10,20 +10,36 @@ import {
 } from '@react-navigation/native-stack';
 import { View, ActivityIndicator, StyleSheet } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Recipe } from '../types/Recipe';
+import { SerializableRecipe } from '../types/Recipe';
 import { RecipeListScreen } from '../screens/RecipeListScreen';
 import { AddRecipeScreen } from '../screens/AddRecipeScreen';
+import { RecipeDetailScreen } from '../screens/RecipeDetailScreen';
+import { ImportRecipesScreen } from '../screens/ImportRecipesScreen';
+import { TrashScreen } from '../screens/TrashScreen';
+import { CookingModeScreen } from '../screens/CookingModeScreen';
+import { ShoppingListScreen } from '../screens/ShoppingListScreen';
+import { MealPlanScreen } from '../screens/MealPlanScreen';
+import { RecipeHistoryScreen } from '../screens/RecipeHistoryScreen';
 import { useThemeColors } from '../hooks/useThemeColors';
 import { NAVIGATION_STATE_KEY, COLORS } from '../constants';
 
-export type SerializableRecipe = Omit<Recipe, 'createdAt' | 'updatedAt'> & {
-  createdAt: string;
-  updatedAt: string;
-};
+export type { SerializableRecipe };
 
 export type RootStackParamList = {
   RecipeList: undefined;
-  AddRecipe: { recipe?: SerializableRecipe };
+  RecipeDetail: { recipeId: string };
+  AddRecipe: {
+    /** Recipe to edit */
+    recipe?: SerializableRecipe;
+    /** Unsaved recipe to start a new one from, such as a duplicate */
+    draft?: SerializableRecipe;
+  };
+  ImportRecipes: undefined;
+  Trash: undefined;
+  CookingMode: { recipeId: string };
+  ShoppingList: undefined;
+  MealPlan: undefined;
+  RecipeHistory: { recipeId: string };
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -53,6 +69,9 @@ const SCREEN_CONFIG = {
       fontWeight: '700',
     },
   },
+  recipeDetail: {
+    title: '',
+  },
   addRecipe: ({
     route,
   }: {
@@ -63,6 +82,28 @@ const SCREEN_CONFIG = {
     gestureEnabled: true,
     gestureDirection: 'vertical' as const,
   }),
+  importRecipes: {
+    title: 'Import Backup',
+    presentation: 'modal',
+  },
+  trash: {
+    title: 'Trash',
+  },
+  // Pushed rather than presented modally so the timer bar stays visible
+  cookingMode: {
+    headerShown: false,
+    animation: 'slide_from_bottom',
+    gestureEnabled: false,
+  },
+  shoppingList: {
+    title: 'Shopping List',
+  },
+  mealPlan: {
+    title: 'Meal Plan',
+  },
+  recipeHistory: {
+    title: 'History',
+  },
 } as const;
 
 export const AppNavigator = memo(() => {
@@ -138,11 +179,46 @@ export const AppNavigator = memo(() => {
           component={RecipeListScreen}
           options={SCREEN_CONFIG.recipeList}
         />
+        <Stack.Screen
+          name="RecipeDetail"
+          component={RecipeDetailScreen}
+          options={SCREEN_CONFIG.recipeDetail}
+        />
         <Stack.Screen
           name="AddRecipe"
           component={AddRecipeScreen}
           options={SCREEN_CONFIG.addRecipe}
         />
+        <Stack.Screen
+          name="ImportRecipes"
+          component={ImportRecipesScreen}
+          options={SCREEN_CONFIG.importRecipes}
+        />
+        <Stack.Screen
+          name="Trash"
+          component={TrashScreen}
+          options={SCREEN_CONFIG.trash}
+        />
+        <Stack.Screen
+          name="CookingMode"
+          component={CookingModeScreen}
+          options={SCREEN_CONFIG.cookingMode}
+        />
+        <Stack.Screen
+          name="ShoppingList"
+          component={ShoppingListScreen}
+          options={SCREEN_CONFIG.shoppingList}
+        />
+        <Stack.Screen
+          name="MealPlan"
+          component={MealPlanScreen}
+          options={SCREEN_CONFIG.mealPlan}
+        />
+        <Stack.Screen
+          name="RecipeHistory"
+          component={RecipeHistoryScreen}
+          options={SCREEN_CONFIG.recipeHistory}
+        />
       </Stack.Navigator>
     </NavigationContainer>
   );
@@ -3,6 +3,7 @@ import React, {
   useCallback,
   useMemo,
   memo,
+  useEffect,
   useLayoutEffect,
 } from 'react';
 import {
@@ -18,17 +19,25 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RouteProp } from '@react-navigation/native';
 import { Recipe } from '../types/Recipe';
 import {
+  getAllTags,
   saveRecipe as saveRecipeToStorage,
   updateRecipe as updateRecipeInStorage,
 } from '../services/storage';
 import { ImagePickerComponent } from '../components/ui/ImagePicker';
+import { IngredientEditor } from '../components/ui/IngredientEditor';
+import { StepEditor } from '../components/ui/StepEditor';
+import { TagEditor } from '../components/ui/TagEditor';
 import { Button } from '../components/common/Button';
 import { FormInput } from '../components/common/FormInput';
+import { DurationInput } from '../components/common/DurationInput';
 import { RootStackParamList } from '../navigation/AppNavigator';
+import { fromSerializableRecipe } from '../utils/recipeSerialization';
+import { TagCount } from '../utils/tagUtils';
 import {
   useRecipeForm,
   MAX_TITLE_LENGTH,
   MAX_DESCRIPTION_LENGTH,
+  MAX_SERVINGS,
   MAX_IMAGES,
 } from '../hooks/useRecipeForm';
 import { useHapticFeedback } from '../hooks/useHapticFeedback';
@@ -109,22 +118,17 @@ export const AddRecipeScreen: React.FC<Props> = ({ navigation, route }) => {
       return undefined;
     }
 
-    try {
-      return {
-        ...serializableRecipe,
-        createdAt: new Date(serializableRecipe.createdAt),
-        updatedAt: new Date(serializableRecipe.updatedAt),
-      };
-    } catch (error) {
-      console.error('Error parsing recipe dates:', error);
-      return {
-        ...serializableRecipe,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-    }
+    return fromSerializableRecipe(serializableRecipe);
   }, [route.params?.recipe]);
 
+  // A draft fills in the form but is saved as a new recipe
+  const draftRecipe: Recipe | undefined = useMemo(() => {
+    const serializableRecipe = route.params?.draft;
+    return serializableRecipe
+      ? fromSerializableRecipe(serializableRecipe)
+      : undefined;
+  }, [route.params?.draft]);
+
   const isEditing = !!existingRecipe;
 
   const {
@@ -132,13 +136,60 @@ export const AddRecipeScreen: React.FC<Props> = ({ navigation, route }) => {
     setTitle,
     description,
     setDescription,
+    servings,
+    setServings,
+    prepTime,
+    setPrepTime,
+    cookTime,
+    setCookTime,
     images,
     setImages,
+    ingredients,
+    addIngredient,
+    updateIngredient,
+    removeIngredient,
+    moveIngredient,
+    addIngredientsFromText,
+    steps,
+    addStep,
+    updateStep,
+    removeStep,
+    moveStep,
+    tags,
+    setTags,
     hasChanges,
     validate,
     getRecipeData,
-  } = useRecipeForm(existingRecipe);
+  } = useRecipeForm(existingRecipe ?? draftRecipe);
   const [saving, setSaving] = useState(false);
+  const [availableTags, setAvailableTags] = useState<TagCount[]>([]);
+
+  useEffect(() => {
+    getAllTags()
+      .then(setAvailableTags)
+      .catch(error => console.error('Error loading tags:', error));
+  }, []);
+
+  const handlePasteIngredients = useCallback(
+    (text: string) => {
+      const added = addIngredientsFromText(text);
+      if (added > 0) {
+        triggerNotificationSuccess();
+      } else {
+        triggerNotificationError();
+        Alert.alert(
+          'No Ingredients Added',
+          'No ingredient lines were found, or the recipe already has the maximum number of ingredients.',
+        );
+      }
+      return added;
+    },
+    [
+      addIngredientsFromText,
+      triggerNotificationSuccess,
+      triggerNotificationError,
+    ],
+  );
 
   const saveRecipe = useCallback(async () => {
     if (saving) {
@@ -221,11 +272,15 @@ export const AddRecipeScreen: React.FC<Props> = ({ navigation, route }) => {
     );
 
     navigation.setOptions({
-      title: isEditing ? 'Edit Recipe' : 'Add Recipe',
+      title: isEditing
+        ? 'Edit Recipe'
+        : draftRecipe
+        ? 'Duplicate Recipe'
+        : 'Add Recipe',
       headerLeft,
       headerRight,
     });
-  }, [navigation, isEditing, handleCancel, saveRecipe, saving]);
+  }, [navigation, isEditing, draftRecipe, handleCancel, saveRecipe, saving]);
 
   const keyboardVerticalOffset =
     Platform.OS === 'ios'
@@ -272,6 +327,69 @@ export const AddRecipeScreen: React.FC<Props> = ({ navigation, route }) => {
               accessibilityHint="Optional field. Provide details about your recipe"
             />
 
+            <FormInput
+              label="Servings"
+              value={servings}
+              onChangeText={setServings}
+              placeholder="e.g. 4"
+              keyboardType="number-pad"
+              maxLength={String(MAX_SERVINGS).length}
+              accessibilityHint="Optional field. How many people this recipe serves"
+            />
+
+            <View style={styles.row}>
+              <DurationInput
+                label="Prep Time"
+                value={prepTime}
+                onChangeText={setPrepTime}
+                accessibilityHint="Optional field. For example 20m or 1h 15m"
+              />
+              <DurationInput
+                label="Cook Time"
+                value={cookTime}
+                onChangeText={setCookTime}
+                accessibilityHint="Optional field. For example 45m or 2h"
+              />
+            </View>
+
+            <View style={styles.inputSection}>
+              <Text style={styles.label} nativeID="tags-label">
+                Tags
+              </Text>
+              <TagEditor
+                tags={tags}
+                onChange={setTags}
+                availableTags={availableTags}
+              />
+            </View>
+
+            <View style={styles.inputSection}>
+              <Text style={styles.label} nativeID="ingredients-label">
+                Ingredients
+              </Text>
+              <IngredientEditor
+                ingredients={ingredients}
+                onAdd={addIngredient}
+                onUpdate={updateIngredient}
+                onRemove={removeIngredient}
+                onMove={moveIngredient}
+                onPasteList={handlePasteIngredients}
+              />
+            </View>
+
+            <View style={styles.inputSection}>
+              <Text style={styles.label} nativeID="steps-label">
+                Steps
+              </Text>
+              <StepEditor
+                steps={steps}
+                onAdd={addStep}
+                onUpdate={updateStep}
+                onRemove={removeStep}
+                onMove={moveStep}
+              />
+            </View>
+
             <View style={styles.inputSection}>
               <Text style={styles.label} nativeID="images-label">
                 Images
@@ -315,6 +433,10 @@ const createStyles = (colors: ReturnType<typeof useThemeColors>['colors']) =>
     inputSection: {
       marginBottom: 24,
     },
+    row: {
+      flexDirection: 'row',
+      gap: 12,
+    },
     label: {
       fontSize: 16,
       fontWeight: '600',
@@ -0,0 +1,495 @@
+import React, {
+  memo,
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  TouchableOpacity,
+  PanResponder,
+  Animated,
+  Dimensions,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { Ingredient, Recipe } from '../types/Recipe';
+import { getRecipeById } from '../services/storage';
+import { getUnitPreference } from '../services/preferences';
+import {
+  clearCookingProgress,
+  getCookingProgress,
+  saveCookingProgress,
+} from '../services/cookingProgress';
+import { Button } from '../components/common/Button';
+import { TimerButtons } from '../components/ui/TimerButtons';
+import { useHapticFeedback } from '../hooks/useHapticFeedback';
+import { useThemeColors } from '../hooks/useThemeColors';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { CookingStep, getCookingSteps } from '../utils/cookingSteps';
+import { formatIngredient } from '../utils/ingredientParser';
+import { formatDuration } from '../utils/durationUtils';
+import {
+  DEFAULT_UNIT_PREFERENCE,
+  UnitPreference,
+  convertIngredient,
+  convertTemperaturesInText,
+} from '../utils/units';
+
+type CookingModeScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'CookingMode'
+>;
+
+type CookingModeScreenRouteProp = RouteProp<RootStackParamList, 'CookingMode'>;
+
+interface Props {
+  navigation: CookingModeScreenNavigationProp;
+  route: CookingModeScreenRouteProp;
+}
+
+const { width: screenWidth } = Dimensions.get('window');
+
+interface IngredientChecklistProps {
+  ingredients: Ingredient[];
+  checked: string[];
+  onToggle: (id: string) => void;
+}
+
+const IngredientChecklist = memo<IngredientChecklistProps>(
+  ({ ingredients, checked, onToggle }) => {
+    const { colors } = useThemeColors();
+
+    return (
+      <ScrollView
+        style={[
+          checklistStyles.container,
+          { backgroundColor: colors.card, borderColor: colors.border },
+        ]}
+        contentContainerStyle={checklistStyles.content}>
+        {ingredients.map(ingredient => {
+          const isChecked = checked.includes(ingredient.id);
+          return (
+            <TouchableOpacity
+              key={ingredient.id}
+              style={checklistStyles.row}
+              onPress={() => onToggle(ingredient.id)}
+              accessibilityRole="checkbox"
+              accessibilityState={{ checked: isChecked }}
+              accessibilityLabel={formatIngredient(ingredient)}>
+              <Text
+                style={[checklistStyles.box, { color: colors.primary }]}
+                importantForAccessibility="no">
+                {isChecked ? '☑' : '☐'}
+              </Text>
+              <Text
+                style={[
+                  checklistStyles.text,
+                  { color: isChecked ? colors.darkGray : colors.text },
+                  isChecked && checklistStyles.checkedText,
+                ]}>
+                {formatIngredient(ingredient)}
+                {ingredient.note ? `, ${ingredient.note}` : ''}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    );
+  },
+);
+
+IngredientChecklist.displayName = 'IngredientChecklist';
+
+export const CookingModeScreen = ({ navigation, route }: Props) => {
+  const { recipeId } = route.params;
+  const [recipe, setRecipe] = useState<Recipe | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [checkedIngredients, setCheckedIngredients] = useState<string[]>([]);
+  const [showIngredients, setShowIngredients] = useState(false);
+  const [unitPreference, setUnitPreference] = useState<UnitPreference>(
+    DEFAULT_UNIT_PREFERENCE,
+  );
+  const { triggerImpactLight, triggerSelection, triggerNotificationSuccess } =
+    useHapticFeedback();
+
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const steps = useMemo<CookingStep[]>(
+    () => (recipe ? getCookingSteps(recipe) : []),
+    [recipe],
+  );
+  const ingredients = useMemo(
+    () =>
+      (recipe?.ingredients ?? []).map(ingredient =>
+        convertIngredient(ingredient, unitPreference),
+      ),
+    [recipe?.ingredients, unitPreference],
+  );
+
+  // Resume where the user left off
+  useEffect(() => {
+    let isActive = true;
+
+    Promise.all([
+      getRecipeById(recipeId),
+      getCookingProgress(recipeId),
+      getUnitPreference(),
+    ])
+      .then(([loadedRecipe, progress, preference]) => {
+        if (!isActive) {
+          return;
+        }
+        setRecipe(loadedRecipe);
+        setUnitPreference(preference);
+        if (loadedRecipe && progress) {
+          const stepCount = getCookingSteps(loadedRecipe).length;
+          setStepIndex(
+            Math.min(progress.stepIndex, Math.max(0, stepCount - 1)),
+          );
+          setCheckedIngredients(progress.checkedIngredients);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading recipe:', error);
+      })
+      .finally(() => {
+        if (isActive) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      isActive = false;
+    };
+  }, [recipeId]);
+
+  // Save after every change so leaving at any point resumes here
+  const hasLoaded = !loading && !!recipe;
+  useEffect(() => {
+    if (hasLoaded) {
+      saveCookingProgress(recipeId, { stepIndex, checkedIngredients });
+    }
+  }, [hasLoaded, recipeId, stepIndex, checkedIngredients]);
+
+  const goToStep = useCallback(
+    (index: number) => {
+      if (index >= 0 && index < steps.length && index !== stepIndex) {
+        triggerImpactLight();
+        setStepIndex(index);
+      }
+    },
+    [steps.length, stepIndex, triggerImpactLight],
+  );
+
+  const handleFinish = useCallback(async () => {
+    triggerNotificationSuccess();
+    await clearCookingProgress(recipeId);
+    navigation.goBack();
+  }, [navigation, recipeId, triggerNotificationSuccess]);
+
+  const toggleIngredient = useCallback(
+    (id: string) => {
+      triggerSelection();
+      setCheckedIngredients(current =>
+        current.includes(id)
+          ? current.filter(item => item !== id)
+          : [...current, id],
+      );
+    },
+    [triggerSelection],
+  );
+
+  const toggleIngredients = useCallback(() => {
+    triggerImpactLight();
+    setShowIngredients(current => !current);
+  }, [triggerImpactLight]);
+
+  // Horizontal swipe between steps, following ImageModal's gesture handling
+  const pan = useRef(new Animated.Value(0)).current;
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onMoveShouldSetPanResponder: (_, gestureState) =>
+          Math.abs(gestureState.dx) > 10 &&
+          Math.abs(gestureState.dx) > Math.abs(gestureState.dy),
+        onPanResponderMove: (_, gestureState) => {
+          pan.setValue(gestureState.dx);
+        },
+        onPanResponderRelease: (_, gestureState) => {
+          const swipeThreshold = screenWidth * 0.2;
+
+          // Swipe RIGHT (positive dx) = go to PREVIOUS step
+          if (gestureState.dx > swipeThreshold) {
+            goToStep(stepIndex - 1);
+          }
+          // Swipe LEFT (negative dx) = go to NEXT step
+          else if (gestureState.dx < -swipeThreshold) {
+            goToStep(stepIndex + 1);
+          }
+
+          Animated.spring(pan, {
+            toValue: 0,
+            useNativeDriver: true,
+          }).start();
+        },
+        onPanResponderTerminate: () => {
+          Animated.spring(pan, {
+            toValue: 0,
+            useNativeDriver: true,
+          }).start();
+        },
+      }),
+    [goToStep, stepIndex, pan],
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.centered}>
+        <Text style={styles.mutedText} accessibilityLiveRegion="polite">
+          Loading recipe...
+        </Text>
+      </SafeAreaView>
+    );
+  }
+
+  if (!recipe || steps.length === 0) {
+    return (
+      <SafeAreaView style={styles.centered}>
+        <Text style={styles.emptyTitle}>
+          {recipe ? 'No Steps to Follow' : 'Recipe Not Found'}
+        </Text>
+        <Text style={[styles.mutedText, styles.emptyText]}>
+          {recipe
+            ? 'Add steps or a numbered method to the description to use cooking mode.'
+            : 'This recipe may have been deleted.'}
+        </Text>
+        <Button
+          title="Close"
+          variant="primary"
+          onPress={() => navigation.goBack()}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  const step = steps[stepIndex];
+  const isFirst = stepIndex === 0;
+  const isLast = stepIndex === steps.length - 1;
+  const progress = (stepIndex + 1) / steps.length;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Button
+          title="Close"
+          variant="ghost"
+          size="small"
+          onPress={() => navigation.goBack()}
+          accessibilityLabel="Close cooking mode"
+          accessibilityHint="Your place is saved for next time"
+        />
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {recipe.title}
+        </Text>
+        {ingredients.length > 0 ? (
+          <Button
+            title={showIngredients ? 'Steps' : 'Ingredients'}
+            variant="ghost"
+            size="small"
+            onPress={toggleIngredients}
+            accessibilityLabel={
+              showIngredients ? 'Show steps' : 'Show ingredient checklist'
+            }
+          />
+        ) : (
+          <View style={styles.headerSpacer} />
+        )}
+      </View>
+
+      <View
+        style={styles.progressTrack}
+        accessibilityRole="progressbar"
+        accessibilityLabel={`Step ${stepIndex + 1} of ${steps.length}`}
+        accessibilityValue={{ min: 1, max: steps.length, now: stepIndex + 1 }}>
+        <View style={[styles.progressFill, { width: `${progress * 100}%` }]} />
+      </View>
+
+      {showIngredients ? (
+        <IngredientChecklist
+          ingredients={ingredients}
+          checked={checkedIngredients}
+          onToggle={toggleIngredient}
+        />
+      ) : (
+        <Animated.View
+          style={[styles.stepContainer, { transform: [{ translateX: pan }] }]}
+          {...panResponder.panHandlers}>
+          <Text style={styles.stepCounter}>
+            Step {stepIndex + 1} of {steps.length}
+            {step.durationMinutes !== undefined &&
+              ` · ${formatDuration(step.durationMinutes)}`}
+          </Text>
+          <ScrollView contentContainerStyle={styles.stepScroll}>
+            <Text
+              style={styles.stepText}
+              accessibilityRole="text"
+              accessibilityLiveRegion="polite">
+              {convertTemperaturesInText(step.text, unitPreference)}
+            </Text>
+            <TimerButtons
+              text={step.text}
+              durationMinutes={step.durationMinutes}
+              label={`${recipe.title}, step ${stepIndex + 1}`}
+              recipeId={recipe.id}
+            />
+          </ScrollView>
+        </Animated.View>
+      )}
+
+      <View style={styles.footer}>
+        <Button
+          title="Previous"
+          variant="ghost"
+          size="large"
+          onPress={() => goToStep(stepIndex - 1)}
+          disabled={isFirst}
+          style={styles.footerButton}
+          accessibilityLabel="Previous step"
+        />
+        <Button
+          title={isLast ? 'Finish' : 'Next'}
+          variant="primary"
+          size="large"
+          onPress={isLast ? handleFinish : () => goToStep(stepIndex + 1)}
+          style={styles.footerButton}
+          accessibilityLabel={isLast ? 'Finish cooking' : 'Next step'}
+        />
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const checklistStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+    margin: 16,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  content: {
+    padding: 16,
+    gap: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  box: {
+    fontSize: 24,
+    lineHeight: 28,
+  },
+  text: {
+    flex: 1,
+    fontSize: 20,
+    lineHeight: 28,
+  },
+  checkedText: {
+    textDecorationLine: 'line-through',
+  },
+});
+
+const createStyles = (colors: ReturnType<typeof useThemeColors>['colors']) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    centered: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      paddingHorizontal: 32,
+      backgroundColor: colors.secondary,
+    },
+    mutedText: {
+      fontSize: 16,
+      color: colors.darkGray,
+      textAlign: 'center',
+    },
+    emptyTitle: {
+      fontSize: 20,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 8,
+    },
+    emptyText: {
+      marginBottom: 24,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: 8,
+      paddingVertical: 8,
+      gap: 8,
+    },
+    headerTitle: {
+      flex: 1,
+      fontSize: 17,
+      fontWeight: '600',
+      color: colors.text,
+      textAlign: 'center',
+    },
+    headerSpacer: {
+      width: 64,
+    },
+    progressTrack: {
+      height: 4,
+      marginHorizontal: 16,
+      borderRadius: 2,
+      backgroundColor: colors.border,
+      overflow: 'hidden',
+    },
+    progressFill: {
+      height: '100%',
+      backgroundColor: colors.primary,
+    },
+    stepContainer: {
+      flex: 1,
+      paddingHorizontal: 24,
+      paddingTop: 24,
+    },
+    stepCounter: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.darkGray,
+      marginBottom: 16,
+    },
+    stepScroll: {
+      paddingBottom: 24,
+    },
+    stepText: {
+      fontSize: 28,
+      lineHeight: 40,
+      color: colors.text,
+    },
+    footer: {
+      flexDirection: 'row',
+      gap: 12,
+      padding: 16,
+    },
+    footerButton: {
+      flex: 1,
+    },
+  });
@@ -0,0 +1,383 @@
+import React, {
+  memo,
+  useState,
+  useCallback,
+  useMemo,
+  useEffect,
+  useLayoutEffect,
+} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Recipe } from '../types/Recipe';
+import {
+  ConflictResolution,
+  getRecipes,
+  getTrash,
+  importRecipes,
+} from '../services/storage';
+import { ParsedBackup, parseBackupBundle } from '../services/backup';
+import { Button } from '../components/common/Button';
+import { FormInput } from '../components/common/FormInput';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useHapticFeedback } from '../hooks/useHapticFeedback';
+import { useThemeColors } from '../hooks/useThemeColors';
+import {
+  KEYBOARD_VERTICAL_OFFSET_IOS,
+  KEYBOARD_VERTICAL_OFFSET_ANDROID,
+} from '../constants';
+
+type ImportRecipesScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'ImportRecipes'
+>;
+
+interface Props {
+  navigation: ImportRecipesScreenNavigationProp;
+}
+
+const RESOLUTION_OPTIONS: { value: ConflictResolution; label: string }[] = [
+  { value: 'skip', label: 'Skip' },
+  { value: 'overwrite', label: 'Overwrite' },
+  { value: 'keepBoth', label: 'Keep Both' },
+];
+
+const pluralize = (count: number, noun: string) =>
+  `${count} ${count === 1 ? noun : `${noun}s`}`;
+
+interface ResolutionPickerProps {
+  label: string;
+  value: ConflictResolution;
+  onChange: (value: ConflictResolution) => void;
+}
+
+const ResolutionPicker = memo<ResolutionPickerProps>(
+  ({ label, value, onChange }) => (
+    <View style={pickerStyles.row} accessibilityRole="radiogroup">
+      {RESOLUTION_OPTIONS.map(option => (
+        <Button
+          key={option.value}
+          title={option.label}
+          variant={value === option.value ? 'primary' : 'ghost'}
+          size="small"
+          onPress={() => onChange(option.value)}
+          accessibilityLabel={`${option.label} ${label}`}
+        />
+      ))}
+    </View>
+  ),
+);
+
+ResolutionPicker.displayName = 'ResolutionPicker';
+
+export const ImportRecipesScreen = ({ navigation }: Props) => {
+  const {
+    triggerImpactLight,
+    triggerSelection,
+    triggerNotificationSuccess,
+    triggerNotificationError,
+  } = useHapticFeedback();
+
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const [json, setJson] = useState('');
+  const [parsed, setParsed] = useState<ParsedBackup | null>(null);
+  const [existingRecipes, setExistingRecipes] = useState<Recipe[]>([]);
+  const [resolutions, setResolutions] = useState<
+    Record<string, ConflictResolution>
+  >({});
+  const [defaultResolution, setDefaultResolution] =
+    useState<ConflictResolution>('skip');
+  const [importing, setImporting] = useState(false);
+
+  // Trashed recipes count too, so restoring one can never clash with an import
+  useEffect(() => {
+    Promise.all([getRecipes(), getTrash()])
+      .then(([recipes, trash]) => setExistingRecipes([...recipes, ...trash]))
+      .catch(error => console.error('Error loading recipes:', error));
+  }, []);
+
+  const conflicts = useMemo(() => {
+    if (!parsed) {
+      return [];
+    }
+    const existingIds = new Set(existingRecipes.map(recipe => recipe.id));
+    return parsed.recipes.filter(recipe => existingIds.has(recipe.id));
+  }, [parsed, existingRecipes]);
+
+  const handleJsonChange = useCallback((text: string) => {
+    setJson(text);
+    setParsed(null);
+    setResolutions({});
+  }, []);
+
+  const handleCheck = useCallback(() => {
+    triggerImpactLight();
+    try {
+      setParsed(parseBackupBundle(json.trim()));
+      setResolutions({});
+    } catch (error) {
+      triggerNotificationError();
+      Alert.alert(
+        'Invalid Backup',
+        error instanceof Error
+          ? error.message
+          : 'This backup could not be read.',
+      );
+    }
+  }, [json, triggerImpactLight, triggerNotificationError]);
+
+  const handleResolutionChange = useCallback(
+    (recipeId: string, value: ConflictResolution) => {
+      triggerSelection();
+      setResolutions(current => ({ ...current, [recipeId]: value }));
+    },
+    [triggerSelection],
+  );
+
+  const handleApplyToAll = useCallback(
+    (value: ConflictResolution) => {
+      triggerSelection();
+      setDefaultResolution(value);
+      setResolutions({});
+    },
+    [triggerSelection],
+  );
+
+  const handleImport = useCallback(async () => {
+    if (!parsed || importing) {
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const summary = await importRecipes(
+        parsed.recipes,
+        resolutions,
+        defaultResolution,
+      );
+      triggerNotificationSuccess();
+
+      const lines = [
+        `${pluralize(summary.added, 'recipe')} added`,
+        summary.overwritten > 0 && `${summary.overwritten} overwritten`,
+        summary.keptBoth > 0 && `${summary.keptBoth} imported as copies`,
+        summary.skipped > 0 && `${summary.skipped} skipped`,
+        parsed.issues.length > 0 &&
+          `${pluralize(parsed.issues.length, 'invalid recipe')} ignored`,
+      ].filter(Boolean);
+
+      Alert.alert('Import Complete', lines.join('\n'), [
+        { text: 'OK', onPress: () => navigation.goBack() },
+      ]);
+    } catch (error) {
+      console.error('Error importing recipes:', error);
+      triggerNotificationError();
+      Alert.alert(
+        'Import Error',
+        error instanceof Error
+          ? error.message
+          : 'There was a problem importing your recipes. Please try again.',
+      );
+    } finally {
+      setImporting(false);
+    }
+  }, [
+    parsed,
+    importing,
+    resolutions,
+    defaultResolution,
+    navigation,
+    triggerNotificationSuccess,
+    triggerNotificationError,
+  ]);
+
+  const headerLeft = useCallback(
+    () => (
+      <Button
+        title="Cancel"
+        variant="ghost"
+        size="small"
+        onPress={() => navigation.goBack()}
+        hitSlop={{ top: 10, right: 10, bottom: 10, left: 10 }}
+        accessibilityLabel="Cancel import"
+      />
+    ),
+    [navigation],
+  );
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ headerLeft });
+  }, [navigation, headerLeft]);
+
+  const keyboardVerticalOffset =
+    Platform.OS === 'ios'
+      ? KEYBOARD_VERTICAL_OFFSET_IOS
+      : KEYBOARD_VERTICAL_OFFSET_ANDROID;
+
+  const canImport = !!parsed && parsed.recipes.length > 0 && !importing;
+
+  return (
+    <View style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.keyboardAvoidingView}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        keyboardVerticalOffset={keyboardVerticalOffset}>
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}>
+          <FormInput
+            label="Backup"
+            value={json}
+            onChangeText={handleJsonChange}
+            placeholder="Paste the contents of an exported backup..."
+            multiline
+            numberOfLines={6}
+            autoCapitalize="none"
+            autoCorrect={false}
+            accessibilityHint="Paste a backup exported from this app"
+          />
+          <Button
+            title="Check Backup"
+            variant="ghost"
+            onPress={handleCheck}
+            disabled={json.trim().length === 0}
+            accessibilityHint="Validates the backup before importing"
+          />
+
+          {parsed && (
+            <View style={styles.report} accessibilityLiveRegion="polite">
+              <Text style={styles.sectionTitle} accessibilityRole="header">
+                {pluralize(parsed.recipes.length, 'recipe')} ready to import
+              </Text>
+
+              {parsed.issues.length > 0 && (
+                <View style={styles.section}>
+                  <Text style={styles.subTitle}>
+                    {pluralize(parsed.issues.length, 'recipe')} can't be
+                    imported
+                  </Text>
+                  {parsed.issues.map(issue => (
+                    <Text key={issue.index} style={styles.errorText}>
+                      • {issue.title ?? `Recipe ${issue.index + 1}`}:{' '}
+                      {issue.message}
+                    </Text>
+                  ))}
+                </View>
+              )}
+
+              {conflicts.length > 0 && (
+                <View style={styles.section}>
+                  <Text style={styles.subTitle}>
+                    {pluralize(conflicts.length, 'recipe')} already{' '}
+                    {conflicts.length === 1 ? 'exists' : 'exist'}
+                  </Text>
+                  <Text style={styles.mutedText}>Apply to all</Text>
+                  <ResolutionPicker
+                    label="all conflicting recipes"
+                    value={defaultResolution}
+                    onChange={handleApplyToAll}
+                  />
+                  {conflicts.map(recipe => (
+                    <View key={recipe.id} style={styles.conflict}>
+                      <Text style={styles.conflictTitle} numberOfLines={1}>
+                        {recipe.title}
+                      </Text>
+                      <ResolutionPicker
+                        label={recipe.title}
+                        value={resolutions[recipe.id] ?? defaultResolution}
+                        onChange={value =>
+                          handleResolutionChange(recipe.id, value)
+                        }
+                      />
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              <Button
+                title={importing ? 'Importing...' : 'Import'}
+                variant="primary"
+                onPress={handleImport}
+                disabled={!canImport}
+                accessibilityLabel={
+                  importing ? 'Importing recipes' : 'Import recipes'
+                }
+              />
+            </View>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </View>
+  );
+};
+
+const pickerStyles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+});
+
+const createStyles = (colors: ReturnType<typeof useThemeColors>['colors']) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.secondary,
+    },
+    keyboardAvoidingView: {
+      flex: 1,
+    },
+    content: {
+      padding: 16,
+      paddingBottom: 50,
+    },
+    report: {
+      marginTop: 24,
+      gap: 16,
+    },
+    section: {
+      gap: 8,
+    },
+    sectionTitle: {
+      fontSize: 20,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    subTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    mutedText: {
+      fontSize: 14,
+      color: colors.darkGray,
+    },
+    errorText: {
+      fontSize: 14,
+      color: colors.danger,
+    },
+    conflict: {
+      backgroundColor: colors.card,
+      borderColor: colors.border,
+      borderWidth: 1,
+      borderRadius: 8,
+      padding: 8,
+      gap: 8,
+    },
+    conflictTitle: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.text,
+    },
+  });
@@ -0,0 +1,471 @@
+import React, { memo, useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useFocusEffect } from '@react-navigation/native';
+import { Recipe } from '../types/Recipe';
+import { MealPlanEntry, MealSlot } from '../types/MealPlan';
+import { getRecipes, getTrash } from '../services/storage';
+import { getMealPlan, saveMealPlan } from '../services/mealPlan';
+import { RecipePicker } from '../components/ui/RecipePicker';
+import { Button } from '../components/common/Button';
+import { useHapticFeedback } from '../hooks/useHapticFeedback';
+import { useThemeColors } from '../hooks/useThemeColors';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { formatDuration } from '../utils/durationUtils';
+import {
+  MEAL_SLOTS,
+  addDays,
+  getWeekDates,
+  getWeekEntries,
+  getWeekStart,
+  getWeekSummary,
+  setPlannedRecipe,
+  toDateKey,
+} from '../utils/mealPlan';
+
+type MealPlanScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'MealPlan'
+>;
+
+interface Props {
+  navigation: MealPlanScreenNavigationProp;
+}
+
+interface SlotTarget {
+  date: string;
+  slot: MealSlot;
+}
+
+const formatShortDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+interface MealSlotRowProps {
+  label: string;
+  entry?: MealPlanEntry;
+  /** Title of the planned recipe, whether live or in the trash */
+  title?: string;
+  onAdd: () => void;
+  onOpen: (recipeId: string) => void;
+  onClear: () => void;
+}
+
+const MealSlotRow = memo<MealSlotRowProps>(
+  ({ label, entry, title, onAdd, onOpen, onClear }) => {
+    const { colors } = useThemeColors();
+
+    if (!entry) {
+      return (
+        <View style={[styles.slot, { borderTopColor: colors.border }]}>
+          <Text style={[styles.slotLabel, { color: colors.darkGray }]}>
+            {label}
+          </Text>
+          <Button
+            title="+ Add"
+            variant="ghost"
+            size="small"
+            onPress={onAdd}
+            accessibilityLabel={`Add a recipe for ${label.toLowerCase()}`}
+          />
+        </View>
+      );
+    }
+
+    const isAvailable = !entry.isRecipeDeleted && title !== undefined;
+    const status = entry.isRecipeDeleted ? 'In Trash' : 'Recipe not found';
+
+    return (
+      <View style={[styles.slot, { borderTopColor: colors.border }]}>
+        <Text style={[styles.slotLabel, { color: colors.darkGray }]}>
+          {label}
+        </Text>
+        <TouchableOpacity
+          style={styles.slotRecipe}
+          onPress={() => onOpen(entry.recipeId)}
+          disabled={!isAvailable}
+          accessibilityRole="button"
+          accessibilityLabel={
+            isAvailable ? `${label}: ${title}` : `${label}: ${status}`
+          }>
+          <Text
+            style={[
+              styles.slotTitle,
+              { color: isAvailable ? colors.primary : colors.darkGray },
+            ]}
+            numberOfLines={1}>
+            {title ?? status}
+          </Text>
+          {entry.isRecipeDeleted && (
+            <Text style={[styles.slotStatus, { color: colors.danger }]}>
+              {status}
+            </Text>
+          )}
+        </TouchableOpacity>
+        <Button
+          title="✕"
+          variant="ghost"
+          size="small"
+          onPress={onClear}
+          textStyle={{ color: colors.darkGray }}
+          accessibilityLabel={`Clear ${label.toLowerCase()}`}
+        />
+      </View>
+    );
+  },
+);
+
+MealSlotRow.displayName = 'MealSlotRow';
+
+export const MealPlanScreen = ({ navigation }: Props) => {
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [entries, setEntries] = useState<MealPlanEntry[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [trashedTitles, setTrashedTitles] = useState<Map<string, string>>(
+    new Map(),
+  );
+  const [loading, setLoading] = useState(true);
+  const [pickerTarget, setPickerTarget] = useState<SlotTarget | null>(null);
+  const { triggerImpactLight, triggerSelection, triggerNotificationError } =
+    useHapticFeedback();
+
+  const { colors } = useThemeColors();
+  const themedStyles = useMemo(() => createStyles(colors), [colors]);
+
+  // Reload on focus so recipes deleted or restored elsewhere show correctly
+  useFocusEffect(
+    useCallback(() => {
+      let isActive = true;
+
+      Promise.all([getMealPlan(), getRecipes(), getTrash()])
+        .then(([plan, loadedRecipes, trash]) => {
+          if (!isActive) {
+            return;
+          }
+          setEntries(plan);
+          setRecipes(loadedRecipes);
+          setTrashedTitles(new Map(trash.map(r => [r.id, r.title])));
+        })
+        .catch(error => {
+          console.error('Error loading meal plan:', error);
+        })
+        .finally(() => {
+          if (isActive) {
+            setLoading(false);
+          }
+        });
+
+      return () => {
+        isActive = false;
+      };
+    }, []),
+  );
+
+  const recipesById = useMemo(
+    () => new Map(recipes.map(recipe => [recipe.id, recipe])),
+    [recipes],
+  );
+
+  const weekEntries = useMemo(
+    () => getWeekEntries(entries, weekStart),
+    [entries, weekStart],
+  );
+
+  const summary = useMemo(
+    () => getWeekSummary(weekEntries, recipesById),
+    [weekEntries, recipesById],
+  );
+
+  const updateEntries = useCallback(
+    (date: string, slot: MealSlot, recipeId: string | null) => {
+      const next = setPlannedRecipe(entries, date, slot, recipeId);
+      setEntries(next);
+      // If the plan can't be saved, say so and show the saved plan again
+      saveMealPlan(next).catch(async error => {
+        console.error('Error saving meal plan:', error);
+        triggerNotificationError();
+        Alert.alert(
+          'Save Error',
+          'The meal plan could not be saved. Please try again.',
+        );
+        setEntries(await getMealPlan());
+      });
+    },
+    [entries, triggerNotificationError],
+  );
+
+  const changeWeek = useCallback(
+    (weeks: number) => {
+      triggerImpactLight();
+      setWeekStart(current =>
+        weeks === 0 ? getWeekStart(new Date()) : addDays(current, weeks * 7),
+      );
+    },
+    [triggerImpactLight],
+  );
+
+  const handleSelectRecipe = useCallback(
+    ([recipe]: Recipe[]) => {
+      if (pickerTarget && recipe) {
+        updateEntries(pickerTarget.date, pickerTarget.slot, recipe.id);
+      }
+    },
+    [pickerTarget, updateEntries],
+  );
+
+  const closePicker = useCallback(() => setPickerTarget(null), []);
+
+  const openRecipe = useCallback(
+    (recipeId: string) => {
+      navigation.navigate('RecipeDetail', { recipeId });
+    },
+    [navigation],
+  );
+
+  if (loading) {
+    return (
+      <View style={themedStyles.container}>
+        <Text style={themedStyles.loadingText} accessibilityLiveRegion="polite">
+          Loading meal plan...
+        </Text>
+      </View>
+    );
+  }
+
+  const weekDates = getWeekDates(weekStart);
+  const todayKey = toDateKey(new Date());
+  const isCurrentWeek = weekDates.some(date => toDateKey(date) === todayKey);
+
+  return (
+    <View style={themedStyles.container}>
+      <View style={themedStyles.weekBar}>
+        <Button
+          title="‹"
+          variant="ghost"
+          onPress={() => changeWeek(-1)}
+          accessibilityLabel="Previous week"
+        />
+        <Text
+          style={themedStyles.weekLabel}
+          accessibilityRole="header"
+          accessibilityLiveRegion="polite">
+          {formatShortDate(weekDates[0])} – {formatShortDate(weekDates[6])}
+        </Text>
+        <Button
+          title="›"
+          variant="ghost"
+          onPress={() => changeWeek(1)}
+          accessibilityLabel="Next week"
+        />
+      </View>
+      {!isCurrentWeek && (
+        <Button
+          title="Back to This Week"
+          variant="ghost"
+          size="small"
+          onPress={() => changeWeek(0)}
+        />
+      )}
+
+      <ScrollView
+        contentContainerStyle={themedStyles.content}
+        showsVerticalScrollIndicator={false}>
+        {weekDates.map(date => {
+          const dateKey = toDateKey(date);
+          const isToday = dateKey === todayKey;
+          return (
+            <View key={dateKey} style={themedStyles.day}>
+              <Text
+                style={[
+                  themedStyles.dayTitle,
+                  isToday && { color: colors.primary },
+                ]}
+                accessibilityRole="header">
+                {date.toLocaleDateString(undefined, { weekday: 'long' })} ·{' '}
+                {formatShortDate(date)}
+                {isToday ? ' · Today' : ''}
+              </Text>
+              {MEAL_SLOTS.map(({ value: slot, label }) => {
+                const entry = weekEntries.find(
+                  item => item.date === dateKey && item.slot === slot,
+                );
+                return (
+                  <MealSlotRow
+                    key={slot}
+                    label={label}
+                    entry={entry}
+                    title={
+                      entry &&
+                      (recipesById.get(entry.recipeId)?.title ??
+                        trashedTitles.get(entry.recipeId))
+                    }
+                    onAdd={() => {
+                      triggerSelection();
+                      setPickerTarget({ date: dateKey, slot });
+                    }}
+                    onOpen={openRecipe}
+                    onClear={() => {
+                      triggerImpactLight();
+                      updateEntries(dateKey, slot, null);
+                    }}
+                  />
+                );
+              })}
+            </View>
+          );
+        })}
+
+        <View style={themedStyles.summary} accessibilityRole="summary">
+          <Text style={themedStyles.summaryTitle} accessibilityRole="header">
+            Week Summary
+          </Text>
+          {summary.mealCount === 0 ? (
+            <Text style={themedStyles.summaryText}>
+              Nothing planned yet. Tap + Add on any meal to pick a recipe.
+            </Text>
+          ) : (
+            <>
+              <Text style={themedStyles.summaryText}>
+                {summary.mealCount} {summary.mealCount === 1 ? 'meal' : 'meals'}{' '}
+                planned · Total cooking time{' '}
+                {formatDuration(summary.totalMinutes)}
+              </Text>
+              {summary.untimedMealCount > 0 && (
+                <Text style={themedStyles.summaryNote}>
+                  Plus {summary.untimedMealCount}{' '}
+                  {summary.untimedMealCount === 1 ? 'meal' : 'meals'} without a
+                  time set
+                </Text>
+              )}
+              {summary.recipes.map(({ recipe, count }) => (
+                <TouchableOpacity
+                  key={recipe.id}
+                  onPress={() => openRecipe(recipe.id)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`${recipe.title}, ${count} ${
+                    count === 1 ? 'meal' : 'meals'
+                  }`}>
+                  <Text style={themedStyles.summaryRecipe}>
+                    • {recipe.title}
+                    {count > 1 ? ` ×${count}` : ''}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </>
+          )}
+        </View>
+      </ScrollView>
+
+      <RecipePicker
+        visible={pickerTarget !== null}
+        title="Choose a Recipe"
+        recipes={recipes}
+        onSelect={handleSelectRecipe}
+        onClose={closePicker}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  slot: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingLeft: 16,
+    paddingRight: 4,
+    minHeight: 48,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  slotLabel: {
+    width: 80,
+    fontSize: 14,
+  },
+  slotRecipe: {
+    flex: 1,
+    paddingVertical: 8,
+  },
+  slotTitle: {
+    fontSize: 16,
+  },
+  slotStatus: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
+
+const createStyles = (colors: ReturnType<typeof useThemeColors>['colors']) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.secondary,
+    },
+    loadingText: {
+      fontSize: 16,
+      color: colors.darkGray,
+      textAlign: 'center',
+      marginTop: 32,
+    },
+    weekBar: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: 8,
+      paddingTop: 8,
+    },
+    weekLabel: {
+      fontSize: 17,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    content: {
+      padding: 16,
+      gap: 12,
+    },
+    day: {
+      borderRadius: 12,
+      borderWidth: StyleSheet.hairlineWidth,
+      borderColor: colors.border,
+      backgroundColor: colors.card,
+      overflow: 'hidden',
+    },
+    dayTitle: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.text,
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+    },
+    summary: {
+      borderRadius: 12,
+      padding: 16,
+      backgroundColor: colors.card,
+      borderWidth: StyleSheet.hairlineWidth,
+      borderColor: colors.border,
+      gap: 6,
+    },
+    summaryTitle: {
+      fontSize: 17,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    summaryText: {
+      fontSize: 15,
+      color: colors.text,
+    },
+    summaryNote: {
+      fontSize: 14,
+      color: colors.darkGray,
+    },
+    summaryRecipe: {
+      fontSize: 15,
+      color: colors.primary,
+      paddingVertical: 2,
+    },
+  });
@@ -0,0 +1,769 @@
+import React, {
+  useState,
+  useCallback,
+  useMemo,
+  useEffect,
+  useLayoutEffect,
+} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
+import { Ingredient, Recipe } from '../types/Recipe';
+import {
+  CookDetails,
+  RecipeMetadata,
+  getRecipeById,
+  logCook,
+  updateRecipeMetadata,
+} from '../services/storage';
+import { getUnitPreference } from '../services/preferences';
+import { addRecipesToShoppingList } from '../services/shoppingList';
+import { Button } from '../components/common/Button';
+import { ImageCarousel } from '../components/ui/ImageCarousel';
+import { ImageList } from '../components/ui/ImageList';
+import { LogCookSheet } from '../components/ui/LogCookSheet';
+import { RatingControl } from '../components/ui/RatingControl';
+import { TimerButtons } from '../components/ui/TimerButtons';
+import { useHapticFeedback } from '../hooks/useHapticFeedback';
+import { useThemeColors } from '../hooks/useThemeColors';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { toSerializableRecipe } from '../utils/recipeSerialization';
+import { scaleIngredients } from '../utils/servingScaler';
+import { formatIngredient } from '../utils/ingredientParser';
+import { getCookingSteps } from '../utils/cookingSteps';
+import { getShoppingIngredients } from '../utils/shoppingList';
+import { appendRecipeNote, formatNoteDate } from '../utils/recipeNotes';
+import { formatTimesCooked, getCookHistory } from '../utils/cookLog';
+import { formatRatingLabel, formatRatingStars } from '../utils/ratingUtils';
+import { formatDuration, getTotalMinutes } from '../utils/durationUtils';
+import {
+  DEFAULT_UNIT_PREFERENCE,
+  UnitPreference,
+  convertIngredient,
+  convertTemperaturesInText,
+} from '../utils/units';
+import {
+  KEYBOARD_VERTICAL_OFFSET_ANDROID,
+  KEYBOARD_VERTICAL_OFFSET_IOS,
+  MAX_NOTE_LENGTH,
+  MAX_SERVINGS,
+} from '../constants';
+
+type RecipeDetailScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'RecipeDetail'
+>;
+
+type RecipeDetailScreenRouteProp = RouteProp<
+  RootStackParamList,
+  'RecipeDetail'
+>;
+
+interface Props {
+  navigation: RecipeDetailScreenNavigationProp;
+  route: RecipeDetailScreenRouteProp;
+}
+
+const formatDate = (date: Date): string =>
+  date.toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+// Groups ingredients by their optional group label, preserving order.
+const groupIngredients = (
+  ingredients: Ingredient[],
+): { group?: string; items: Ingredient[] }[] => {
+  const groups: { group?: string; items: Ingredient[] }[] = [];
+  ingredients.forEach(ingredient => {
+    const last = groups[groups.length - 1];
+    if (last && last.group === ingredient.group) {
+      last.items.push(ingredient);
+    } else {
+      groups.push({ group: ingredient.group, items: [ingredient] });
+    }
+  });
+  return groups;
+};
+
+export const RecipeDetailScreen = ({ navigation, route }: Props) => {
+  const { recipeId } = route.params;
+  const [recipe, setRecipe] = useState<Recipe | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [targetServings, setTargetServings] = useState<number | undefined>();
+  const [unitPreference, setUnitPreference] = useState<UnitPreference>(
+    DEFAULT_UNIT_PREFERENCE,
+  );
+  const [noteText, setNoteText] = useState('');
+  const [logCookVisible, setLogCookVisible] = useState(false);
+  const {
+    triggerImpactMedium,
+    triggerSelection,
+    triggerNotificationSuccess,
+    triggerNotificationError,
+  } = useHapticFeedback();
+
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  // Reload when returning from the edit form so changes show immediately
+  useFocusEffect(
+    useCallback(() => {
+      let isActive = true;
+
+      getUnitPreference().then(preference => {
+        if (isActive) {
+          setUnitPreference(preference);
+        }
+      });
+
+      getRecipeById(recipeId)
+        .then(loadedRecipe => {
+          if (isActive) {
+            setRecipe(loadedRecipe);
+          }
+        })
+        .catch(error => {
+          console.error('Error loading recipe:', error);
+        })
+        .finally(() => {
+          if (isActive) {
+            setLoading(false);
+          }
+        });
+
+      return () => {
+        isActive = false;
+      };
+    }, [recipeId]),
+  );
+
+  const navigateToEdit = useCallback(() => {
+    if (!recipe) {
+      return;
+    }
+    triggerImpactMedium();
+    navigation.navigate('AddRecipe', {
+      recipe: toSerializableRecipe(recipe),
+    });
+  }, [navigation, recipe, triggerImpactMedium]);
+
+  const canStartCooking = useMemo(
+    () => !!recipe && getCookingSteps(recipe).length > 0,
+    [recipe],
+  );
+
+  const startCooking = useCallback(() => {
+    triggerImpactMedium();
+    navigation.navigate('CookingMode', { recipeId });
+  }, [navigation, recipeId, triggerImpactMedium]);
+
+  const openHistory = useCallback(() => {
+    navigation.navigate('RecipeHistory', { recipeId });
+  }, [navigation, recipeId]);
+
+  const shoppingIngredientCount = useMemo(
+    () => (recipe ? getShoppingIngredients(recipe).length : 0),
+    [recipe],
+  );
+
+  const addToShoppingList = useCallback(async () => {
+    if (!recipe) {
+      return;
+    }
+    try {
+      await addRecipesToShoppingList([recipe]);
+    } catch (error) {
+      console.error('Error adding to shopping list:', error);
+      triggerNotificationError();
+      Alert.alert(
+        'Save Error',
+        'The ingredients could not be added to the shopping list. Please try again.',
+      );
+      return;
+    }
+    triggerNotificationSuccess();
+    Alert.alert(
+      'Added to Shopping List',
+      `${shoppingIngredientCount} ${
+        shoppingIngredientCount === 1 ? 'ingredient' : 'ingredients'
+      } from "${recipe.title}" added.`,
+      [
+        { text: 'OK', style: 'cancel' },
+        {
+          text: 'View List',
+          onPress: () => navigation.navigate('ShoppingList'),
+        },
+      ],
+    );
+  }, [
+    navigation,
+    recipe,
+    shoppingIngredientCount,
+    triggerNotificationSuccess,
+    triggerNotificationError,
+  ]);
+
+  // Rating and notes are saved straight from this screen rather than the
+  // edit form, and aren't edits, so updatedAt stays put. Returns false (and
+  // puts the old recipe back) if saving fails.
+  const saveChange = useCallback(
+    async (changes: Partial<RecipeMetadata>): Promise<boolean> => {
+      if (!recipe) {
+        return false;
+      }
+      const previous = recipe;
+      setRecipe({ ...recipe, ...changes });
+      try {
+        await updateRecipeMetadata(recipe.id, changes);
+        return true;
+      } catch (error) {
+        console.error('Error updating recipe:', error);
+        triggerNotificationError();
+        setRecipe(previous);
+        Alert.alert(
+          'Save Error',
+          'There was a problem saving your change. Please try again.',
+        );
+        return false;
+      }
+    },
+    [recipe, triggerNotificationError],
+  );
+
+  const changeRating = useCallback(
+    (rating: number | undefined) => {
+      saveChange({ rating });
+    },
+    [saveChange],
+  );
+
+  const addNote = useCallback(async () => {
+    if (!recipe || !noteText.trim()) {
+      return;
+    }
+    const saved = await saveChange({
+      notes: appendRecipeNote(recipe.notes, noteText),
+    });
+    if (saved) {
+      triggerNotificationSuccess();
+      setNoteText('');
+    }
+  }, [recipe, noteText, saveChange, triggerNotificationSuccess]);
+
+  const openLogCook = useCallback(() => {
+    triggerImpactMedium();
+    setLogCookVisible(true);
+  }, [triggerImpactMedium]);
+
+  const closeLogCook = useCallback(() => setLogCookVisible(false), []);
+
+  const saveCook = useCallback(
+    async (details: CookDetails) => {
+      try {
+        setRecipe(await logCook(recipeId, details));
+        triggerNotificationSuccess();
+      } catch (error) {
+        console.error('Error logging cook:', error);
+        triggerNotificationError();
+        Alert.alert(
+          'Save Error',
+          'There was a problem saving your change. Please try again.',
+        );
+      }
+    },
+    [recipeId, triggerNotificationSuccess, triggerNotificationError],
+  );
+
+  const headerRight = useCallback(
+    () => (
+      <Button
+        title="Edit"
+        variant="ghost"
+        size="small"
+        onPress={navigateToEdit}
+        disabled={!recipe}
+        hitSlop={{ top: 10, right: 10, bottom: 10, left: 10 }}
+        accessibilityLabel="Edit recipe"
+        accessibilityHint="Opens the form to edit this recipe"
+      />
+    ),
+    [navigateToEdit, recipe],
+  );
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ title: recipe?.title ?? '', headerRight });
+  }, [navigation, recipe?.title, headerRight]);
+
+  // Start from the recipe's own serving count whenever it changes
+  useEffect(() => {
+    setTargetServings(recipe?.servings);
+  }, [recipe?.servings]);
+
+  const changeServings = useCallback(
+    (delta: number) => {
+      triggerSelection();
+      setTargetServings(current =>
+        current === undefined
+          ? current
+          : Math.min(MAX_SERVINGS, Math.max(1, current + delta)),
+      );
+    },
+    [triggerSelection],
+  );
+
+  const resetServings = useCallback(() => {
+    triggerSelection();
+    setTargetServings(recipe?.servings);
+  }, [recipe?.servings, triggerSelection]);
+
+  const ingredientGroups = useMemo(() => {
+    const ingredients = recipe?.ingredients ?? [];
+    const scaled =
+      recipe?.servings && targetServings
+        ? scaleIngredients(ingredients, recipe.servings, targetServings)
+        : ingredients;
+    // Scale first so converted amounts get rounded for their new unit
+    return groupIngredients(
+      scaled.map(ingredient => convertIngredient(ingredient, unitPreference)),
+    );
+  }, [recipe?.ingredients, recipe?.servings, targetServings, unitPreference]);
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.mutedText} accessibilityLiveRegion="polite">
+          Loading recipe...
+        </Text>
+      </View>
+    );
+  }
+
+  if (!recipe) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.title}>Recipe Not Found</Text>
+        <Text style={[styles.mutedText, styles.notFoundText]}>
+          This recipe may have been deleted.
+        </Text>
+        <Button
+          title="Back to Recipes"
+          variant="primary"
+          onPress={() => navigation.goBack()}
+        />
+      </View>
+    );
+  }
+
+  const steps = recipe.steps ?? [];
+  const notes = recipe.notes ?? [];
+  const cookHistory = getCookHistory(recipe);
+  const totalMinutes = getTotalMinutes(recipe);
+  const keyboardVerticalOffset =
+    Platform.OS === 'ios'
+      ? KEYBOARD_VERTICAL_OFFSET_IOS
+      : KEYBOARD_VERTICAL_OFFSET_ANDROID;
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      keyboardVerticalOffset={keyboardVerticalOffset}>
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}>
+        <ImageCarousel images={recipe.images} />
+
+        <View style={styles.body}>
+          <Text style={styles.title} accessibilityRole="header">
+            {recipe.title}
+          </Text>
+
+          <View style={styles.metadata} accessibilityRole="text">
+            <Text style={styles.mutedText}>
+              Created {formatDate(recipe.createdAt)}
+            </Text>
+            <Text style={styles.mutedText}>
+              Updated {formatDate(recipe.updatedAt)}
+            </Text>
+            {recipe.prepMinutes !== undefined && (
+              <Text style={styles.mutedText}>
+                Prep {formatDuration(recipe.prepMinutes)}
+              </Text>
+            )}
+            {recipe.cookMinutes !== undefined && (
+              <Text style={styles.mutedText}>
+                Cook {formatDuration(recipe.cookMinutes)}
+              </Text>
+            )}
+            {totalMinutes !== undefined && (
+              <Text style={styles.mutedText}>
+                Total {formatDuration(totalMinutes)}
+              </Text>
+            )}
+            <Text style={styles.mutedText}>
+              {recipe.images.length}{' '}
+              {recipe.images.length === 1 ? 'image' : 'images'}
+            </Text>
+            {recipe.timesCooked !== undefined && recipe.lastCookedAt && (
+              <Text style={styles.mutedText}>
+                {formatTimesCooked(recipe.timesCooked)}, last{' '}
+                {formatDate(recipe.lastCookedAt)}
+              </Text>
+            )}
+          </View>
+
+          <View style={styles.rating}>
+            <RatingControl rating={recipe.rating} onChange={changeRating} />
+          </View>
+
+          <Text style={styles.description}>
+            {recipe.description || 'No description provided'}
+          </Text>
+          <TimerButtons
+            text={recipe.description}
+            label={recipe.title}
+            recipeId={recipe.id}
+          />
+
+          {canStartCooking && (
+            <Button
+              title="Start Cooking"
+              variant="primary"
+              onPress={startCooking}
+              style={styles.startCooking}
+              accessibilityHint="Walks through the recipe one step at a time"
+            />
+          )}
+
+          {shoppingIngredientCount > 0 && (
+            <Button
+              title="Add to Shopping List"
+              variant="ghost"
+              onPress={addToShoppingList}
+              style={styles.addToShoppingList}
+            />
+          )}
+
+          <Button
+            title="I Cooked This"
+            variant="ghost"
+            onPress={openLogCook}
+            style={styles.cookedIt}
+            accessibilityHint="Adds today to this recipe's cook history"
+          />
+
+          <Button
+            title="Version History"
+            variant="ghost"
+            onPress={openHistory}
+            style={styles.versionHistory}
+            accessibilityHint="Shows earlier versions of this recipe"
+          />
+
+          {recipe.servings !== undefined && targetServings !== undefined && (
+            <View style={styles.servings}>
+              <Text
+                style={styles.servingsText}
+                accessibilityLiveRegion="polite">
+                Serves {targetServings}
+              </Text>
+              <Button
+                title="−"
+                variant="ghost"
+                size="small"
+                onPress={() => changeServings(-1)}
+                disabled={targetServings <= 1}
+                accessibilityLabel="Decrease servings"
+              />
+              <Button
+                title="+"
+                variant="ghost"
+                size="small"
+                onPress={() => changeServings(1)}
+                disabled={targetServings >= MAX_SERVINGS}
+                accessibilityLabel="Increase servings"
+              />
+              {targetServings !== recipe.servings && (
+                <Button
+                  title="Reset"
+                  variant="ghost"
+                  size="small"
+                  onPress={resetServings}
+                  accessibilityLabel={`Reset to ${recipe.servings} servings`}
+                />
+              )}
+            </View>
+          )}
+
+          {ingredientGroups.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle} accessibilityRole="header">
+                Ingredients
+              </Text>
+              {ingredientGroups.map(({ group, items }, groupIndex) => (
+                <View key={`${group ?? 'ungrouped'}-${groupIndex}`}>
+                  {group && <Text style={styles.groupTitle}>{group}</Text>}
+                  {items.map(ingredient => (
+                    <Text key={ingredient.id} style={styles.listItem}>
+                      • {formatIngredient(ingredient)}
+                      {ingredient.note && (
+                        <Text style={styles.mutedText}>
+                          , {ingredient.note}
+                        </Text>
+                      )}
+                    </Text>
+                  ))}
+                </View>
+              ))}
+            </View>
+          )}
+
+          {steps.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle} accessibilityRole="header">
+                Steps
+              </Text>
+              {steps.map((step, index) => (
+                <View key={step.id} style={styles.step}>
+                  <Text style={styles.stepTitle}>
+                    Step {index + 1}
+                    {step.durationMinutes !== undefined && (
+                      <Text style={styles.mutedText}>
+                        {' '}
+                        · {step.durationMinutes} min
+                      </Text>
+                    )}
+                  </Text>
+                  <Text style={styles.listItem}>
+                    {convertTemperaturesInText(step.text, unitPreference)}
+                  </Text>
+                  <TimerButtons
+                    text={step.text}
+                    durationMinutes={step.durationMinutes}
+                    label={`${recipe.title}, step ${index + 1}`}
+                    recipeId={recipe.id}
+                  />
+                  {step.images && step.images.length > 0 && (
+                    <ImageList
+                      images={step.images}
+                      showDeleteButton={false}
+                      showErrorFallback={true}
+                      keyPrefix={step.id}
+                    />
+                  )}
+                </View>
+              ))}
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle} accessibilityRole="header">
+              Notes
+            </Text>
+            {notes.map(note => (
+              <View key={note.id} style={styles.note}>
+                <Text style={styles.mutedText}>{formatNoteDate(note)}</Text>
+                <Text style={styles.listItem}>{note.text}</Text>
+              </View>
+            ))}
+            <View style={styles.noteInputRow}>
+              <TextInput
+                style={styles.noteInput}
+                value={noteText}
+                onChangeText={setNoteText}
+                placeholder="Add a note, e.g. used less salt"
+                placeholderTextColor={colors.placeholder}
+                maxLength={MAX_NOTE_LENGTH}
+                multiline
+                accessibilityLabel="New cooking note"
+              />
+              <Button
+                title="Add"
+                variant="primary"
+                size="small"
+                onPress={addNote}
+                disabled={!noteText.trim()}
+                accessibilityLabel="Add note"
+              />
+            </View>
+          </View>
+
+          {cookHistory.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle} accessibilityRole="header">
+                Cook History
+              </Text>
+              {cookHistory.map(entry => (
+                <View key={entry.id} style={styles.note}>
+                  <Text style={styles.listItem}>
+                    {formatDate(new Date(entry.cookedAt))}
+                    {entry.rating !== undefined && (
+                      <Text
+                        style={styles.cookRating}
+                        accessibilityLabel={formatRatingLabel(entry.rating)}>
+                        {'  '}
+                        {formatRatingStars(entry.rating)}
+                      </Text>
+                    )}
+                  </Text>
+                  {entry.photo && (
+                    <ImageList
+                      images={[entry.photo]}
+                      showDeleteButton={false}
+                      showErrorFallback={true}
+                      keyPrefix={entry.id}
+                    />
+                  )}
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+      </ScrollView>
+      <LogCookSheet
+        visible={logCookVisible}
+        onSave={saveCook}
+        onClose={closeLogCook}
+      />
+    </KeyboardAvoidingView>
+  );
+};
+
+const createStyles = (colors: ReturnType<typeof useThemeColors>['colors']) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      paddingBottom: 50,
+    },
+    centered: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      paddingHorizontal: 32,
+      backgroundColor: colors.secondary,
+    },
+    notFoundText: {
+      marginBottom: 24,
+    },
+    body: {
+      padding: 16,
+    },
+    title: {
+      fontSize: 26,
+      fontWeight: '700',
+      color: colors.text,
+      marginBottom: 8,
+    },
+    metadata: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 12,
+      marginBottom: 16,
+    },
+    mutedText: {
+      fontSize: 14,
+      color: colors.darkGray,
+    },
+    description: {
+      fontSize: 16,
+      lineHeight: 24,
+      color: colors.text,
+    },
+    rating: {
+      alignSelf: 'flex-start',
+      marginBottom: 12,
+    },
+    startCooking: {
+      marginTop: 16,
+    },
+    addToShoppingList: {
+      marginTop: 8,
+    },
+    cookedIt: {
+      marginTop: 8,
+    },
+    versionHistory: {
+      marginTop: 8,
+    },
+    cookRating: {
+      color: colors.warning,
+    },
+    servings: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginTop: 16,
+    },
+    servingsText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      marginRight: 8,
+    },
+    section: {
+      marginTop: 24,
+    },
+    sectionTitle: {
+      fontSize: 20,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 8,
+    },
+    groupTitle: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.darkGray,
+      marginTop: 8,
+      marginBottom: 4,
+    },
+    listItem: {
+      fontSize: 16,
+      lineHeight: 24,
+      color: colors.text,
+    },
+    step: {
+      marginBottom: 16,
+    },
+    note: {
+      marginBottom: 12,
+    },
+    noteInputRow: {
+      flexDirection: 'row',
+      alignItems: 'flex-end',
+      gap: 8,
+    },
+    noteInput: {
+      flex: 1,
+      fontSize: 16,
+      minHeight: 44,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.inputBorder,
+      backgroundColor: colors.inputBackground,
+      color: colors.text,
+    },
+    stepTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 4,
+    },
+  });
@@ -0,0 +1,329 @@
+import React, { memo, useState, useCallback, useMemo } from 'react';
+import { View, Text, StyleSheet, FlatList, Alert } from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
+import { Recipe } from '../types/Recipe';
+import { RecipeRevision } from '../types/RecipeHistory';
+import { getRecipeById, revertRecipe } from '../services/storage';
+import { getRecipeHistory } from '../services/recipeHistory';
+import { Button } from '../components/common/Button';
+import { useHapticFeedback } from '../hooks/useHapticFeedback';
+import { useThemeColors } from '../hooks/useThemeColors';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import {
+  FieldChange,
+  diffSnapshots,
+  toRecipeSnapshot,
+} from '../utils/recipeHistory';
+
+type RecipeHistoryScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'RecipeHistory'
+>;
+
+type RecipeHistoryScreenRouteProp = RouteProp<
+  RootStackParamList,
+  'RecipeHistory'
+>;
+
+interface Props {
+  navigation: RecipeHistoryScreenNavigationProp;
+  route: RecipeHistoryScreenRouteProp;
+}
+
+const formatSavedAt = (savedAt: string): string =>
+  new Date(savedAt).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+interface RevisionItemProps {
+  revision: RecipeRevision;
+  /** What the next edit changed, from this version to the one after it */
+  changes: FieldChange[];
+  onRevert: (revision: RecipeRevision) => void;
+}
+
+const RevisionItem = memo<RevisionItemProps>(
+  ({ revision, changes, onRevert }) => {
+    const { colors } = useThemeColors();
+    const savedAt = formatSavedAt(revision.savedAt);
+
+    return (
+      <View
+        style={[
+          styles.item,
+          { backgroundColor: colors.card, borderColor: colors.border },
+        ]}
+        accessibilityLabel={`Version saved ${savedAt}`}>
+        <Text style={[styles.itemTitle, { color: colors.text }]}>
+          Version saved {savedAt}
+        </Text>
+        <Text style={[styles.itemMeta, { color: colors.darkGray }]}>
+          Changed in the next edit:
+        </Text>
+        {changes.map(change => (
+          <View key={change.field} style={styles.change}>
+            <Text style={[styles.changeLabel, { color: colors.text }]}>
+              {change.label}
+            </Text>
+            <Text
+              style={[styles.before, { color: colors.danger }]}
+              accessibilityLabel={`Was ${change.before || 'empty'}`}>
+              − {change.before || '(empty)'}
+            </Text>
+            <Text
+              style={[styles.after, { color: colors.success }]}
+              accessibilityLabel={`Became ${change.after || 'empty'}`}>
+              + {change.after || '(empty)'}
+            </Text>
+          </View>
+        ))}
+        <View style={styles.itemActions}>
+          <Button
+            title="Revert to This Version"
+            variant="ghost"
+            size="small"
+            onPress={() => onRevert(revision)}
+            accessibilityLabel={`Revert to the version saved ${savedAt}`}
+          />
+        </View>
+      </View>
+    );
+  },
+);
+
+RevisionItem.displayName = 'RevisionItem';
+
+export const RecipeHistoryScreen = ({ route }: Props) => {
+  const { recipeId } = route.params;
+  const [recipe, setRecipe] = useState<Recipe | undefined>();
+  const [history, setHistory] = useState<RecipeRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const {
+    triggerImpactMedium,
+    triggerNotificationSuccess,
+    triggerNotificationError,
+  } = useHapticFeedback();
+
+  const { colors } = useThemeColors();
+  const themedStyles = useMemo(() => createStyles(colors), [colors]);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setRecipe(await getRecipeById(recipeId));
+      setHistory(await getRecipeHistory(recipeId));
+    } catch (error) {
+      console.error('Error loading history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [recipeId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadHistory();
+    }, [loadHistory]),
+  );
+
+  // Each version is compared with the one that replaced it; the newest
+  // earlier version is compared with the recipe as it is now
+  const items = useMemo(() => {
+    if (!recipe) {
+      return [];
+    }
+    const current = toRecipeSnapshot(recipe);
+    return history.map((revision, index) => ({
+      revision,
+      changes: diffSnapshots(
+        revision.snapshot,
+        index === 0 ? current : history[index - 1].snapshot,
+      ),
+    }));
+  }, [recipe, history]);
+
+  const handleRevert = useCallback(
+    (revision: RecipeRevision) => {
+      triggerImpactMedium();
+      Alert.alert(
+        'Revert Recipe',
+        `Go back to the version saved ${formatSavedAt(
+          revision.savedAt,
+        )}? The current version stays in the history.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Revert',
+            onPress: async () => {
+              try {
+                await revertRecipe(recipeId, revision.id);
+                triggerNotificationSuccess();
+                await loadHistory();
+              } catch (error) {
+                console.error('Error reverting recipe:', error);
+                triggerNotificationError();
+                Alert.alert(
+                  'Revert Error',
+                  'There was a problem reverting the recipe. Please try again.',
+                );
+              }
+            },
+          },
+        ],
+      );
+    },
+    [
+      recipeId,
+      loadHistory,
+      triggerImpactMedium,
+      triggerNotificationSuccess,
+      triggerNotificationError,
+    ],
+  );
+
+  const renderItem = ({ item }: { item: (typeof items)[number] }) => (
+    <RevisionItem
+      revision={item.revision}
+      changes={item.changes}
+      onRevert={handleRevert}
+    />
+  );
+
+  const renderEmptyState = () => (
+    <View style={themedStyles.emptyContainer}>
+      <Text style={themedStyles.emptyTitle}>No Earlier Versions</Text>
+      <Text style={themedStyles.emptySubtitle}>
+        Each time you edit this recipe, the version it replaces is kept here
+      </Text>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={themedStyles.container}>
+        <Text style={themedStyles.loadingText} accessibilityLiveRegion="polite">
+          Loading history...
+        </Text>
+      </View>
+    );
+  }
+
+  if (!recipe) {
+    return (
+      <View style={[themedStyles.container, themedStyles.emptyContainer]}>
+        <Text style={themedStyles.emptyTitle}>Recipe Not Found</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={themedStyles.container}>
+      <FlatList
+        data={items}
+        renderItem={renderItem}
+        keyExtractor={item => item.revision.id}
+        contentContainerStyle={[
+          themedStyles.listContent,
+          items.length === 0 && themedStyles.emptyListContent,
+        ]}
+        ListHeaderComponent={
+          <Text style={themedStyles.header}>
+            Current version saved {recipe.updatedAt.toLocaleString()}
+          </Text>
+        }
+        ListEmptyComponent={renderEmptyState}
+        showsVerticalScrollIndicator={false}
+        accessibilityRole="list"
+        accessibilityLabel={`${items.length} earlier ${
+          items.length === 1 ? 'version' : 'versions'
+        } of ${recipe.title}`}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  item: {
+    marginHorizontal: 16,
+    marginVertical: 6,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  itemTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  itemMeta: {
+    fontSize: 14,
+  },
+  change: {
+    marginTop: 10,
+  },
+  changeLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  before: {
+    fontSize: 15,
+    lineHeight: 21,
+    textDecorationLine: 'line-through',
+  },
+  after: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+});
+
+const createStyles = (colors: ReturnType<typeof useThemeColors>['colors']) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.secondary,
+    },
+    listContent: {
+      paddingVertical: 16,
+    },
+    emptyListContent: {
+      flexGrow: 1,
+    },
+    header: {
+      fontSize: 14,
+      color: colors.darkGray,
+      marginHorizontal: 16,
+      marginBottom: 8,
+    },
+    loadingText: {
+      fontSize: 16,
+      color: colors.darkGray,
+      textAlign: 'center',
+      marginTop: 32,
+    },
+    emptyContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      paddingHorizontal: 32,
+    },
+    emptyTitle: {
+      fontSize: 20,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 8,
+    },
+    emptySubtitle: {
+      fontSize: 16,
+      color: colors.darkGray,
+      textAlign: 'center',
+    },
+  });
@@ -1,17 +1,61 @@
-import React, { useState, useCallback, useMemo, useLayoutEffect } from 'react';
+import React, {
+  useState,
+  useCallback,
+  useMemo,
+  useLayoutEffect,
+  useEffect,
+} from 'react';
 import { View, StyleSheet, FlatList, Text, Alert } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useFocusEffect } from '@react-navigation/native';
 import { Recipe } from '../types/Recipe';
-import { getRecipes, deleteRecipe } from '../services/storage';
+import {
+  getRecipes,
+  getAllTags,
+  deleteRecipe,
+  purgeExpiredTrash,
+  restoreRecipe,
+  updateRecipeMetadata,
+} from '../services/storage';
 import { RecipeCard } from '../components/ui/RecipeCard';
+import { ActionMenu } from '../components/ui/ActionMenu';
+import { Snackbar } from '../components/ui/Snackbar';
+import { TagFilterBar } from '../components/ui/TagFilterBar';
 import { Button } from '../components/common/Button';
 import { useHapticFeedback } from '../hooks/useHapticFeedback';
 import { useThemeColors } from '../hooks/useThemeColors';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { filterRecipesByQuery } from '../utils/searchUtils';
+import { duplicateRecipe } from '../utils/duplicateRecipe';
+import { toSerializableRecipe } from '../utils/recipeSerialization';
+import { TagCount, TagMatchMode, filterRecipesByTags } from '../utils/tagUtils';
 import {
-  RootStackParamList,
-  SerializableRecipe,
-} from '../navigation/AppNavigator';
+  filterRecipesByTotalTime,
+  formatDuration,
+} from '../utils/durationUtils';
+import {
+  DEFAULT_SORT_ORDER,
+  SORT_OPTIONS,
+  SortOrder,
+  sortRecipes,
+} from '../utils/recipeSort';
+import {
+  DEFAULT_UNIT_PREFERENCE,
+  UNIT_OPTIONS,
+  UnitPreference,
+} from '../utils/units';
+import {
+  getConfirmDelete,
+  getSortOrder,
+  getTrashRetentionDays,
+  getUnitPreference,
+  setConfirmDelete,
+  setSortOrder,
+  setUnitPreference,
+} from '../services/preferences';
+import { countLocalImages, exportRecipes } from '../services/backup';
+import { SEARCH_DEBOUNCE_MS, TOTAL_TIME_FILTER_OPTIONS } from '../constants';
 
 type RecipeListScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
@@ -22,12 +66,31 @@ interface Props {
   navigation: RecipeListScreenNavigationProp;
 }
 
+type ListMenu = 'more' | 'sort' | 'time' | 'units';
+
 export const RecipeListScreen = ({ navigation }: Props) => {
   const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const debouncedQuery = useDebouncedValue(searchQuery, SEARCH_DEBOUNCE_MS);
+  const [sortOrder, setSortOrderState] =
+    useState<SortOrder>(DEFAULT_SORT_ORDER);
+  const [activeMenu, setActiveMenu] = useState<ListMenu | null>(null);
+  const [confirmDelete, setConfirmDeleteState] = useState(true);
+  const [unitPreference, setUnitPreferenceState] = useState<UnitPreference>(
+    DEFAULT_UNIT_PREFERENCE,
+  );
+  const [deletedRecipe, setDeletedRecipe] = useState<Recipe | null>(null);
+  const [actionRecipe, setActionRecipe] = useState<Recipe | null>(null);
+  const [tagCounts, setTagCounts] = useState<TagCount[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagMatchMode, setTagMatchMode] = useState<TagMatchMode>('all');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [maxTotalMinutes, setMaxTotalMinutes] = useState<number | null>(null);
   const {
     triggerImpactLight,
     triggerImpactMedium,
+    triggerSelection,
     triggerNotificationSuccess,
     triggerNotificationError,
   } = useHapticFeedback();
@@ -38,12 +101,8 @@ export const RecipeListScreen = ({ navigation }: Props) => {
   const loadRecipes = async () => {
     try {
       const loadedRecipes = await getRecipes();
-      // Sort recipes by creation date (newest first)
-      const sortedRecipes = loadedRecipes.sort(
-        (a, b) =>
-          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-      );
-      setRecipes(sortedRecipes);
+      setRecipes(loadedRecipes);
+      setTagCounts(await getAllTags());
     } catch (error) {
       console.error('Error loading recipes:', error);
     } finally {
@@ -71,29 +130,298 @@ export const RecipeListScreen = ({ navigation }: Props) => {
     [navigateToAddRecipe],
   );
 
+  // Restore the last chosen sort order and clear out expired trash on launch
+  useEffect(() => {
+    getSortOrder().then(setSortOrderState);
+    getConfirmDelete().then(setConfirmDeleteState);
+    getUnitPreference().then(setUnitPreferenceState);
+    getTrashRetentionDays()
+      .then(days => purgeExpiredTrash(days))
+      .catch(error => console.error('Error purging trash:', error));
+  }, []);
+
+  const openMoreMenu = useCallback(() => {
+    triggerImpactLight();
+    setActiveMenu('more');
+  }, [triggerImpactLight]);
+
+  const closeMenu = useCallback(() => setActiveMenu(null), []);
+
+  const runExport = useCallback(
+    async (embedImages: boolean) => {
+      try {
+        const result = await exportRecipes({ embedImages });
+        if (result.shared) {
+          triggerNotificationSuccess();
+        }
+        if (result.localImageCount > 0) {
+          Alert.alert(
+            'Some Photos Not Included',
+            `${result.localImageCount} ${
+              result.localImageCount === 1 ? 'photo is' : 'photos are'
+            } stored only on this device and could not be included in the backup.`,
+          );
+        }
+      } catch (error) {
+        console.error('Error exporting recipes:', error);
+        triggerNotificationError();
+        Alert.alert(
+          'Export Error',
+          error instanceof Error
+            ? error.message
+            : 'There was a problem exporting your recipes. Please try again.',
+        );
+      }
+    },
+    [triggerNotificationSuccess, triggerNotificationError],
+  );
+
+  const handleExport = useCallback(() => {
+    if (countLocalImages(recipes) === 0) {
+      runExport(false);
+      return;
+    }
+
+    Alert.alert(
+      'Include Photos?',
+      'Some photos are stored only on this device. Embedding them makes the backup self-contained but much larger.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Links Only', onPress: () => runExport(false) },
+        { text: 'Embed Photos', onPress: () => runExport(true) },
+      ],
+    );
+  }, [recipes, runExport]);
+
+  const menuOptions = useMemo(() => {
+    if (activeMenu === 'sort') {
+      return SORT_OPTIONS.map(option => ({
+        key: option.value,
+        label: option.label,
+        selected: option.value === sortOrder,
+        onPress: () => {
+          setSortOrderState(option.value);
+          setSortOrder(option.value);
+        },
+      }));
+    }
+
+    if (activeMenu === 'time') {
+      return [
+        {
+          key: 'any',
+          label: 'Any Time',
+          selected: maxTotalMinutes === null,
+          onPress: () => setMaxTotalMinutes(null),
+        },
+        ...TOTAL_TIME_FILTER_OPTIONS.map(minutes => ({
+          key: String(minutes),
+          label: `Under ${formatDuration(minutes)}`,
+          selected: minutes === maxTotalMinutes,
+          onPress: () => setMaxTotalMinutes(minutes),
+        })),
+      ];
+    }
+
+    if (activeMenu === 'units') {
+      return UNIT_OPTIONS.map(option => ({
+        key: option.value,
+        label: option.label,
+        selected: option.value === unitPreference,
+        onPress: () => {
+          setUnitPreferenceState(option.value);
+          setUnitPreference(option.value);
+        },
+      }));
+    }
+
+    return [
+      {
+        key: 'sort',
+        label: 'Sort By…',
+        onPress: () => setActiveMenu('sort'),
+      },
+      {
+        key: 'time',
+        label: 'Total Time…',
+        onPress: () => setActiveMenu('time'),
+      },
+      {
+        key: 'units',
+        label: 'Units…',
+        onPress: () => setActiveMenu('units'),
+      },
+      {
+        key: 'favorites',
+        label: 'Favorites Only',
+        selected: favoritesOnly,
+        onPress: () => setFavoritesOnly(!favoritesOnly),
+      },
+      { key: 'export', label: 'Export Backup', onPress: handleExport },
+      {
+        key: 'import',
+        label: 'Import Backup',
+        onPress: () => navigation.navigate('ImportRecipes'),
+      },
+      {
+        key: 'mealPlan',
+        label: 'Meal Plan',
+        onPress: () => navigation.navigate('MealPlan'),
+      },
+      {
+        key: 'shoppingList',
+        label: 'Shopping List',
+        onPress: () => navigation.navigate('ShoppingList'),
+      },
+      {
+        key: 'trash',
+        label: 'Trash',
+        onPress: () => navigation.navigate('Trash'),
+      },
+      {
+        key: 'confirmDelete',
+        label: 'Ask Before Deleting',
+        selected: confirmDelete,
+        onPress: () => {
+          setConfirmDeleteState(!confirmDelete);
+          setConfirmDelete(!confirmDelete);
+        },
+      },
+    ];
+  }, [
+    activeMenu,
+    sortOrder,
+    unitPreference,
+    maxTotalMinutes,
+    favoritesOnly,
+    confirmDelete,
+    handleExport,
+    navigation,
+  ]);
+
+  const headerLeft = useCallback(
+    () => (
+      <Button
+        title="⋯"
+        variant="ghost"
+        size="small"
+        onPress={openMoreMenu}
+        hitSlop={{ top: 10, right: 10, bottom: 10, left: 10 }}
+        accessibilityLabel="More options"
+        accessibilityHint="Sort, back up and manage recipes, or open the trash"
+      />
+    ),
+    [openMoreMenu],
+  );
+
+  const headerSearchBarOptions = useMemo(
+    () => ({
+      placeholder: 'Search recipes',
+      autoCapitalize: 'none' as const,
+      hideWhenScrolling: false,
+      onChangeText: (event: { nativeEvent: { text: string } }) =>
+        setSearchQuery(event.nativeEvent.text),
+      onCancelButtonPress: () => setSearchQuery(''),
+    }),
+    [],
+  );
+
   useLayoutEffect(() => {
-    navigation.setOptions({ headerRight });
-  }, [navigation, headerRight]);
+    navigation.setOptions({ headerLeft, headerRight, headerSearchBarOptions });
+  }, [navigation, headerLeft, headerRight, headerSearchBarOptions]);
+
+  // Ignore selected tags that no recipe uses anymore
+  const activeTags = useMemo(
+    () =>
+      selectedTags.filter(tag => tagCounts.some(count => count.tag === tag)),
+    [selectedTags, tagCounts],
+  );
+
+  const visibleRecipes = useMemo(
+    () =>
+      sortRecipes(
+        filterRecipesByTotalTime(
+          filterRecipesByTags(
+            filterRecipesByQuery(
+              favoritesOnly ? recipes.filter(r => r.isFavorite) : recipes,
+              debouncedQuery,
+            ),
+            activeTags,
+            tagMatchMode,
+          ),
+          maxTotalMinutes,
+        ),
+        sortOrder,
+      ),
+    [
+      recipes,
+      favoritesOnly,
+      maxTotalMinutes,
+      debouncedQuery,
+      activeTags,
+      tagMatchMode,
+      sortOrder,
+    ],
+  );
+  const isSearching = debouncedQuery.trim().length > 0;
+  const isFiltering =
+    isSearching ||
+    activeTags.length > 0 ||
+    favoritesOnly ||
+    maxTotalMinutes !== null;
+
+  const handleToggleTag = useCallback(
+    (tag: string) => {
+      triggerSelection();
+      setSelectedTags(current =>
+        current.includes(tag)
+          ? current.filter(t => t !== tag)
+          : [...current, tag],
+      );
+    },
+    [triggerSelection],
+  );
+
+  const handleTagModeChange = useCallback(
+    (mode: TagMatchMode) => {
+      triggerSelection();
+      setTagMatchMode(mode);
+    },
+    [triggerSelection],
+  );
+
+  const clearTagFilter = useCallback(() => setSelectedTags([]), []);
 
   const handleRecipePress = (recipe: Recipe) => {
     triggerImpactLight();
-    // In the future, this could navigate to a recipe detail screen
-    // For now, it navigates to edit mode
+    navigation.navigate('RecipeDetail', { recipeId: recipe.id });
+  };
 
-    // Convert Recipe to SerializableRecipe for navigation
-    const serializableRecipe: SerializableRecipe = {
-      ...recipe,
-      createdAt: recipe.createdAt.toISOString(),
-      updatedAt: recipe.updatedAt.toISOString(),
-    };
+  const closeRecipeMenu = useCallback(() => setActionRecipe(null), []);
 
-    navigation.navigate('AddRecipe', { recipe: serializableRecipe });
-  };
+  // The copy opens as an unsaved draft; nothing is stored until it's saved
+  const recipeMenuOptions = useMemo(
+    () =>
+      actionRecipe
+        ? [
+            {
+              key: 'duplicate',
+              label: 'Duplicate',
+              onPress: () =>
+                navigation.navigate('AddRecipe', {
+                  draft: toSerializableRecipe(duplicateRecipe(actionRecipe)),
+                }),
+            },
+          ]
+        : [],
+    [actionRecipe, navigation],
+  );
 
   const handleDeleteRecipe = async (recipe: Recipe) => {
     try {
       await deleteRecipe(recipe.id);
       triggerNotificationSuccess();
+      setDeletedRecipe(recipe);
       // Reload the recipes to reflect the deletion
       await loadRecipes();
     } catch (error) {
@@ -106,6 +434,52 @@ export const RecipeListScreen = ({ navigation }: Props) => {
     }
   };
 
+  // Favoriting isn't an edit, so updatedAt and the sort order stay put
+  const handleToggleFavorite = async (recipe: Recipe) => {
+    const isFavorite = !recipe.isFavorite;
+    setRecipes(current =>
+      current.map(r => (r.id === recipe.id ? { ...r, isFavorite } : r)),
+    );
+
+    try {
+      await updateRecipeMetadata(recipe.id, { isFavorite });
+      await loadRecipes();
+    } catch (error) {
+      console.error('Error updating favorite:', error);
+      triggerNotificationError();
+      await loadRecipes();
+    }
+  };
+
+  const dismissSnackbar = useCallback(() => setDeletedRecipe(null), []);
+
+  // Deleted recipes sit in the trash, so undo is a restore that keeps the
+  // original ID and creation date
+  const handleUndoDelete = useCallback(async () => {
+    if (!deletedRecipe) {
+      return;
+    }
+
+    triggerImpactLight();
+    try {
+      await restoreRecipe(deletedRecipe.id);
+      triggerNotificationSuccess();
+      await loadRecipes();
+    } catch (error) {
+      console.error('Error restoring recipe:', error);
+      triggerNotificationError();
+      Alert.alert(
+        'Undo Error',
+        'The recipe could not be restored. You can still find it in the Trash.',
+      );
+    }
+  }, [
+    deletedRecipe,
+    triggerImpactLight,
+    triggerNotificationSuccess,
+    triggerNotificationError,
+  ]);
+
   // Reload recipes when screen comes into focus
   useFocusEffect(
     useCallback(() => {
@@ -117,26 +491,44 @@ export const RecipeListScreen = ({ navigation }: Props) => {
     <RecipeCard
       recipe={item}
       onPress={() => handleRecipePress(item)}
+      onLongPress={setActionRecipe}
       onDelete={handleDeleteRecipe}
+      onToggleFavorite={handleToggleFavorite}
+      highlightQuery={debouncedQuery}
+      confirmDelete={confirmDelete}
     />
   );
 
-  const renderEmptyState = () => (
-    <View style={styles.emptyContainer}>
-      <Text style={styles.emptyTitle}>No Recipes Yet</Text>
-      <Text style={styles.emptySubtitle}>
-        Tap the + button to add your first recipe
-      </Text>
-      <Button
-        title="Add Recipe"
-        variant="primary"
-        size="medium"
-        onPress={navigateToAddRecipe}
-        accessibilityLabel="Add your first recipe"
-        accessibilityHint="Opens form to create your first recipe"
-      />
-    </View>
-  );
+  const renderEmptyState = () =>
+    isFiltering && recipes.length > 0 ? (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyTitle}>No Matching Recipes</Text>
+        <Text style={styles.emptySubtitle}>
+          {isSearching
+            ? `Nothing matches "${debouncedQuery.trim()}". Try a different search.`
+            : activeTags.length > 0
+            ? 'No recipes have these tags. Try fewer tags or match any tag.'
+            : maxTotalMinutes !== null
+            ? 'No recipes fit this time. Add prep and cook times to your recipes or allow more time.'
+            : 'Swipe right on a recipe to add it to your favorites.'}
+        </Text>
+      </View>
+    ) : (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyTitle}>No Recipes Yet</Text>
+        <Text style={styles.emptySubtitle}>
+          Tap the + button to add your first recipe
+        </Text>
+        <Button
+          title="Add Recipe"
+          variant="primary"
+          size="medium"
+          onPress={navigateToAddRecipe}
+          accessibilityLabel="Add your first recipe"
+          accessibilityHint="Opens form to create your first recipe"
+        />
+      </View>
+    );
 
   const renderSeparator = () => <View style={styles.separator} />;
 
@@ -158,21 +550,62 @@ export const RecipeListScreen = ({ navigation }: Props) => {
   return (
     <View style={styles.container}>
       <FlatList
-        data={recipes}
+        data={visibleRecipes}
         renderItem={renderRecipe}
         keyExtractor={item => item.id}
         contentContainerStyle={[
           styles.listContent,
-          recipes.length === 0 && styles.emptyListContent,
+          visibleRecipes.length === 0 && styles.emptyListContent,
         ]}
+        keyboardShouldPersistTaps="handled"
+        keyboardDismissMode="on-drag"
+        contentInsetAdjustmentBehavior="automatic"
+        ListHeaderComponent={
+          <TagFilterBar
+            tagCounts={tagCounts}
+            selectedTags={activeTags}
+            mode={tagMatchMode}
+            onToggleTag={handleToggleTag}
+            onModeChange={handleTagModeChange}
+            onClear={clearTagFilter}
+          />
+        }
         ItemSeparatorComponent={renderSeparator}
         ListEmptyComponent={renderEmptyState}
         showsVerticalScrollIndicator={false}
         accessibilityRole="list"
-        accessibilityLabel={`Recipe list with ${recipes.length} ${
-          recipes.length === 1 ? 'recipe' : 'recipes'
+        accessibilityLabel={`Recipe list with ${visibleRecipes.length} ${
+          visibleRecipes.length === 1 ? 'recipe' : 'recipes'
         }`}
       />
+      <ActionMenu
+        visible={activeMenu !== null}
+        title={
+          activeMenu === 'sort'
+            ? 'Sort By'
+            : activeMenu === 'time'
+            ? 'Ready In'
+            : activeMenu === 'units'
+            ? 'Show Quantities In'
+            : undefined
+        }
+        options={menuOptions}
+        onClose={closeMenu}
+      />
+      <ActionMenu
+        visible={actionRecipe !== null}
+        title={actionRecipe?.title}
+        options={recipeMenuOptions}
+        onClose={closeRecipeMenu}
+      />
+      <Snackbar
+        key={deletedRecipe?.id}
+        visible={deletedRecipe !== null}
+        message={`Deleted “${deletedRecipe?.title ?? ''}”`}
+        actionLabel="Undo"
+        onAction={handleUndoDelete}
+        onDismiss={dismissSnackbar}
+      />
     </View>
   );
 };
@@ -0,0 +1,471 @@
+import React, {
+  memo,
+  useState,
+  useCallback,
+  useMemo,
+  useLayoutEffect,
+} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useFocusEffect } from '@react-navigation/native';
+import { Recipe } from '../types/Recipe';
+import { ShoppingListItem } from '../types/ShoppingList';
+import { getRecipes } from '../services/storage';
+import {
+  addRecipesToShoppingList,
+  getShoppingList,
+  saveShoppingList,
+} from '../services/shoppingList';
+import { ActionMenu } from '../components/ui/ActionMenu';
+import { RecipePicker } from '../components/ui/RecipePicker';
+import { Button } from '../components/common/Button';
+import { useHapticFeedback } from '../hooks/useHapticFeedback';
+import { useThemeColors } from '../hooks/useThemeColors';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { addToShoppingList, groupShoppingList } from '../utils/shoppingList';
+import {
+  formatIngredient,
+  parseIngredientLine,
+} from '../utils/ingredientParser';
+
+type ShoppingListScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'ShoppingList'
+>;
+
+interface Props {
+  navigation: ShoppingListScreenNavigationProp;
+}
+
+interface ShoppingItemRowProps {
+  item: ShoppingListItem;
+  onToggle: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const ShoppingItemRow = memo<ShoppingItemRowProps>(
+  ({ item, onToggle, onRemove }) => {
+    const { colors } = useThemeColors();
+    const text = formatIngredient(item);
+
+    return (
+      <View
+        style={[
+          styles.item,
+          { backgroundColor: colors.card, borderColor: colors.border },
+        ]}>
+        <TouchableOpacity
+          style={styles.itemToggle}
+          onPress={() => onToggle(item.id)}
+          accessibilityRole="checkbox"
+          accessibilityState={{ checked: item.checked }}
+          accessibilityLabel={text}>
+          <Text
+            style={[styles.checkbox, { color: colors.primary }]}
+            importantForAccessibility="no">
+            {item.checked ? '☑' : '☐'}
+          </Text>
+          <Text
+            style={[
+              styles.itemText,
+              { color: item.checked ? colors.darkGray : colors.text },
+              item.checked && styles.checkedText,
+            ]}>
+            {text}
+          </Text>
+        </TouchableOpacity>
+        <Button
+          title="✕"
+          variant="ghost"
+          size="small"
+          onPress={() => onRemove(item.id)}
+          textStyle={{ color: colors.darkGray }}
+          accessibilityLabel={`Remove ${item.name}`}
+        />
+      </View>
+    );
+  },
+);
+
+ShoppingItemRow.displayName = 'ShoppingItemRow';
+
+export const ShoppingListScreen = ({ navigation }: Props) => {
+  const [items, setItems] = useState<ShoppingListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [isMenuVisible, setIsMenuVisible] = useState(false);
+  const [isPickerVisible, setIsPickerVisible] = useState(false);
+  const [newItemText, setNewItemText] = useState('');
+  const {
+    triggerImpactLight,
+    triggerSelection,
+    triggerNotificationSuccess,
+    triggerNotificationWarning,
+    triggerNotificationError,
+  } = useHapticFeedback();
+
+  const { colors } = useThemeColors();
+  const themedStyles = useMemo(() => createStyles(colors), [colors]);
+
+  useFocusEffect(
+    useCallback(() => {
+      let isActive = true;
+
+      getShoppingList()
+        .then(list => {
+          if (isActive) {
+            setItems(list);
+          }
+        })
+        .finally(() => {
+          if (isActive) {
+            setLoading(false);
+          }
+        });
+
+      return () => {
+        isActive = false;
+      };
+    }, []),
+  );
+
+  // Shows the change right away; if it can't be saved, says so and goes
+  // back to the saved list
+  const updateItems = useCallback(
+    (next: ShoppingListItem[]) => {
+      setItems(next);
+      saveShoppingList(next).catch(async error => {
+        console.error('Error saving shopping list:', error);
+        triggerNotificationError();
+        Alert.alert(
+          'Save Error',
+          'The shopping list could not be saved. Please try again.',
+        );
+        setItems(await getShoppingList());
+      });
+    },
+    [triggerNotificationError],
+  );
+
+  const toggleItem = useCallback(
+    (id: string) => {
+      triggerSelection();
+      updateItems(
+        items.map(item =>
+          item.id === id ? { ...item, checked: !item.checked } : item,
+        ),
+      );
+    },
+    [items, updateItems, triggerSelection],
+  );
+
+  const removeItem = useCallback(
+    (id: string) => {
+      triggerImpactLight();
+      updateItems(items.filter(item => item.id !== id));
+    },
+    [items, updateItems, triggerImpactLight],
+  );
+
+  const addManualItem = useCallback(() => {
+    const parsed = parseIngredientLine(newItemText);
+    if (!parsed) {
+      return;
+    }
+    triggerImpactLight();
+    updateItems(addToShoppingList(items, [parsed]));
+    setNewItemText('');
+  }, [items, newItemText, updateItems, triggerImpactLight]);
+
+  const openPicker = useCallback(async () => {
+    try {
+      setRecipes(await getRecipes());
+      setIsPickerVisible(true);
+    } catch (error) {
+      console.error('Error loading recipes:', error);
+    }
+  }, []);
+
+  const closePicker = useCallback(() => setIsPickerVisible(false), []);
+
+  const addRecipes = useCallback(
+    async (selected: Recipe[]) => {
+      try {
+        setItems(await addRecipesToShoppingList(selected));
+        triggerNotificationSuccess();
+      } catch (error) {
+        console.error('Error adding recipes to shopping list:', error);
+        triggerNotificationError();
+        Alert.alert(
+          'Save Error',
+          'The ingredients could not be added to the shopping list. Please try again.',
+        );
+      }
+    },
+    [triggerNotificationSuccess, triggerNotificationError],
+  );
+
+  const handleClearList = useCallback(() => {
+    Alert.alert('Clear List', 'Remove every item from the shopping list?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: () => {
+          triggerNotificationWarning();
+          updateItems([]);
+        },
+      },
+    ]);
+  }, [updateItems, triggerNotificationWarning]);
+
+  const checkedCount = items.filter(item => item.checked).length;
+
+  const menuOptions = useMemo(
+    () => [
+      { key: 'recipes', label: 'Add Recipes…', onPress: openPicker },
+      ...(checkedCount > 0
+        ? [
+            {
+              key: 'clearChecked',
+              label: `Remove Checked Items (${checkedCount})`,
+              onPress: () => updateItems(items.filter(item => !item.checked)),
+            },
+          ]
+        : []),
+      ...(items.length > 0
+        ? [
+            {
+              key: 'clear',
+              label: 'Clear List',
+              destructive: true,
+              onPress: handleClearList,
+            },
+          ]
+        : []),
+    ],
+    [items, checkedCount, openPicker, updateItems, handleClearList],
+  );
+
+  const openMenu = useCallback(() => {
+    triggerImpactLight();
+    setIsMenuVisible(true);
+  }, [triggerImpactLight]);
+
+  const closeMenu = useCallback(() => setIsMenuVisible(false), []);
+
+  const headerRight = useCallback(
+    () => (
+      <Button
+        title="⋯"
+        variant="ghost"
+        size="small"
+        onPress={openMenu}
+        hitSlop={{ top: 10, right: 10, bottom: 10, left: 10 }}
+        accessibilityLabel="Shopping list options"
+        accessibilityHint="Add recipes or clear the list"
+      />
+    ),
+    [openMenu],
+  );
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ headerRight });
+  }, [navigation, headerRight]);
+
+  const sections = useMemo(() => groupShoppingList(items), [items]);
+
+  if (loading) {
+    return (
+      <View style={themedStyles.container}>
+        <Text style={themedStyles.loadingText} accessibilityLiveRegion="polite">
+          Loading shopping list...
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={themedStyles.container}>
+      <View style={themedStyles.addRow}>
+        <TextInput
+          style={themedStyles.addInput}
+          value={newItemText}
+          onChangeText={setNewItemText}
+          onSubmitEditing={addManualItem}
+          placeholder="Add an item, e.g. 2 lemons"
+          placeholderTextColor={colors.placeholder}
+          returnKeyType="done"
+          accessibilityLabel="New shopping list item"
+        />
+        <Button
+          title="Add"
+          variant="primary"
+          size="small"
+          onPress={addManualItem}
+          disabled={!newItemText.trim()}
+          accessibilityLabel="Add item"
+        />
+      </View>
+      <SectionList
+        sections={sections}
+        keyExtractor={item => item.id}
+        renderItem={({ item }) => (
+          <ShoppingItemRow
+            item={item}
+            onToggle={toggleItem}
+            onRemove={removeItem}
+          />
+        )}
+        renderSectionHeader={({ section }) => (
+          <Text style={themedStyles.sectionTitle} accessibilityRole="header">
+            {section.title}
+          </Text>
+        )}
+        stickySectionHeadersEnabled={false}
+        contentContainerStyle={[
+          themedStyles.listContent,
+          items.length === 0 && themedStyles.emptyListContent,
+        ]}
+        ListEmptyComponent={
+          <View style={themedStyles.emptyContainer}>
+            <Text style={themedStyles.emptyTitle}>
+              Your Shopping List is Empty
+            </Text>
+            <Text style={themedStyles.emptySubtitle}>
+              Add the ingredients of one or more recipes, or type items in above
+            </Text>
+            <Button
+              title="Add Recipes"
+              variant="primary"
+              onPress={openPicker}
+              style={themedStyles.emptyButton}
+            />
+          </View>
+        }
+        showsVerticalScrollIndicator={false}
+        accessibilityLabel={`Shopping list with ${items.length} ${
+          items.length === 1 ? 'item' : 'items'
+        }, ${checkedCount} checked`}
+      />
+      <ActionMenu
+        visible={isMenuVisible}
+        options={menuOptions}
+        onClose={closeMenu}
+      />
+      <RecipePicker
+        visible={isPickerVisible}
+        title="Add Recipes"
+        recipes={recipes}
+        multiple
+        onSelect={addRecipes}
+        onClose={closePicker}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginVertical: 3,
+    paddingLeft: 12,
+    paddingRight: 4,
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  itemToggle: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+  },
+  checkbox: {
+    fontSize: 22,
+  },
+  itemText: {
+    flex: 1,
+    fontSize: 16,
+  },
+  checkedText: {
+    textDecorationLine: 'line-through',
+  },
+});
+
+const createStyles = (colors: ReturnType<typeof useThemeColors>['colors']) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.secondary,
+    },
+    addRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      padding: 16,
+      paddingBottom: 8,
+    },
+    addInput: {
+      flex: 1,
+      fontSize: 16,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.inputBorder,
+      backgroundColor: colors.inputBackground,
+      color: colors.text,
+    },
+    listContent: {
+      paddingBottom: 16,
+    },
+    emptyListContent: {
+      flexGrow: 1,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontWeight: '600',
+      textTransform: 'uppercase',
+      color: colors.darkGray,
+      marginHorizontal: 20,
+      marginTop: 16,
+      marginBottom: 6,
+    },
+    loadingText: {
+      fontSize: 16,
+      color: colors.darkGray,
+      textAlign: 'center',
+      marginTop: 32,
+    },
+    emptyContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      paddingHorizontal: 32,
+    },
+    emptyTitle: {
+      fontSize: 20,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 8,
+    },
+    emptySubtitle: {
+      fontSize: 16,
+      color: colors.darkGray,
+      textAlign: 'center',
+    },
+    emptyButton: {
+      marginTop: 24,
+    },
+  });
@@ -0,0 +1,394 @@
+import React, {
+  memo,
+  useState,
+  useCallback,
+  useMemo,
+  useLayoutEffect,
+} from 'react';
+import { View, Text, StyleSheet, FlatList, Alert } from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useFocusEffect } from '@react-navigation/native';
+import { TrashedRecipe } from '../types/Recipe';
+import {
+  emptyTrash,
+  getTrash,
+  purgeExpiredTrash,
+  purgeRecipe,
+  restoreRecipe,
+} from '../services/storage';
+import {
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+} from '../services/preferences';
+import { ActionMenu } from '../components/ui/ActionMenu';
+import { Button } from '../components/common/Button';
+import { useHapticFeedback } from '../hooks/useHapticFeedback';
+import { useThemeColors } from '../hooks/useThemeColors';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  TRASH_RETENTION_OPTIONS,
+} from '../constants';
+
+type TrashScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'Trash'
+>;
+
+interface Props {
+  navigation: TrashScreenNavigationProp;
+}
+
+type TrashMenu = 'more' | 'retention';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDays = (days: number) => `${days} ${days === 1 ? 'day' : 'days'}`;
+
+const getDaysLeft = (deletedAt: Date, retentionDays: number): number =>
+  Math.max(
+    0,
+    Math.ceil(
+      (deletedAt.getTime() + retentionDays * DAY_MS - Date.now()) / DAY_MS,
+    ),
+  );
+
+interface TrashItemProps {
+  recipe: TrashedRecipe;
+  retentionDays: number;
+  onRestore: (recipe: TrashedRecipe) => void;
+  onDeleteForever: (recipe: TrashedRecipe) => void;
+}
+
+const TrashItem = memo<TrashItemProps>(
+  ({ recipe, retentionDays, onRestore, onDeleteForever }) => {
+    const { colors } = useThemeColors();
+    const daysLeft = getDaysLeft(recipe.deletedAt, retentionDays);
+
+    return (
+      <View
+        style={[
+          styles.item,
+          { backgroundColor: colors.card, borderColor: colors.border },
+        ]}
+        accessibilityLabel={`Deleted recipe ${recipe.title}`}>
+        <Text style={[styles.itemTitle, { color: colors.text }]}>
+          {recipe.title}
+        </Text>
+        <Text style={[styles.itemMeta, { color: colors.darkGray }]}>
+          Deleted {recipe.deletedAt.toLocaleDateString()} ·{' '}
+          {daysLeft > 0
+            ? `${formatDays(daysLeft)} left`
+            : 'Will be removed soon'}
+        </Text>
+        <View style={styles.itemActions}>
+          <Button
+            title="Restore"
+            variant="ghost"
+            size="small"
+            onPress={() => onRestore(recipe)}
+            accessibilityLabel={`Restore ${recipe.title}`}
+          />
+          <Button
+            title="Delete Forever"
+            variant="ghost"
+            size="small"
+            onPress={() => onDeleteForever(recipe)}
+            textStyle={{ color: colors.danger }}
+            accessibilityLabel={`Delete ${recipe.title} forever`}
+          />
+        </View>
+      </View>
+    );
+  },
+);
+
+TrashItem.displayName = 'TrashItem';
+
+export const TrashScreen = ({ navigation }: Props) => {
+  const [trash, setTrash] = useState<TrashedRecipe[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retentionDays, setRetentionDays] = useState(
+    DEFAULT_TRASH_RETENTION_DAYS,
+  );
+  const [activeMenu, setActiveMenu] = useState<TrashMenu | null>(null);
+  const {
+    triggerImpactLight,
+    triggerImpactMedium,
+    triggerNotificationSuccess,
+    triggerNotificationWarning,
+    triggerNotificationError,
+  } = useHapticFeedback();
+
+  const { colors } = useThemeColors();
+  const themedStyles = useMemo(() => createStyles(colors), [colors]);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const days = await getTrashRetentionDays();
+      setRetentionDays(days);
+      await purgeExpiredTrash(days);
+      setTrash(await getTrash());
+    } catch (error) {
+      console.error('Error loading trash:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTrash();
+    }, [loadTrash]),
+  );
+
+  const handleRestore = useCallback(
+    async (recipe: TrashedRecipe) => {
+      try {
+        await restoreRecipe(recipe.id);
+        triggerNotificationSuccess();
+        await loadTrash();
+      } catch (error) {
+        console.error('Error restoring recipe:', error);
+        triggerNotificationError();
+        Alert.alert(
+          'Restore Error',
+          error instanceof Error
+            ? error.message
+            : 'There was a problem restoring the recipe. Please try again.',
+        );
+      }
+    },
+    [loadTrash, triggerNotificationSuccess, triggerNotificationError],
+  );
+
+  const handleDeleteForever = useCallback(
+    (recipe: TrashedRecipe) => {
+      triggerImpactMedium();
+      Alert.alert(
+        'Delete Forever',
+        `Permanently delete "${recipe.title}"? This action cannot be undone.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Delete',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await purgeRecipe(recipe.id);
+                triggerNotificationWarning();
+                await loadTrash();
+              } catch (error) {
+                console.error('Error purging recipe:', error);
+                triggerNotificationError();
+              }
+            },
+          },
+        ],
+      );
+    },
+    [
+      loadTrash,
+      triggerImpactMedium,
+      triggerNotificationWarning,
+      triggerNotificationError,
+    ],
+  );
+
+  const handleEmptyTrash = useCallback(() => {
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete ${trash.length} ${
+        trash.length === 1 ? 'recipe' : 'recipes'
+      }? This action cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await emptyTrash();
+              triggerNotificationWarning();
+              setTrash([]);
+            } catch (error) {
+              console.error('Error emptying trash:', error);
+              triggerNotificationError();
+            }
+          },
+        },
+      ],
+    );
+  }, [trash.length, triggerNotificationWarning, triggerNotificationError]);
+
+  const openMoreMenu = useCallback(() => {
+    triggerImpactLight();
+    setActiveMenu('more');
+  }, [triggerImpactLight]);
+
+  const closeMenu = useCallback(() => setActiveMenu(null), []);
+
+  const menuOptions = useMemo(() => {
+    if (activeMenu === 'retention') {
+      return TRASH_RETENTION_OPTIONS.map(days => ({
+        key: String(days),
+        label: formatDays(days),
+        selected: days === retentionDays,
+        onPress: async () => {
+          setRetentionDays(days);
+          await setTrashRetentionDays(days);
+          await loadTrash();
+        },
+      }));
+    }
+
+    return [
+      {
+        key: 'retention',
+        label: 'Keep Deleted Recipes…',
+        onPress: () => setActiveMenu('retention'),
+      },
+      {
+        key: 'empty',
+        label: 'Empty Trash',
+        destructive: true,
+        onPress: handleEmptyTrash,
+      },
+    ];
+  }, [activeMenu, retentionDays, loadTrash, handleEmptyTrash]);
+
+  const headerRight = useCallback(
+    () => (
+      <Button
+        title="⋯"
+        variant="ghost"
+        size="small"
+        onPress={openMoreMenu}
+        hitSlop={{ top: 10, right: 10, bottom: 10, left: 10 }}
+        accessibilityLabel="Trash options"
+        accessibilityHint="Empty the trash or change how long recipes are kept"
+      />
+    ),
+    [openMoreMenu],
+  );
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ headerRight });
+  }, [navigation, headerRight]);
+
+  const renderItem = ({ item }: { item: TrashedRecipe }) => (
+    <TrashItem
+      recipe={item}
+      retentionDays={retentionDays}
+      onRestore={handleRestore}
+      onDeleteForever={handleDeleteForever}
+    />
+  );
+
+  const renderEmptyState = () => (
+    <View style={themedStyles.emptyContainer}>
+      <Text style={themedStyles.emptyTitle}>Trash is Empty</Text>
+      <Text style={themedStyles.emptySubtitle}>
+        Deleted recipes are kept here for {formatDays(retentionDays)}
+      </Text>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={themedStyles.container}>
+        <Text style={themedStyles.loadingText} accessibilityLiveRegion="polite">
+          Loading trash...
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={themedStyles.container}>
+      <FlatList
+        data={trash}
+        renderItem={renderItem}
+        keyExtractor={item => item.id}
+        contentContainerStyle={[
+          themedStyles.listContent,
+          trash.length === 0 && themedStyles.emptyListContent,
+        ]}
+        ListEmptyComponent={renderEmptyState}
+        showsVerticalScrollIndicator={false}
+        accessibilityRole="list"
+        accessibilityLabel={`Trash with ${trash.length} ${
+          trash.length === 1 ? 'recipe' : 'recipes'
+        }`}
+      />
+      <ActionMenu
+        visible={activeMenu !== null}
+        title={
+          activeMenu === 'retention' ? 'Keep Deleted Recipes For' : undefined
+        }
+        options={menuOptions}
+        onClose={closeMenu}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  item: {
+    marginHorizontal: 16,
+    marginVertical: 6,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  itemTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  itemMeta: {
+    fontSize: 14,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+});
+
+const createStyles = (colors: ReturnType<typeof useThemeColors>['colors']) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.secondary,
+    },
+    listContent: {
+      paddingVertical: 16,
+    },
+    emptyListContent: {
+      flexGrow: 1,
+    },
+    loadingText: {
+      fontSize: 16,
+      color: colors.darkGray,
+      textAlign: 'center',
+      marginTop: 32,
+    },
+    emptyContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      paddingHorizontal: 32,
+    },
+    emptyTitle: {
+      fontSize: 20,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 8,
+    },
+    emptySubtitle: {
+      fontSize: 16,
+      color: colors.darkGray,
+      textAlign: 'center',
+    },
+  });
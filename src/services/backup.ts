@@ -0,0 +1,324 @@
+import { Share } from 'react-native';
+import { Recipe, SerializableRecipe } from '../types/Recipe';
+import { getRecipes } from './storage';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import {
+  fromSerializableRecipe,
+  toSerializableRecipe,
+} from '../utils/recipeSerialization';
+import { MAX_TITLE_LENGTH } from '../constants';
+
+export const BACKUP_FORMAT = 'recipe-app-backup';
+export const BACKUP_VERSION = 1;
+
+export type BackupRecipe = SerializableRecipe & {
+  /** Device-local image URIs that were not embedded and won't resolve elsewhere */
+  localImages?: string[];
+};
+
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  recipeCount: number;
+  imagesEmbedded: boolean;
+  localImageCount: number;
+  recipes: BackupRecipe[];
+}
+
+export interface ExportOptions {
+  /** Inline local `file://` images as base64 data URIs */
+  embedImages?: boolean;
+}
+
+export interface ExportResult {
+  recipeCount: number;
+  localImageCount: number;
+  shared: boolean;
+}
+
+export interface ImportIssue {
+  /** Position of the recipe in the backup */
+  index: number;
+  title?: string;
+  message: string;
+}
+
+export interface ParsedBackup {
+  exportedAt?: string;
+  recipes: Recipe[];
+  issues: ImportIssue[];
+}
+
+const backupError = (message: string, operation: string): Error =>
+  new Error(`[Backup:${operation}] ${message}`);
+
+const LOCAL_URI_PREFIXES = [
+  'file://',
+  'content://',
+  'ph://',
+  'assets-library://',
+];
+
+export const isLocalImageUri = (uri: string): boolean =>
+  uri.startsWith('/') ||
+  LOCAL_URI_PREFIXES.some(prefix => uri.startsWith(prefix));
+
+/**
+ * Reads a local image into a data URI. Resolves to null when the file
+ * cannot be read so the caller can flag it instead.
+ */
+export const readImageAsDataUri = async (
+  uri: string,
+): Promise<string | null> => {
+  try {
+    const response = await fetch(uri);
+    const blob = await response.blob();
+
+    return await new Promise<string | null>(resolve => {
+      const reader = new FileReader();
+      reader.onloadend = () =>
+        resolve(typeof reader.result === 'string' ? reader.result : null);
+      reader.onerror = () => resolve(null);
+      reader.readAsDataURL(blob);
+    });
+  } catch (error) {
+    console.warn('Failed to embed image:', uri, error);
+    return null;
+  }
+};
+
+const collectImageUris = (recipe: Recipe): string[] => [
+  ...recipe.images,
+  ...(recipe.steps ?? []).flatMap(step => step.images ?? []),
+  ...(recipe.cookLog ?? []).flatMap(entry =>
+    entry.photo ? [entry.photo] : [],
+  ),
+];
+
+const toBackupRecipe = async (
+  recipe: Recipe,
+  embedImages: boolean,
+): Promise<BackupRecipe> => {
+  const replacements = new Map<string, string>();
+  const localImages: string[] = [];
+
+  for (const uri of collectImageUris(recipe)) {
+    if (!isLocalImageUri(uri) || replacements.has(uri)) {
+      continue;
+    }
+    const dataUri = embedImages ? await readImageAsDataUri(uri) : null;
+    if (dataUri) {
+      replacements.set(uri, dataUri);
+    } else if (!localImages.includes(uri)) {
+      localImages.push(uri);
+    }
+  }
+
+  const replace = (uri: string) => replacements.get(uri) ?? uri;
+  const serialized = toSerializableRecipe(recipe);
+  const backupRecipe: BackupRecipe = {
+    ...serialized,
+    images: serialized.images.map(replace),
+    steps: serialized.steps?.map(step =>
+      step.images ? { ...step, images: step.images.map(replace) } : step,
+    ),
+    cookLog: serialized.cookLog?.map(entry =>
+      entry.photo ? { ...entry, photo: replace(entry.photo) } : entry,
+    ),
+  };
+
+  if (localImages.length > 0) {
+    backupRecipe.localImages = localImages;
+  }
+
+  return backupRecipe;
+};
+
+export const createBackupBundle = async (
+  recipes: Recipe[],
+  { embedImages = false }: ExportOptions = {},
+): Promise<BackupBundle> => {
+  const backupRecipes: BackupRecipe[] = [];
+  for (const recipe of recipes) {
+    backupRecipes.push(await toBackupRecipe(recipe, embedImages));
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    recipeCount: backupRecipes.length,
+    imagesEmbedded: embedImages,
+    localImageCount: backupRecipes.reduce(
+      (count, recipe) => count + (recipe.localImages?.length ?? 0),
+      0,
+    ),
+    recipes: backupRecipes,
+  };
+};
+
+export const countLocalImages = (recipes: Recipe[]): number =>
+  recipes.reduce(
+    (count, recipe) =>
+      count + collectImageUris(recipe).filter(isLocalImageUri).length,
+    0,
+  );
+
+/**
+ * Builds a backup of every recipe and hands it to the system share sheet.
+ */
+export const exportRecipes = async (
+  options: ExportOptions = {},
+): Promise<ExportResult> => {
+  const recipes = await getRecipes();
+  if (recipes.length === 0) {
+    throw backupError('There are no recipes to export', 'export');
+  }
+
+  const bundle = await createBackupBundle(recipes, options);
+  const date = bundle.exportedAt.slice(0, 10);
+
+  const result = await Share.share(
+    {
+      title: `recipes-backup-${date}.json`,
+      message: JSON.stringify(bundle, null, 2),
+    },
+    { subject: `Recipe backup ${date}`, dialogTitle: 'Export Recipes' },
+  );
+
+  return {
+    recipeCount: bundle.recipeCount,
+    localImageCount: bundle.localImageCount,
+    shared: result.action !== Share.dismissedAction,
+  };
+};
+
+const isValidDateString = (value: unknown): value is string =>
+  typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+const validateBackupRecipe = (
+  value: unknown,
+  index: number,
+): { recipe: Recipe } | { issue: ImportIssue } => {
+  if (!value || typeof value !== 'object') {
+    return { issue: { index, message: 'Entry is not a recipe' } };
+  }
+
+  const candidate = value as Partial<BackupRecipe>;
+  const title =
+    typeof candidate.title === 'string' ? candidate.title.trim() : undefined;
+  const fail = (message: string) => ({
+    issue: { index, title: title || undefined, message },
+  });
+
+  if (typeof candidate.id !== 'string' || !candidate.id) {
+    return fail('Missing recipe ID');
+  }
+  if (!title) {
+    return fail('Missing title');
+  }
+  if (title.length > MAX_TITLE_LENGTH) {
+    return fail(`Title is longer than ${MAX_TITLE_LENGTH} characters`);
+  }
+  if (
+    candidate.description !== undefined &&
+    typeof candidate.description !== 'string'
+  ) {
+    return fail('Description must be text');
+  }
+  if (
+    !Array.isArray(candidate.images) ||
+    candidate.images.some(uri => typeof uri !== 'string')
+  ) {
+    return fail('Images must be a list of URIs');
+  }
+  if (!isValidDateString(candidate.createdAt)) {
+    return fail('Invalid creation date');
+  }
+  if (
+    candidate.updatedAt !== undefined &&
+    !isValidDateString(candidate.updatedAt)
+  ) {
+    return fail('Invalid update date');
+  }
+
+  // `localImages` is export metadata and is intentionally not carried over
+  return {
+    recipe: fromSerializableRecipe({
+      id: candidate.id,
+      title,
+      description: candidate.description ?? '',
+      images: candidate.images,
+      servings: candidate.servings,
+      prepMinutes: candidate.prepMinutes,
+      cookMinutes: candidate.cookMinutes,
+      ingredients: candidate.ingredients,
+      steps: candidate.steps,
+      tags: candidate.tags,
+      isFavorite: candidate.isFavorite,
+      rating: candidate.rating,
+      notes: candidate.notes,
+      cookLog: candidate.cookLog,
+      createdAt: candidate.createdAt,
+      updatedAt: candidate.updatedAt ?? candidate.createdAt,
+    }),
+  };
+};
+
+/**
+ * Validates an exported backup. Problems with the bundle as a whole throw;
+ * problems with individual recipes are reported in `issues` so the rest
+ * can still be imported.
+ */
+export const parseBackupBundle = (json: string): ParsedBackup => {
+  let data: Partial<BackupBundle>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw backupError('The backup is not valid JSON', 'import');
+  }
+
+  if (!data || typeof data !== 'object' || data.format !== BACKUP_FORMAT) {
+    throw backupError('This is not a recipe backup', 'import');
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw backupError(
+      'This backup was created by a newer version of the app',
+      'import',
+    );
+  }
+  if (!Array.isArray(data.recipes)) {
+    throw backupError('The backup contains no recipe list', 'import');
+  }
+
+  const recipes: Recipe[] = [];
+  const issues: ImportIssue[] = [];
+  const seenIds = new Set<string>();
+
+  data.recipes.forEach((value, index) => {
+    const result = validateBackupRecipe(value, index);
+    if ('issue' in result) {
+      issues.push(result.issue);
+    } else if (seenIds.has(result.recipe.id)) {
+      issues.push({
+        index,
+        title: result.recipe.title,
+        message: 'Duplicate recipe ID in backup',
+      });
+    } else {
+      seenIds.add(result.recipe.id);
+      recipes.push(result.recipe);
+    }
+  });
+
+  return {
+    exportedAt: isValidDateString(data.exportedAt)
+      ? data.exportedAt
+      : undefined,
+    recipes,
+    issues,
+  };
+};
@@ -0,0 +1,82 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { COOKING_PROGRESS_KEY } from '../constants';
+
+export interface CookingProgress {
+  stepIndex: number;
+  checkedIngredients: string[];
+}
+
+type ProgressMap = Record<string, CookingProgress>;
+
+const isProgress = (value: unknown): value is CookingProgress => {
+  const candidate = value as CookingProgress;
+  return (
+    !!candidate &&
+    typeof candidate === 'object' &&
+    Number.isInteger(candidate.stepIndex) &&
+    candidate.stepIndex >= 0 &&
+    Array.isArray(candidate.checkedIngredients)
+  );
+};
+
+const readProgress = async (): Promise<ProgressMap> => {
+  const json = await AsyncStorage.getItem(COOKING_PROGRESS_KEY);
+  const parsed = json ? JSON.parse(json) : {};
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+    ? parsed
+    : {};
+};
+
+/**
+ * Where the user left off cooking a recipe, or null if they haven't
+ * started it (or finished it).
+ */
+export const getCookingProgress = async (
+  recipeId: string,
+): Promise<CookingProgress | null> => {
+  try {
+    const progress = (await readProgress())[recipeId];
+    return isProgress(progress) ? progress : null;
+  } catch (error) {
+    console.warn('Failed to restore cooking progress:', error);
+    return null;
+  }
+};
+
+export const saveCookingProgress = async (
+  recipeId: string,
+  progress: CookingProgress,
+): Promise<void> => {
+  try {
+    const all = await readProgress();
+    await AsyncStorage.setItem(
+      COOKING_PROGRESS_KEY,
+      JSON.stringify({ ...all, [recipeId]: progress }),
+    );
+  } catch (error) {
+    console.warn('Failed to save cooking progress:', error);
+  }
+};
+
+export const clearCookingProgress = async (recipeId: string): Promise<void> =>
+  removeCookingProgress([recipeId]);
+
+/**
+ * Drops saved progress for recipes that are gone for good.
+ */
+export const removeCookingProgress = async (
+  recipeIds: string[],
+): Promise<void> => {
+  try {
+    const all = await readProgress();
+    const remaining = Object.fromEntries(
+      Object.entries(all).filter(([recipeId]) => !recipeIds.includes(recipeId)),
+    );
+    if (Object.keys(remaining).length === Object.keys(all).length) {
+      return;
+    }
+    await AsyncStorage.setItem(COOKING_PROGRESS_KEY, JSON.stringify(remaining));
+  } catch (error) {
+    console.warn('Failed to clear cooking progress:', error);
+  }
+};
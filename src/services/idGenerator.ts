@@ -0,0 +1,55 @@
+// Crockford's base32: no I, L, O or U, so IDs can't be misread
+const ENCODING = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const TIME_LENGTH = 10;
+const RANDOM_LENGTH = 16;
+
+let lastTime = -1;
+let lastRandom: number[] = [];
+
+const encodeTime = (time: number): string => {
+  let remaining = time;
+  let encoded = '';
+  for (let i = 0; i < TIME_LENGTH; i++) {
+    encoded = ENCODING[remaining % ENCODING.length] + encoded;
+    remaining = Math.floor(remaining / ENCODING.length);
+  }
+  return encoded;
+};
+
+const randomDigits = (): number[] =>
+  Array.from({ length: RANDOM_LENGTH }, () =>
+    Math.floor(Math.random() * ENCODING.length),
+  );
+
+// Adds one to the random part, carrying from the last digit
+const increment = (digits: number[]): number[] => {
+  const next = [...digits];
+  for (let i = next.length - 1; i >= 0; i--) {
+    if (next[i] < ENCODING.length - 1) {
+      next[i]++;
+      return next;
+    }
+    next[i] = 0;
+  }
+  return next;
+};
+
+/**
+ * Creates a ULID-style recipe ID: 10 characters of millisecond timestamp
+ * followed by 16 random ones, so IDs sort by creation time. IDs made in the
+ * same millisecond, or after the clock moves backwards, continue from the
+ * previous one instead of drawing new randomness, so they never repeat and
+ * keep their order.
+ */
+export const generateId = (now: number = Date.now()): string => {
+  if (now > lastTime) {
+    lastTime = now;
+    lastRandom = randomDigits();
+  } else {
+    lastRandom = increment(lastRandom);
+  }
+
+  return (
+    encodeTime(lastTime) + lastRandom.map(digit => ENCODING[digit]).join('')
+  );
+};
@@ -0,0 +1,59 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { KITCHEN_TIMERS_KEY } from '../constants';
+
+export interface KitchenTimer {
+  id: string;
+  label: string;
+  recipeId?: string;
+  /** Epoch milliseconds when the timer was started */
+  startedAt: number;
+  durationSeconds: number;
+}
+
+const isKitchenTimer = (value: unknown): value is KitchenTimer => {
+  const candidate = value as KitchenTimer;
+  return (
+    !!candidate &&
+    typeof candidate === 'object' &&
+    typeof candidate.id === 'string' &&
+    typeof candidate.label === 'string' &&
+    (candidate.recipeId === undefined ||
+      typeof candidate.recipeId === 'string') &&
+    Number.isFinite(candidate.startedAt) &&
+    Number.isFinite(candidate.durationSeconds) &&
+    candidate.durationSeconds > 0
+  );
+};
+
+/** Epoch milliseconds when the timer goes off */
+export const getTimerEndTime = (timer: KitchenTimer): number =>
+  timer.startedAt + timer.durationSeconds * 1000;
+
+/**
+ * Timers saved before the app was closed. Only start times and durations
+ * are stored, so time keeps counting while the app isn't running.
+ */
+export const getKitchenTimers = async (): Promise<KitchenTimer[]> => {
+  try {
+    const json = await AsyncStorage.getItem(KITCHEN_TIMERS_KEY);
+    const parsed = json ? JSON.parse(json) : [];
+    return Array.isArray(parsed) ? parsed.filter(isKitchenTimer) : [];
+  } catch (error) {
+    console.warn('Failed to restore kitchen timers:', error);
+    return [];
+  }
+};
+
+export const saveKitchenTimers = async (
+  timers: KitchenTimer[],
+): Promise<void> => {
+  try {
+    if (timers.length === 0) {
+      await AsyncStorage.removeItem(KITCHEN_TIMERS_KEY);
+    } else {
+      await AsyncStorage.setItem(KITCHEN_TIMERS_KEY, JSON.stringify(timers));
+    }
+  } catch (error) {
+    console.warn('Failed to save kitchen timers:', error);
+  }
+};
@@ -0,0 +1,85 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MealPlanEntry } from '../types/MealPlan';
+import { isMealSlot } from '../utils/mealPlan';
+import { MEAL_PLAN_KEY } from '../constants';
+
+const isMealPlanEntry = (value: unknown): value is MealPlanEntry => {
+  const candidate = value as MealPlanEntry;
+  return (
+    !!candidate &&
+    typeof candidate === 'object' &&
+    typeof candidate.date === 'string' &&
+    /^\d{4}-\d{2}-\d{2}$/.test(candidate.date) &&
+    isMealSlot(candidate.slot) &&
+    typeof candidate.recipeId === 'string'
+  );
+};
+
+export const getMealPlan = async (): Promise<MealPlanEntry[]> => {
+  try {
+    const json = await AsyncStorage.getItem(MEAL_PLAN_KEY);
+    const parsed = json ? JSON.parse(json) : [];
+    return Array.isArray(parsed) ? parsed.filter(isMealPlanEntry) : [];
+  } catch (error) {
+    console.warn('Failed to load meal plan:', error);
+    return [];
+  }
+};
+
+/**
+ * Saves the meal plan. Write errors are passed on so the caller can tell
+ * the user the plan wasn't saved.
+ */
+export const saveMealPlan = async (entries: MealPlanEntry[]): Promise<void> => {
+  await AsyncStorage.setItem(MEAL_PLAN_KEY, JSON.stringify(entries));
+};
+
+// Writes only when an entry actually changed, so deleting a recipe that
+// was never planned doesn't touch the plan.
+const updateMealPlan = async (
+  update: (entry: MealPlanEntry) => MealPlanEntry | null,
+): Promise<void> => {
+  const entries = await getMealPlan();
+  let changed = false;
+  const next = entries.flatMap(entry => {
+    const updated = update(entry);
+    changed = changed || updated !== entry;
+    return updated ? [updated] : [];
+  });
+
+  if (changed) {
+    await saveMealPlan(next);
+  }
+};
+
+/**
+ * Flags (or unflags) plan entries for recipes moved to (or restored from)
+ * the trash. The entries are kept so restoring a recipe puts it back in the
+ * plan.
+ */
+export const markMealPlanRecipesDeleted = async (
+  recipeIds: string[],
+  isDeleted: boolean,
+): Promise<void> =>
+  updateMealPlan(entry => {
+    if (
+      !recipeIds.includes(entry.recipeId) ||
+      !!entry.isRecipeDeleted === isDeleted
+    ) {
+      return entry;
+    }
+    if (isDeleted) {
+      return { ...entry, isRecipeDeleted: true };
+    }
+    const restored = { ...entry };
+    delete restored.isRecipeDeleted;
+    return restored;
+  });
+
+/**
+ * Removes plan entries for recipes that are gone for good.
+ */
+export const removeMealPlanRecipes = async (
+  recipeIds: string[],
+): Promise<void> =>
+  updateMealPlan(entry => (recipeIds.includes(entry.recipeId) ? null : entry));
@@ -0,0 +1,125 @@
+import { generateId } from './idGenerator';
+
+/**
+ * Versioned envelope persisted under the recipes storage key.
+ * Version 0 is the original format: a bare JSON array of recipes.
+ */
+export interface StoragePayload {
+  version: number;
+  recipes: unknown[];
+}
+
+export interface Migration {
+  /** Schema version this migration produces */
+  toVersion: number;
+  description: string;
+  migrate: (payload: StoragePayload) => StoragePayload;
+}
+
+export const migrationError = (message: string): Error =>
+  new Error(`[Storage:migrate] ${message}`);
+
+/**
+ * Keeps existing IDs, including the numeric ones older versions created
+ * from `Date.now()`, which are stored as strings from now on. Recipes
+ * without an ID, or sharing one with an earlier recipe, get a new one.
+ */
+const assignRecipeIds = (recipes: unknown[]): unknown[] => {
+  const seen = new Set<string>();
+  return recipes.map(recipe => {
+    if (!recipe || typeof recipe !== 'object') {
+      return recipe;
+    }
+    const { id } = recipe as { id?: unknown };
+    const existing =
+      typeof id === 'number' && Number.isFinite(id)
+        ? String(id)
+        : typeof id === 'string' && id.trim()
+        ? id
+        : undefined;
+    const unique = existing && !seen.has(existing) ? existing : generateId();
+    seen.add(unique);
+    return unique === id ? recipe : { ...recipe, id: unique };
+  });
+};
+
+/**
+ * Ordered registry of schema migrations. Append new entries with the next
+ * `toVersion`; never edit or reorder migrations that have already shipped.
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    toVersion: 1,
+    description: 'Wrap the bare recipe array in a versioned envelope',
+    migrate: payload => ({ version: 1, recipes: payload.recipes }),
+  },
+  {
+    toVersion: 2,
+    description: 'Give every recipe a unique string ID',
+    migrate: payload => ({
+      version: 2,
+      recipes: assignRecipeIds(payload.recipes),
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION =
+  MIGRATIONS[MIGRATIONS.length - 1].toVersion;
+
+/**
+ * Normalizes raw parsed JSON into an envelope, recognizing the legacy
+ * bare-array format. Throws when the data matches no known shape.
+ */
+export const toStoragePayload = (data: unknown): StoragePayload => {
+  if (Array.isArray(data)) {
+    return { version: 0, recipes: data };
+  }
+
+  if (
+    data &&
+    typeof data === 'object' &&
+    Number.isInteger((data as StoragePayload).version) &&
+    Array.isArray((data as StoragePayload).recipes)
+  ) {
+    return data as StoragePayload;
+  }
+
+  throw migrationError('Unrecognized storage payload');
+};
+
+/**
+ * Runs every migration newer than the payload's version, in order.
+ * `migrated` tells the caller whether the upgraded payload must be persisted.
+ */
+export const migratePayload = (
+  payload: StoragePayload,
+  migrations: readonly Migration[] = MIGRATIONS,
+): { payload: StoragePayload; migrated: boolean } => {
+  const targetVersion = migrations.length
+    ? migrations[migrations.length - 1].toVersion
+    : 0;
+
+  if (payload.version > targetVersion) {
+    throw migrationError(
+      `Payload version ${payload.version} is newer than supported version ${targetVersion}`,
+    );
+  }
+
+  let current = payload;
+  for (const migration of migrations) {
+    if (migration.toVersion <= current.version) {
+      continue;
+    }
+    if (migration.toVersion !== current.version + 1) {
+      throw migrationError(
+        `Missing migration from version ${current.version} to ${
+          current.version + 1
+        }`,
+      );
+    }
+    current = migration.migrate(current);
+    current = { ...current, version: migration.toVersion };
+  }
+
+  return { payload: current, migrated: current.version !== payload.version };
+};
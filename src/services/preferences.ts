@@ -0,0 +1,94 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  CONFIRM_DELETE_KEY,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  SORT_ORDER_KEY,
+  TRASH_RETENTION_KEY,
+  UNIT_PREFERENCE_KEY,
+} from '../constants';
+import {
+  DEFAULT_SORT_ORDER,
+  SortOrder,
+  isSortOrder,
+} from '../utils/recipeSort';
+import {
+  DEFAULT_UNIT_PREFERENCE,
+  UnitPreference,
+  isUnitPreference,
+} from '../utils/units';
+
+export const getSortOrder = async (): Promise<SortOrder> => {
+  try {
+    const value = await AsyncStorage.getItem(SORT_ORDER_KEY);
+    return isSortOrder(value) ? value : DEFAULT_SORT_ORDER;
+  } catch (error) {
+    console.warn('Failed to restore sort order:', error);
+    return DEFAULT_SORT_ORDER;
+  }
+};
+
+export const setSortOrder = async (order: SortOrder): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(SORT_ORDER_KEY, order);
+  } catch (error) {
+    console.warn('Failed to save sort order:', error);
+  }
+};
+
+export const getTrashRetentionDays = async (): Promise<number> => {
+  try {
+    const value = Number(await AsyncStorage.getItem(TRASH_RETENTION_KEY));
+    return Number.isInteger(value) && value > 0
+      ? value
+      : DEFAULT_TRASH_RETENTION_DAYS;
+  } catch (error) {
+    console.warn('Failed to restore trash retention:', error);
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+};
+
+export const setTrashRetentionDays = async (days: number): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(TRASH_RETENTION_KEY, String(days));
+  } catch (error) {
+    console.warn('Failed to save trash retention:', error);
+  }
+};
+
+/** Whether swiping to delete asks for confirmation. Defaults to true. */
+export const getConfirmDelete = async (): Promise<boolean> => {
+  try {
+    return (await AsyncStorage.getItem(CONFIRM_DELETE_KEY)) !== 'false';
+  } catch (error) {
+    console.warn('Failed to restore delete confirmation setting:', error);
+    return true;
+  }
+};
+
+export const setConfirmDelete = async (enabled: boolean): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(CONFIRM_DELETE_KEY, String(enabled));
+  } catch (error) {
+    console.warn('Failed to save delete confirmation setting:', error);
+  }
+};
+
+export const getUnitPreference = async (): Promise<UnitPreference> => {
+  try {
+    const value = await AsyncStorage.getItem(UNIT_PREFERENCE_KEY);
+    return isUnitPreference(value) ? value : DEFAULT_UNIT_PREFERENCE;
+  } catch (error) {
+    console.warn('Failed to restore unit preference:', error);
+    return DEFAULT_UNIT_PREFERENCE;
+  }
+};
+
+export const setUnitPreference = async (
+  preference: UnitPreference,
+): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(UNIT_PREFERENCE_KEY, preference);
+  } catch (error) {
+    console.warn('Failed to save unit preference:', error);
+  }
+};
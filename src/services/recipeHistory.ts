@@ -0,0 +1,81 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Recipe } from '../types/Recipe';
+import { RecipeRevision } from '../types/RecipeHistory';
+import { toRecipeSnapshot } from '../utils/recipeHistory';
+import { createLocalId } from '../utils/listUtils';
+import { MAX_RECIPE_REVISIONS, RECIPE_HISTORY_KEY } from '../constants';
+
+const isRecipeRevision = (value: unknown): value is RecipeRevision => {
+  const candidate = value as RecipeRevision;
+  return (
+    !!candidate &&
+    typeof candidate === 'object' &&
+    typeof candidate.id === 'string' &&
+    typeof candidate.recipeId === 'string' &&
+    typeof candidate.savedAt === 'string' &&
+    !!candidate.snapshot &&
+    typeof candidate.snapshot === 'object'
+  );
+};
+
+const readHistory = async (): Promise<RecipeRevision[]> => {
+  try {
+    const json = await AsyncStorage.getItem(RECIPE_HISTORY_KEY);
+    const parsed = json ? JSON.parse(json) : [];
+    return Array.isArray(parsed) ? parsed.filter(isRecipeRevision) : [];
+  } catch (error) {
+    console.warn('Failed to load recipe history:', error);
+    return [];
+  }
+};
+
+// Write errors are passed on: an edit whose earlier version can't be kept
+// shouldn't look like it succeeded
+const writeHistory = async (revisions: RecipeRevision[]): Promise<void> => {
+  await AsyncStorage.setItem(RECIPE_HISTORY_KEY, JSON.stringify(revisions));
+};
+
+/**
+ * Earlier versions of a recipe, most recent first. The current version is
+ * the recipe itself and isn't included.
+ */
+export const getRecipeHistory = async (
+  recipeId: string,
+): Promise<RecipeRevision[]> =>
+  (await readHistory())
+    .filter(revision => revision.recipeId === recipeId)
+    .reverse();
+
+/**
+ * Keeps `recipe` as an earlier version before an edit replaces it, dropping
+ * the recipe's oldest versions beyond MAX_RECIPE_REVISIONS.
+ */
+export const recordRevision = async (recipe: Recipe): Promise<void> => {
+  const history = await readHistory();
+  const revision: RecipeRevision = {
+    id: createLocalId(),
+    recipeId: recipe.id,
+    savedAt: recipe.updatedAt.toISOString(),
+    snapshot: toRecipeSnapshot(recipe),
+  };
+
+  const own = history.filter(r => r.recipeId === recipe.id);
+  const dropped = new Set(
+    own.slice(0, Math.max(0, own.length + 1 - MAX_RECIPE_REVISIONS)),
+  );
+
+  await writeHistory([...history.filter(r => !dropped.has(r)), revision]);
+};
+
+/**
+ * Removes every version of recipes that are gone for good.
+ */
+export const removeRecipeHistory = async (
+  recipeIds: string[],
+): Promise<void> => {
+  const history = await readHistory();
+  const remaining = history.filter(r => !recipeIds.includes(r.recipeId));
+  if (remaining.length < history.length) {
+    await writeHistory(remaining);
+  }
+};
@@ -0,0 +1,64 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Recipe } from '../types/Recipe';
+import { AisleCategory, ShoppingListItem } from '../types/ShoppingList';
+import {
+  AISLE_CATEGORIES,
+  addToShoppingList,
+  getShoppingIngredients,
+} from '../utils/shoppingList';
+import { SHOPPING_LIST_KEY } from '../constants';
+
+const isAisleCategory = (value: unknown): value is AisleCategory =>
+  AISLE_CATEGORIES.some(category => category.value === value);
+
+const isShoppingListItem = (value: unknown): value is ShoppingListItem => {
+  const candidate = value as ShoppingListItem;
+  return (
+    !!candidate &&
+    typeof candidate === 'object' &&
+    typeof candidate.id === 'string' &&
+    typeof candidate.name === 'string' &&
+    typeof candidate.quantity === 'string' &&
+    typeof candidate.unit === 'string' &&
+    isAisleCategory(candidate.category) &&
+    typeof candidate.checked === 'boolean' &&
+    Array.isArray(candidate.recipeIds)
+  );
+};
+
+export const getShoppingList = async (): Promise<ShoppingListItem[]> => {
+  try {
+    const json = await AsyncStorage.getItem(SHOPPING_LIST_KEY);
+    const parsed = json ? JSON.parse(json) : [];
+    return Array.isArray(parsed) ? parsed.filter(isShoppingListItem) : [];
+  } catch (error) {
+    console.warn('Failed to load shopping list:', error);
+    return [];
+  }
+};
+
+/**
+ * Saves the shopping list. Write errors are passed on so the caller can
+ * tell the user the list wasn't saved.
+ */
+export const saveShoppingList = async (
+  items: ShoppingListItem[],
+): Promise<void> => {
+  await AsyncStorage.setItem(SHOPPING_LIST_KEY, JSON.stringify(items));
+};
+
+/**
+ * Adds every ingredient of the given recipes to the saved shopping list,
+ * merging ones that are already on it. Returns the updated list.
+ */
+export const addRecipesToShoppingList = async (
+  recipes: Recipe[],
+): Promise<ShoppingListItem[]> => {
+  const items = recipes.reduce(
+    (list, recipe) =>
+      addToShoppingList(list, getShoppingIngredients(recipe), recipe.id),
+    await getShoppingList(),
+  );
+  await saveShoppingList(items);
+  return items;
+};
@@ -1,8 +1,39 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Recipe } from '../types/Recipe';
+import {
+  CookLogEntry,
+  Ingredient,
+  Recipe,
+  RecipeNote,
+  RecipeStep,
+  TrashedRecipe,
+} from '../types/Recipe';
 import { CACHE_TIMEOUT } from '../constants';
+import { createLocalId } from '../utils/listUtils';
+import { TagCount, countTags, normalizeTags } from '../utils/tagUtils';
+import { isValidRating } from '../utils/ratingUtils';
+import { omitDerivedFields } from '../utils/recipeSerialization';
+import { applySnapshot, hasTrackedChanges } from '../utils/recipeHistory';
+import { removeCookingProgress } from './cookingProgress';
+import { markMealPlanRecipesDeleted, removeMealPlanRecipes } from './mealPlan';
+import { generateId } from './idGenerator';
+import {
+  getRecipeHistory,
+  recordRevision,
+  removeRecipeHistory,
+} from './recipeHistory';
+import {
+  CURRENT_SCHEMA_VERSION,
+  StoragePayload,
+  migratePayload,
+  toStoragePayload,
+} from './migrations';
 
 const RECIPES_STORAGE_KEY = '@recipes';
+const RECIPES_BACKUP_KEY = '@recipes_corrupt_backup';
+const TRASH_STORAGE_KEY = '@recipes_trash';
+const TRASH_BACKUP_KEY = '@recipes_trash_corrupt_backup';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 const storageError = (message: string, operation: string): Error =>
   new Error(`[Storage:${operation}] ${message}`);
@@ -12,6 +43,13 @@ let cache: { data: Recipe[] | null; timestamp: number } = {
   timestamp: 0,
 };
 
+// Tag counts derived from a specific recipe array; rebuilt when the cached
+// recipes are replaced by a read or write.
+let tagIndex: { source: Recipe[] | null; counts: TagCount[] } = {
+  source: null,
+  counts: [],
+};
+
 let mutexPromise = Promise.resolve();
 
 const withMutex = <T>(fn: () => Promise<T>): Promise<T> => {
@@ -31,40 +69,273 @@ const parseDate = (value: unknown): Date => {
   return isNaN(parsed.getTime()) ? new Date() : parsed;
 };
 
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.length > 0 ? value : undefined;
+
+// Recipes saved before ingredients existed have no `ingredients` field;
+// leave it undefined for them and drop malformed rows otherwise.
+const parseIngredients = (value: unknown): Ingredient[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  return value
+    .filter(
+      (item): item is Ingredient =>
+        !!item && typeof item === 'object' && typeof item.name === 'string',
+    )
+    .map((item, index) => {
+      const ingredient: Ingredient = {
+        id: optionalString(item.id) ?? `ingredient-${index}`,
+        quantity: typeof item.quantity === 'string' ? item.quantity : '',
+        unit: typeof item.unit === 'string' ? item.unit : '',
+        name: item.name,
+      };
+      const note = optionalString(item.note);
+      const group = optionalString(item.group);
+      if (note) {
+        ingredient.note = note;
+      }
+      if (group) {
+        ingredient.group = group;
+      }
+      return ingredient;
+    });
+};
+
+const parseSteps = (value: unknown): RecipeStep[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  return value
+    .filter(
+      (item): item is RecipeStep =>
+        !!item && typeof item === 'object' && typeof item.text === 'string',
+    )
+    .map((item, index) => {
+      const step: RecipeStep = {
+        id: optionalString(item.id) ?? `step-${index}`,
+        text: item.text,
+      };
+      if (
+        typeof item.durationMinutes === 'number' &&
+        item.durationMinutes > 0
+      ) {
+        step.durationMinutes = item.durationMinutes;
+      }
+      if (Array.isArray(item.images)) {
+        const images = item.images.filter(
+          (uri): uri is string => typeof uri === 'string',
+        );
+        if (images.length > 0) {
+          step.images = images;
+        }
+      }
+      return step;
+    });
+};
+
+const parseTags = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  return normalizeTags(
+    value.filter((tag): tag is string => typeof tag === 'string'),
+  );
+};
+
+// Notes keep their stored order; entries without text or a readable date
+// are dropped.
+const parseNotes = (value: unknown): RecipeNote[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  return value
+    .filter(
+      (item): item is RecipeNote =>
+        !!item &&
+        typeof item === 'object' &&
+        typeof item.text === 'string' &&
+        item.text.trim().length > 0 &&
+        isValidDateString(item.createdAt),
+    )
+    .map((item, index) => ({
+      id: optionalString(item.id) ?? `note-${index}`,
+      text: item.text,
+      createdAt: item.createdAt,
+    }));
+};
+
+const isValidDateString = (value: unknown): value is string =>
+  typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+const parseCookLog = (value: unknown): CookLogEntry[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  return value
+    .filter(
+      (item): item is CookLogEntry =>
+        !!item && typeof item === 'object' && isValidDateString(item.cookedAt),
+    )
+    .map((item, index) => {
+      const entry: CookLogEntry = {
+        id: optionalString(item.id) ?? `cook-${index}`,
+        cookedAt: item.cookedAt,
+      };
+      if (isValidRating(item.rating)) {
+        entry.rating = item.rating;
+      }
+      const photo = optionalString(item.photo);
+      if (photo) {
+        entry.photo = photo;
+      }
+      return entry;
+    });
+};
+
+// timesCooked and lastCookedAt are worked out from the cook log whenever
+// recipes are read or cached, so they can't drift from it
+const withCookStats = (recipe: Recipe): Recipe => {
+  const base: Recipe = omitDerivedFields(recipe);
+  const cookLog = recipe.cookLog ?? [];
+  if (cookLog.length === 0) {
+    return base;
+  }
+  return {
+    ...base,
+    timesCooked: cookLog.length,
+    lastCookedAt: new Date(
+      Math.max(...cookLog.map(entry => new Date(entry.cookedAt).getTime())),
+    ),
+  };
+};
+
+const parsePositiveInteger = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0
+    ? value
+    : undefined;
+
+const deserializeRecipe = (recipe: Recipe): Recipe =>
+  withCookStats({
+    ...recipe,
+    servings: parsePositiveInteger(recipe.servings),
+    prepMinutes: parsePositiveInteger(recipe.prepMinutes),
+    cookMinutes: parsePositiveInteger(recipe.cookMinutes),
+    ingredients: parseIngredients(recipe.ingredients),
+    steps: parseSteps(recipe.steps),
+    tags: parseTags(recipe.tags),
+    isFavorite: recipe.isFavorite === true ? true : undefined,
+    rating: isValidRating(recipe.rating) ? recipe.rating : undefined,
+    notes: parseNotes(recipe.notes),
+    cookLog: parseCookLog(recipe.cookLog),
+    createdAt: parseDate(recipe.createdAt),
+    updatedAt: recipe.updatedAt ? parseDate(recipe.updatedAt) : new Date(),
+  });
+
+const serializeRecipe = (recipe: Recipe) => ({
+  ...omitDerivedFields(recipe),
+  createdAt: recipe.createdAt?.toISOString(),
+  updatedAt: recipe.updatedAt?.toISOString(),
+});
+
+// Keeps an unreadable payload under its own timestamped backup key instead
+// of discarding it, then clears the main key so the app can start from an
+// empty list. Earlier backups are never overwritten. Resolves to false when
+// the backup could not be made and the payload is still in place.
+const quarantinePayload = async (
+  key: string,
+  backupKey: string,
+  json: string,
+  error: unknown,
+): Promise<boolean> => {
+  const quarantinedAt = new Date().toISOString();
+  try {
+    await AsyncStorage.setItem(
+      `${backupKey}:${quarantinedAt}`,
+      JSON.stringify({
+        quarantinedAt,
+        reason: error instanceof Error ? error.message : String(error),
+        payload: json,
+      }),
+    );
+    await AsyncStorage.removeItem(key);
+    return true;
+  } catch (backupError) {
+    console.error('Storage quarantine error:', backupError);
+    return false;
+  }
+};
+
 const readFromStorage = async (): Promise<Recipe[]> => {
+  let json: string | null;
   try {
-    const json = await AsyncStorage.getItem(RECIPES_STORAGE_KEY);
-    if (!json) {
-      return [];
-    }
+    json = await AsyncStorage.getItem(RECIPES_STORAGE_KEY);
+  } catch (error) {
+    console.error('Storage read error:', error);
+    return [];
+  }
 
-    const data = JSON.parse(json);
-    if (!Array.isArray(data)) {
-      return [];
-    }
+  if (!json) {
+    return [];
+  }
 
-    // Convert dates during deserialization
-    return data.map((recipe: Recipe) => ({
-      ...recipe,
-      createdAt: parseDate(recipe.createdAt),
-      updatedAt: recipe.updatedAt ? parseDate(recipe.updatedAt) : new Date(),
-    }));
+  let stored: StoragePayload;
+  try {
+    stored = toStoragePayload(JSON.parse(json));
   } catch (error) {
     console.error('Storage read error:', error);
+    await quarantinePayload(
+      RECIPES_STORAGE_KEY,
+      RECIPES_BACKUP_KEY,
+      json,
+      error,
+    );
     return [];
   }
+
+  // Readable data this build can't migrate, such as a schema written by a
+  // newer version of the app, stays where it is. Reading fails instead of
+  // returning an empty list, so no later save can write over it.
+  let result: ReturnType<typeof migratePayload>;
+  try {
+    result = migratePayload(stored);
+  } catch (error) {
+    console.error('Storage migration error:', error);
+    throw error;
+  }
+
+  const { migrated } = result;
+  const recipes = result.payload.recipes
+    .filter(
+      (recipe): recipe is Recipe => !!recipe && typeof recipe === 'object',
+    )
+    .map(deserializeRecipe);
+
+  // Persist upgraded payloads so migrations only run once
+  if (migrated) {
+    try {
+      await writeToStorage(recipes);
+    } catch (error) {
+      console.error('Storage migration write error:', error);
+    }
+  }
+
+  return recipes;
 };
 
 const writeToStorage = async (recipes: Recipe[]): Promise<void> => {
-  const serialized = recipes.map(recipe => ({
-    ...recipe,
-    createdAt: recipe.createdAt?.toISOString(),
-    updatedAt: recipe.updatedAt?.toISOString(),
-  }));
+  const payload: StoragePayload = {
+    version: CURRENT_SCHEMA_VERSION,
+    recipes: recipes.map(serializeRecipe),
+  };
 
-  await AsyncStorage.setItem(RECIPES_STORAGE_KEY, JSON.stringify(serialized));
+  await AsyncStorage.setItem(RECIPES_STORAGE_KEY, JSON.stringify(payload));
 
-  cache = { data: recipes, timestamp: Date.now() };
+  cache = { data: recipes.map(withCookStats), timestamp: Date.now() };
 };
 
 export const getRecipes = async (): Promise<Recipe[]> => {
@@ -79,6 +350,25 @@ export const getRecipes = async (): Promise<Recipe[]> => {
   });
 };
 
+export const getRecipeById = async (
+  recipeId: string,
+): Promise<Recipe | undefined> => {
+  const recipes = await getRecipes();
+  return recipes.find(recipe => recipe.id === recipeId);
+};
+
+/**
+ * Returns every tag in use with the number of recipes carrying it, most
+ * used first. Counts are cached until the recipe list changes.
+ */
+export const getAllTags = async (): Promise<TagCount[]> => {
+  const recipes = await getRecipes();
+  if (tagIndex.source !== recipes) {
+    tagIndex = { source: recipes, counts: countTags(recipes) };
+  }
+  return tagIndex.counts;
+};
+
 export const saveRecipe = async (recipe: Recipe): Promise<void> => {
   if (!recipe.id) {
     throw storageError('Recipe must have an ID', 'save');
@@ -102,6 +392,10 @@ export const saveRecipe = async (recipe: Recipe): Promise<void> => {
   });
 };
 
+/**
+ * Saves changes to an existing recipe. When its edited content changes the
+ * previous version is kept in the recipe's history.
+ */
 export const updateRecipe = async (recipe: Recipe): Promise<void> => {
   if (!recipe.id) {
     throw storageError('Recipe must have an ID', 'update');
@@ -122,10 +416,200 @@ export const updateRecipe = async (recipe: Recipe): Promise<void> => {
       updatedAt: new Date(),
     };
 
+    // Recorded first: if the history can't be saved, the edit isn't either
+    if (hasTrackedChanges(recipes[index], updated[index])) {
+      await recordRevision(recipes[index]);
+    }
+    await writeToStorage(updated);
+  });
+};
+
+/**
+ * Brings back an earlier version of a recipe. This is saved as a new edit,
+ * so the version being replaced joins the history and nothing is lost.
+ * Rating, notes and cook history are kept as they are.
+ */
+export const revertRecipe = async (
+  recipeId: string,
+  revisionId: string,
+): Promise<Recipe> => {
+  if (!recipeId) {
+    throw storageError('Recipe ID required', 'revert');
+  }
+
+  return withMutex(async () => {
+    const recipes = await readFromStorage();
+    const index = recipes.findIndex(r => r.id === recipeId);
+
+    if (index === -1) {
+      throw storageError(`Recipe ${recipeId} not found`, 'revert');
+    }
+
+    const revision = (await getRecipeHistory(recipeId)).find(
+      r => r.id === revisionId,
+    );
+    if (!revision) {
+      throw storageError(`Revision ${revisionId} not found`, 'revert');
+    }
+
+    const current = recipes[index];
+    const reverted = deserializeRecipe({
+      ...applySnapshot(current, revision.snapshot),
+      updatedAt: new Date(),
+    });
+
+    const updated = [...recipes];
+    updated[index] = reverted;
+    if (hasTrackedChanges(current, reverted)) {
+      await recordRevision(current);
+    }
+    await writeToStorage(updated);
+    return reverted;
+  });
+};
+
+/** Recipe fields that mark how a recipe is used rather than its content */
+export type RecipeMetadata = Pick<Recipe, 'isFavorite' | 'rating' | 'notes'>;
+
+/**
+ * Changes a recipe's metadata: its favorite flag, rating or notes. This isn't an
+ * edit: `updatedAt` and the version history are left alone. Returns the
+ * updated recipe.
+ */
+export const updateRecipeMetadata = async (
+  recipeId: string,
+  changes: Partial<RecipeMetadata>,
+): Promise<Recipe> => {
+  if (!recipeId) {
+    throw storageError('Recipe ID required', 'update');
+  }
+
+  return withMutex(async () => {
+    const recipes = await readFromStorage();
+    const index = recipes.findIndex(r => r.id === recipeId);
+
+    if (index === -1) {
+      throw storageError(`Recipe ${recipeId} not found`, 'update');
+    }
+
+    const updated = [...recipes];
+    updated[index] = deserializeRecipe({ ...recipes[index], ...changes });
+
+    await writeToStorage(updated);
+    return updated[index];
+  });
+};
+
+export interface CookDetails {
+  rating?: number;
+  photo?: string;
+}
+
+/**
+ * Adds an entry to a recipe's cook log. Cooking a recipe isn't an edit, so
+ * `updatedAt` is left alone. Returns the recipe with its new cook stats.
+ */
+export const logCook = async (
+  recipeId: string,
+  { rating, photo }: CookDetails = {},
+  cookedAt: Date = new Date(),
+): Promise<Recipe> => {
+  if (!recipeId) {
+    throw storageError('Recipe ID required', 'cook');
+  }
+
+  return withMutex(async () => {
+    const recipes = await readFromStorage();
+    const index = recipes.findIndex(r => r.id === recipeId);
+
+    if (index === -1) {
+      throw storageError(`Recipe ${recipeId} not found`, 'cook');
+    }
+
+    const entry: CookLogEntry = {
+      id: createLocalId(),
+      cookedAt: cookedAt.toISOString(),
+    };
+    if (isValidRating(rating)) {
+      entry.rating = rating;
+    }
+    if (photo) {
+      entry.photo = photo;
+    }
+
+    const updated = [...recipes];
+    updated[index] = withCookStats({
+      ...recipes[index],
+      cookLog: [...(recipes[index].cookLog ?? []), entry],
+    });
+
     await writeToStorage(updated);
+    return updated[index];
   });
 };
 
+// Read failures propagate rather than looking like an empty trash, which
+// the next trash write would save over. An unreadable payload is moved to a
+// backup key first; if that fails too, the read fails and it stays put.
+const readTrash = async (): Promise<TrashedRecipe[]> => {
+  const json = await AsyncStorage.getItem(TRASH_STORAGE_KEY);
+  if (!json) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Trash payload is not a list');
+    }
+  } catch (error) {
+    console.error('Trash read error:', error);
+    if (
+      await quarantinePayload(TRASH_STORAGE_KEY, TRASH_BACKUP_KEY, json, error)
+    ) {
+      return [];
+    }
+    throw storageError('Trash could not be read', 'trash');
+  }
+
+  return parsed
+    .filter(
+      (recipe): recipe is TrashedRecipe =>
+        !!recipe && typeof recipe === 'object',
+    )
+    .map(recipe => ({
+      ...deserializeRecipe(recipe),
+      deletedAt: parseDate(recipe.deletedAt),
+    }));
+};
+
+const writeTrash = async (trash: TrashedRecipe[]): Promise<void> => {
+  const serialized = trash.map(recipe => ({
+    ...serializeRecipe(recipe),
+    deletedAt: recipe.deletedAt.toISOString(),
+  }));
+
+  await AsyncStorage.setItem(TRASH_STORAGE_KEY, JSON.stringify(serialized));
+};
+
+// Meal plan entries are flagged once the recipe change is stored, so a
+// failure here is logged rather than reported as a failed delete or restore
+const flagMealPlanRecipes = async (
+  recipeIds: string[],
+  isDeleted: boolean,
+): Promise<void> => {
+  try {
+    await markMealPlanRecipesDeleted(recipeIds, isDeleted);
+  } catch (error) {
+    console.error('Meal plan update error:', error);
+  }
+};
+
+/**
+ * Moves a recipe to the trash. It can be brought back with `restoreRecipe`
+ * until it is purged. Meal plan entries for it are flagged, not removed.
+ */
 export const deleteRecipe = async (recipeId: string): Promise<void> => {
   if (!recipeId) {
     throw storageError('Recipe ID required', 'delete');
@@ -133,16 +617,214 @@ export const deleteRecipe = async (recipeId: string): Promise<void> => {
 
   return withMutex(async () => {
     const recipes = await readFromStorage();
-    const filtered = recipes.filter(r => r.id !== recipeId);
+    const recipe = recipes.find(r => r.id === recipeId);
 
-    if (filtered.length === recipes.length) {
+    if (!recipe) {
       throw storageError(`Recipe ${recipeId} not found`, 'delete');
     }
 
-    await writeToStorage(filtered);
+    // Write the trash first so a failure in between never loses the recipe
+    const trash = await readTrash();
+    await writeTrash([
+      ...trash.filter(r => r.id !== recipeId),
+      { ...recipe, deletedAt: new Date() },
+    ]);
+    await writeToStorage(recipes.filter(r => r.id !== recipeId));
+    await flagMealPlanRecipes([recipeId], true);
+  });
+};
+
+/**
+ * Returns trashed recipes, most recently deleted first.
+ */
+export const getTrash = async (): Promise<TrashedRecipe[]> =>
+  withMutex(async () => {
+    const trash = await readTrash();
+    return trash.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  });
+
+/**
+ * Moves a recipe out of the trash, keeping its original ID and timestamps.
+ */
+export const restoreRecipe = async (recipeId: string): Promise<Recipe> => {
+  if (!recipeId) {
+    throw storageError('Recipe ID required', 'restore');
+  }
+
+  return withMutex(async () => {
+    const trash = await readTrash();
+    const trashed = trash.find(r => r.id === recipeId);
+
+    if (!trashed) {
+      throw storageError(`Recipe ${recipeId} is not in the trash`, 'restore');
+    }
+
+    const recipes = await readFromStorage();
+    if (recipes.some(r => r.id === recipeId)) {
+      throw storageError(`Recipe ${recipeId} already exists`, 'restore');
+    }
+
+    const restored: Partial<TrashedRecipe> = { ...trashed };
+    delete restored.deletedAt;
+    const recipe = restored as Recipe;
+
+    await writeToStorage([...recipes, recipe]);
+    await writeTrash(trash.filter(r => r.id !== recipeId));
+    await flagMealPlanRecipes([recipeId], false);
+    return recipe;
+  });
+};
+
+/**
+ * Permanently removes a recipe from the trash, along with its meal plan
+ * entries, history and saved cooking progress.
+ */
+export const purgeRecipe = async (recipeId: string): Promise<void> => {
+  if (!recipeId) {
+    throw storageError('Recipe ID required', 'purge');
+  }
+
+  return withMutex(async () => {
+    const trash = await readTrash();
+    const remaining = trash.filter(r => r.id !== recipeId);
+
+    if (remaining.length === trash.length) {
+      throw storageError(`Recipe ${recipeId} is not in the trash`, 'purge');
+    }
+
+    await writeTrash(remaining);
+    await removeMealPlanRecipes([recipeId]);
+    await removeRecipeHistory([recipeId]);
+    await removeCookingProgress([recipeId]);
+  });
+};
+
+export const emptyTrash = async (): Promise<void> =>
+  withMutex(async () => {
+    const trash = await readTrash();
+    await AsyncStorage.removeItem(TRASH_STORAGE_KEY);
+    await removeMealPlanRecipes(trash.map(r => r.id));
+    await removeRecipeHistory(trash.map(r => r.id));
+    await removeCookingProgress(trash.map(r => r.id));
+  });
+
+/**
+ * Purges recipes deleted more than `retentionDays` ago.
+ * Returns the number of recipes removed.
+ */
+export const purgeExpiredTrash = async (
+  retentionDays: number,
+  now: Date = new Date(),
+): Promise<number> =>
+  withMutex(async () => {
+    const trash = await readTrash();
+    const cutoff = now.getTime() - retentionDays * DAY_MS;
+    const remaining = trash.filter(r => r.deletedAt.getTime() > cutoff);
+
+    if (remaining.length < trash.length) {
+      const expiredIds = trash
+        .filter(r => !remaining.includes(r))
+        .map(r => r.id);
+      await writeTrash(remaining);
+      await removeMealPlanRecipes(expiredIds);
+      await removeRecipeHistory(expiredIds);
+      await removeCookingProgress(expiredIds);
+    }
+    return trash.length - remaining.length;
+  });
+
+export type ConflictResolution = 'skip' | 'overwrite' | 'keepBoth';
+
+export interface ImportSummary {
+  added: number;
+  overwritten: number;
+  keptBoth: number;
+  skipped: number;
+}
+
+/**
+ * Adds imported recipes in a single write. `resolutions` decides what
+ * happens to recipes whose ID already exists, live or in the trash, per
+ * recipe ID, falling back to `defaultResolution`. Overwriting a trashed
+ * recipe takes it out of the trash, since restoring it would clash.
+ */
+export const importRecipes = async (
+  incoming: Recipe[],
+  resolutions: Record<string, ConflictResolution> = {},
+  defaultResolution: ConflictResolution = 'skip',
+): Promise<ImportSummary> => {
+  if (incoming.some(recipe => !recipe.id)) {
+    throw storageError('Every imported recipe must have an ID', 'import');
+  }
+
+  return withMutex(async () => {
+    const recipes = await readFromStorage();
+    const trash = await readTrash();
+    const updated = [...recipes];
+    const summary: ImportSummary = {
+      added: 0,
+      overwritten: 0,
+      keptBoth: 0,
+      skipped: 0,
+    };
+    const overwritten: Recipe[] = [];
+    const restoredIds: string[] = [];
+
+    incoming.map(deserializeRecipe).forEach(recipe => {
+      const index = updated.findIndex(r => r.id === recipe.id);
+      const trashed = trash.find(r => r.id === recipe.id);
+
+      if (index === -1 && !trashed) {
+        updated.push(recipe);
+        summary.added++;
+        return;
+      }
+
+      switch (resolutions[recipe.id] ?? defaultResolution) {
+        case 'overwrite':
+          if (index !== -1) {
+            overwritten.push(updated[index]);
+            updated[index] = recipe;
+          } else if (trashed) {
+            overwritten.push(trashed);
+            restoredIds.push(recipe.id);
+            updated.push(recipe);
+          }
+          summary.overwritten++;
+          break;
+        case 'keepBoth':
+          updated.push({
+            ...recipe,
+            id: generateId(),
+            title: `${recipe.title} (imported)`,
+          });
+          summary.keptBoth++;
+          break;
+        default:
+          summary.skipped++;
+      }
+    });
+
+    // Overwritten recipes stay in their history, like any other edit
+    for (const previous of overwritten) {
+      const replacement = updated.find(r => r.id === previous.id);
+      if (replacement && hasTrackedChanges(previous, replacement)) {
+        await recordRevision(previous);
+      }
+    }
+    if (summary.skipped < incoming.length) {
+      await writeToStorage(updated);
+    }
+    if (restoredIds.length > 0) {
+      await writeTrash(trash.filter(r => !restoredIds.includes(r.id)));
+      await flagMealPlanRecipes(restoredIds, false);
+    }
+
+    return summary;
   });
 };
 
 export const invalidateCache = () => {
   cache = { data: null, timestamp: 0 };
+  tagIndex = { source: null, counts: [] };
 };
@@ -0,0 +1,10 @@
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner';
+
+export interface MealPlanEntry {
+  /** Local calendar date as YYYY-MM-DD */
+  date: string;
+  slot: MealSlot;
+  recipeId: string;
+  /** Set while the recipe is in the trash, so the plan can say so */
+  isRecipeDeleted?: boolean;
+}
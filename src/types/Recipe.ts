@@ -1,8 +1,84 @@
+export interface Ingredient {
+  id: string;
+  quantity: string;
+  unit: string;
+  name: string;
+  note?: string;
+  group?: string;
+}
+
+export interface RecipeStep {
+  id: string;
+  text: string;
+  durationMinutes?: number;
+  images?: string[];
+}
+
+/** Dated entry in a recipe's cooking notes log */
+export interface RecipeNote {
+  id: string;
+  text: string;
+  /** ISO timestamp; a string so recipes stay safe to pass as route params */
+  createdAt: string;
+}
+
+/** One time a recipe was cooked */
+export interface CookLogEntry {
+  id: string;
+  /** ISO timestamp */
+  cookedAt: string;
+  /** How this time turned out, from 1 to MAX_RATING stars */
+  rating?: number;
+  /** Photo of the result */
+  photo?: string;
+}
+
 export interface Recipe {
   id: string;
   title: string;
   description: string;
   images: string[];
+  /** Number of servings the ingredient quantities are written for */
+  servings?: number;
+  prepMinutes?: number;
+  cookMinutes?: number;
+  ingredients?: Ingredient[];
+  steps?: RecipeStep[];
+  /** Normalized (lowercase, trimmed) tags */
+  tags?: string[];
+  isFavorite?: boolean;
+  /** Personal rating from 1 to MAX_RATING stars */
+  rating?: number;
+  /** Cooking notes, oldest first. Entries are appended, never rewritten */
+  notes?: RecipeNote[];
+  /** Every time the recipe was cooked, oldest first */
+  cookLog?: CookLogEntry[];
+  /**
+   * Derived from `cookLog` by the storage service and never stored. Unset
+   * for recipes that haven't been cooked.
+   */
+  timesCooked?: number;
+  lastCookedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
+
+/** Deleted recipe kept in the trash until it is restored or purged */
+export interface TrashedRecipe extends Recipe {
+  deletedAt: Date;
+}
+
+/** Fields derived from other recipe data when read from storage */
+export type DerivedRecipeField = 'timesCooked' | 'lastCookedAt';
+
+/**
+ * Recipe with dates as ISO strings, safe for navigation params and JSON.
+ * Derived fields are left out.
+ */
+export type SerializableRecipe = Omit<
+  Recipe,
+  'createdAt' | 'updatedAt' | DerivedRecipeField
+> & {
+  createdAt: string;
+  updatedAt: string;
+};
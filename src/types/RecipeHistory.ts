@@ -0,0 +1,35 @@
+import { DerivedRecipeField, Recipe } from './Recipe';
+
+/**
+ * Fields that change through use rather than editing. They are left out of
+ * revisions so rating a recipe or logging a cook doesn't add a version.
+ */
+export type UntrackedRecipeField =
+  | 'id'
+  | 'isFavorite'
+  | 'rating'
+  | 'notes'
+  | 'cookLog'
+  | 'createdAt'
+  | 'updatedAt';
+
+/**
+ * Fields whose changes are kept in a recipe's history. New recipe fields
+ * land here unless they are listed as untracked.
+ */
+export type TrackedRecipeField = Exclude<
+  keyof Recipe,
+  UntrackedRecipeField | DerivedRecipeField
+>;
+
+/** The edited content of a recipe at one point in time */
+export type RecipeSnapshot = Pick<Recipe, TrackedRecipeField>;
+
+/** An earlier version of a recipe, kept when an edit replaced it */
+export interface RecipeRevision {
+  id: string;
+  recipeId: string;
+  /** ISO timestamp of when this version was saved */
+  savedAt: string;
+  snapshot: RecipeSnapshot;
+}
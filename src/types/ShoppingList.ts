@@ -0,0 +1,21 @@
+/** Supermarket aisle a shopping list item is grouped under */
+export type AisleCategory =
+  | 'produce'
+  | 'meat'
+  | 'dairy'
+  | 'bakery'
+  | 'pantry'
+  | 'spices'
+  | 'frozen'
+  | 'other';
+
+export interface ShoppingListItem {
+  id: string;
+  name: string;
+  quantity: string;
+  unit: string;
+  category: AisleCategory;
+  checked: boolean;
+  /** Recipes the item was added from; empty for items typed in by hand */
+  recipeIds: string[];
+}
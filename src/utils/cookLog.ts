@@ -0,0 +1,11 @@
+import { CookLogEntry, Recipe } from '../types/Recipe';
+
+/** "Cooked once", "Cooked 3 times" */
+export const formatTimesCooked = (timesCooked: number): string =>
+  timesCooked === 1 ? 'Cooked once' : `Cooked ${timesCooked} times`;
+
+/** The recipe's cook log, most recent first */
+export const getCookHistory = (recipe: Recipe): CookLogEntry[] =>
+  [...(recipe.cookLog ?? [])].sort(
+    (a, b) => new Date(b.cookedAt).getTime() - new Date(a.cookedAt).getTime(),
+  );
@@ -0,0 +1,57 @@
+import { Recipe, RecipeStep } from '../types/Recipe';
+
+export type CookingStep = Omit<RecipeStep, 'id'>;
+
+// "1.", "2)", "Step 3:" at the start of a line
+const NUMBERED_LINE = /^\s*(?:step\s+)?\d+\s*[.):](?!\d)\s*/i;
+
+const clean = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Splits free-text method into steps. Numbered lines start new steps (and
+ * lines after them continue the step); otherwise paragraphs separated by
+ * blank lines are steps, or single lines when there are no blank lines.
+ */
+export const splitMethodText = (text: string): string[] => {
+  const lines = text.split(/\r?\n/);
+
+  if (lines.some(line => NUMBERED_LINE.test(line))) {
+    const steps: string[] = [];
+    lines.forEach(line => {
+      if (NUMBERED_LINE.test(line)) {
+        steps.push(line.replace(NUMBERED_LINE, ''));
+      } else if (steps.length > 0) {
+        steps[steps.length - 1] += ` ${line}`;
+      } else if (line.trim()) {
+        // Text before the first number is an introduction, kept as a step
+        steps.push(line);
+      }
+    });
+    return steps.map(clean).filter(Boolean);
+  }
+
+  const paragraphs = text
+    .split(/\r?\n\s*\r?\n/)
+    .map(clean)
+    .filter(Boolean);
+  if (paragraphs.length > 1) {
+    return paragraphs;
+  }
+
+  return lines.map(clean).filter(Boolean);
+};
+
+/**
+ * The steps to walk through in cooking mode: the recipe's structured steps
+ * when it has any, otherwise its description split into steps.
+ */
+export const getCookingSteps = (recipe: Recipe): CookingStep[] => {
+  if (recipe.steps && recipe.steps.length > 0) {
+    return recipe.steps.map(({ text, durationMinutes, images }) => ({
+      text,
+      durationMinutes,
+      images,
+    }));
+  }
+  return splitMethodText(recipe.description).map(text => ({ text }));
+};
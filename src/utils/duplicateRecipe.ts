@@ -0,0 +1,34 @@
+import { Recipe } from '../types/Recipe';
+import { generateId } from '../services/idGenerator';
+import { omitDerivedFields } from './recipeSerialization';
+import { MAX_TITLE_LENGTH } from '../constants';
+
+const COPY_SUFFIX = ' (copy)';
+
+/**
+ * Returns a new, unsaved recipe with the content of `recipe`: a fresh ID,
+ * a "(copy)" title and new timestamps. How the original has been used —
+ * favorite, rating, notes and cook log — stays with the original.
+ */
+export const duplicateRecipe = (
+  recipe: Recipe,
+  now: Date = new Date(),
+): Recipe => {
+  const content: Recipe = { ...omitDerivedFields(recipe) };
+  delete content.isFavorite;
+  delete content.rating;
+  delete content.notes;
+  delete content.cookLog;
+  const title = recipe.title
+    .trim()
+    .slice(0, MAX_TITLE_LENGTH - COPY_SUFFIX.length)
+    .trim();
+
+  return {
+    ...content,
+    id: generateId(now.getTime()),
+    title: `${title}${COPY_SUFFIX}`,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
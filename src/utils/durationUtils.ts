@@ -0,0 +1,189 @@
+import { Recipe } from '../types/Recipe';
+
+const UNIT_MINUTES: Record<string, number> = {
+  d: 24 * 60,
+  day: 24 * 60,
+  days: 24 * 60,
+  h: 60,
+  hr: 60,
+  hrs: 60,
+  hour: 60,
+  hours: 60,
+  m: 1,
+  min: 1,
+  mins: 1,
+  minute: 1,
+  minutes: 1,
+};
+
+const DURATION_PART = /(\d+(?:\.\d+)?)\s*([a-z]+)/gi;
+
+// Text allowed between parts: "1 hour and 20 minutes", "1h, 20m"
+const SEPARATORS = /^[\s,]*(?:and)?[\s,]*$/i;
+
+const CLOCK_FORMAT = /^(\d+):([0-5]\d)$/;
+
+/**
+ * Parses a duration typed by the user into whole minutes. Accepts plain
+ * minutes ("45"), hours and minutes ("1h 20m", "1 hr 20 min", "1.5 hours")
+ * and clock style ("1:20"). Returns null for blank or unreadable text.
+ */
+export const parseDuration = (text: string): number | null => {
+  const value = text.trim();
+  if (!value) {
+    return null;
+  }
+
+  if (/^\d+(?:\.\d+)?$/.test(value)) {
+    return Math.round(Number(value));
+  }
+
+  const clock = value.match(CLOCK_FORMAT);
+  if (clock) {
+    return Number(clock[1]) * 60 + Number(clock[2]);
+  }
+
+  let minutes = 0;
+  let lastIndex = 0;
+  let matched = false;
+  for (const match of value.matchAll(DURATION_PART)) {
+    const [part, amount, unit] = match;
+    const unitMinutes = UNIT_MINUTES[unit.toLowerCase()];
+    if (
+      unitMinutes === undefined ||
+      !SEPARATORS.test(value.slice(lastIndex, match.index))
+    ) {
+      return null;
+    }
+    minutes += Number(amount) * unitMinutes;
+    lastIndex = (match.index ?? 0) + part.length;
+    matched = true;
+  }
+
+  if (!matched || !SEPARATORS.test(value.slice(lastIndex))) {
+    return null;
+  }
+  return Math.round(minutes);
+};
+
+/**
+ * Formats minutes for display: "45 min", "1 hr 20 min", or in the short
+ * style used to prefill inputs, "45m" and "1h 20m".
+ */
+export const formatDuration = (
+  minutes: number,
+  style: 'long' | 'short' = 'long',
+): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  const [hourLabel, minuteLabel] =
+    style === 'long' ? [' hr', ' min'] : ['h', 'm'];
+
+  const parts: string[] = [];
+  if (hours > 0) {
+    parts.push(`${hours}${hourLabel}`);
+  }
+  if (rest > 0 || hours === 0) {
+    parts.push(`${rest}${minuteLabel}`);
+  }
+  return parts.join(' ');
+};
+
+/**
+ * Prep plus cook time, or undefined when the recipe has neither.
+ */
+export const getTotalMinutes = (
+  recipe: Pick<Recipe, 'prepMinutes' | 'cookMinutes'>,
+): number | undefined =>
+  recipe.prepMinutes === undefined && recipe.cookMinutes === undefined
+    ? undefined
+    : (recipe.prepMinutes ?? 0) + (recipe.cookMinutes ?? 0);
+
+/**
+ * Keeps recipes that can be made within `maxMinutes`. Recipes without any
+ * time set are left out, since there's no telling how long they take.
+ */
+export const filterRecipesByTotalTime = <T extends Recipe>(
+  recipes: T[],
+  maxMinutes: number | null,
+): T[] => {
+  if (maxMinutes === null) {
+    return recipes;
+  }
+  return recipes.filter(recipe => {
+    const total = getTotalMinutes(recipe);
+    return total !== undefined && total <= maxMinutes;
+  });
+};
+
+export interface DurationMention {
+  /** The matched phrase, e.g. "25 minutes" or "1 hour 15 minutes" */
+  text: string;
+  index: number;
+  seconds: number;
+}
+
+const TIME_UNIT = 'hours?|hrs?|minutes?|mins?|seconds?|secs?';
+
+// "25 minutes", "20-25 min", "2 to 3 hours", "1 hour and 15 minutes"
+const DURATION_MENTION = new RegExp(
+  `\\b(\\d+(?:\\.\\d+)?)(?:\\s*(?:-|–|to)\\s*\\d+(?:\\.\\d+)?)?\\s*(${TIME_UNIT})\\b` +
+    `(?:,?\\s*(?:and\\s+)?(\\d+)\\s*(${TIME_UNIT})\\b)?`,
+  'gi',
+);
+
+const unitSeconds = (unit: string): number => {
+  switch (unit[0].toLowerCase()) {
+    case 'h':
+      return 60 * 60;
+    case 'm':
+      return 60;
+    default:
+      return 1;
+  }
+};
+
+/**
+ * Finds durations mentioned in recipe text ("bake 25 minutes") so they can
+ * be started as timers. Ranges use the lower bound, so the timer goes off
+ * at the first point worth checking.
+ */
+export const findDurationMentions = (text: string): DurationMention[] =>
+  Array.from(text.matchAll(DURATION_MENTION))
+    .map(match => {
+      const [phrase, amount, unit, extraAmount, extraUnit] = match;
+      const seconds =
+        Number(amount) * unitSeconds(unit) +
+        (extraAmount ? Number(extraAmount) * unitSeconds(extraUnit) : 0);
+      return {
+        text: phrase,
+        index: match.index ?? 0,
+        seconds: Math.round(seconds),
+      };
+    })
+    .filter(mention => mention.seconds > 0);
+
+/**
+ * Formats a timer length: "25 min", "1 hr 30 min", "45 sec", "2 min 30 sec".
+ */
+export const formatTimerDuration = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  if (rest === 0) {
+    return formatDuration(minutes);
+  }
+  return minutes > 0 ? `${formatDuration(minutes)} ${rest} sec` : `${rest} sec`;
+};
+
+/**
+ * Formats time left on a running timer as a clock: "4:05" or "1:02:03".
+ */
+export const formatCountdown = (seconds: number): string => {
+  const total = Math.max(0, Math.ceil(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const rest = String(total % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}`
+    : `${minutes}:${rest}`;
+};
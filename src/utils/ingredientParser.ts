@@ -0,0 +1,156 @@
+import { Ingredient } from '../types/Recipe';
+import { QUANTITY_SOURCE } from './servingScaler';
+import { getUnitKind, normalizeUnit } from './units';
+
+export type ParsedIngredient = Omit<Ingredient, 'id'>;
+
+// "2", "1 1/2", "2-3", "2 to 3" or the words "a", "an" and "one"
+const LEADING_QUANTITY = new RegExp(
+  `^(?:(${QUANTITY_SOURCE})(?:(?:\\s*[-–—]\\s*|\\s+to\\s+)(${QUANTITY_SOURCE}))?|(an?|one)\\b)`,
+  'i',
+);
+
+// List markers left over from copying a bulleted or numbered list
+const LIST_MARKER = /^(?:[-*•·▪◦]|\d+[.)])(?:\s+|$)/;
+
+const PARENTHETICAL = /\(([^)]*)\)/g;
+
+const cleanWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const stripListMarker = (line: string) =>
+  cleanWhitespace(cleanWhitespace(line).replace(LIST_MARKER, ''));
+
+const stripPunctuation = (text: string) => text.replace(/[.,;:]+$/, '');
+
+/**
+ * Looks for a unit in the first one or two words of `text`. Without a
+ * quantity only count units are accepted, so "pinch of salt" has a unit but
+ * "T-bone steak" or "L'Oreal" never do.
+ */
+const matchUnit = (
+  text: string,
+  hasQuantity: boolean,
+): { unit: string; rest: string } | null => {
+  const words = text.split(' ');
+
+  for (const length of [2, 1]) {
+    if (words.length < length) {
+      continue;
+    }
+    const candidate = stripPunctuation(words.slice(0, length).join(' '));
+    const unit = normalizeUnit(candidate);
+    if (unit && (hasQuantity || getUnitKind(unit) === 'count')) {
+      return { unit: candidate, rest: words.slice(length).join(' ') };
+    }
+  }
+  return null;
+};
+
+/**
+ * Splits a free-text ingredient line such as "2 1/2 cups all-purpose
+ * flour, sifted" into quantity, unit, name and note. Handles unicode
+ * fractions, ranges ("2-3"), "a"/"an" as one, and parenthetical notes.
+ * Returns null for blank lines and lines with nothing but a quantity.
+ */
+export const parseIngredientLine = (line: string): ParsedIngredient | null => {
+  const notes: string[] = [];
+  let text = stripListMarker(line);
+  if (!text) {
+    return null;
+  }
+
+  text = cleanWhitespace(
+    text.replace(PARENTHETICAL, (_, note: string) => {
+      if (note.trim()) {
+        notes.push(note.trim());
+      }
+      return ' ';
+    }),
+  );
+
+  let quantity = '';
+  const quantityMatch = text.match(LEADING_QUANTITY);
+  if (quantityMatch) {
+    const [match, from, to, article] = quantityMatch;
+    if (article) {
+      quantity = '1';
+    } else {
+      quantity = to
+        ? `${cleanWhitespace(from)}-${cleanWhitespace(to)}`
+        : cleanWhitespace(from);
+    }
+    text = text.slice(match.length).trim();
+  }
+
+  let unit = '';
+  const unitMatch = matchUnit(text, quantity !== '');
+  if (unitMatch) {
+    unit = unitMatch.unit;
+    text = unitMatch.rest;
+  }
+
+  text = text.replace(/^of\s+/i, '');
+
+  const commaIndex = text.indexOf(',');
+  if (commaIndex !== -1) {
+    const note = cleanWhitespace(text.slice(commaIndex + 1));
+    if (note) {
+      notes.push(stripPunctuation(note));
+    }
+    text = text.slice(0, commaIndex);
+  }
+
+  // "a" with nothing after it is more likely a name than a quantity
+  let name = stripPunctuation(cleanWhitespace(text));
+  if (!name && !unit && quantityMatch?.[3]) {
+    return { quantity: '', unit: '', name: quantityMatch[0] };
+  }
+  // "2 cups" names no ingredient, so the unit word is kept as the name
+  if (!name && unit) {
+    name = unit;
+    unit = '';
+  }
+  if (!name) {
+    return null;
+  }
+
+  const parsed: ParsedIngredient = { quantity, unit, name };
+  if (notes.length > 0) {
+    parsed.note = notes.join(', ');
+  }
+  return parsed;
+};
+
+/**
+ * Parses a pasted block of ingredient lines. A line ending in a colon
+ * ("For the sauce:") starts a group for the lines below it; blank lines
+ * are skipped.
+ */
+export const parseIngredientBlock = (text: string): ParsedIngredient[] => {
+  const ingredients: ParsedIngredient[] = [];
+  let group: string | undefined;
+
+  text.split(/\r?\n/).forEach(line => {
+    const trimmed = stripListMarker(line);
+    if (trimmed.endsWith(':')) {
+      group = cleanWhitespace(trimmed.slice(0, -1)) || undefined;
+      return;
+    }
+
+    const parsed = parseIngredientLine(trimmed);
+    if (parsed) {
+      ingredients.push(group ? { ...parsed, group } : parsed);
+    }
+  });
+
+  return ingredients;
+};
+
+/**
+ * Joins an ingredient back into a line ("2 cups flour"), leaving out the
+ * note and group.
+ */
+export const formatIngredient = (ingredient: Ingredient): string =>
+  [ingredient.quantity, ingredient.unit, ingredient.name]
+    .filter(Boolean)
+    .join(' ');
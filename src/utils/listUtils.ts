@@ -0,0 +1,26 @@
+/**
+ * Creates a short, locally unique ID for list rows (ingredients, steps, ...).
+ */
+export const createLocalId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Returns a copy of `items` with the element at `from` moved to `to`.
+ * Out-of-range indices leave the list unchanged.
+ */
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (
+    from === to ||
+    from < 0 ||
+    to < 0 ||
+    from >= items.length ||
+    to >= items.length
+  ) {
+    return items;
+  }
+
+  const result = [...items];
+  const [moved] = result.splice(from, 1);
+  result.splice(to, 0, moved);
+  return result;
+};
@@ -0,0 +1,122 @@
+import { Recipe } from '../types/Recipe';
+import { MealPlanEntry, MealSlot } from '../types/MealPlan';
+import { getTotalMinutes } from './durationUtils';
+
+export const MEAL_SLOTS: readonly { value: MealSlot; label: string }[] = [
+  { value: 'breakfast', label: 'Breakfast' },
+  { value: 'lunch', label: 'Lunch' },
+  { value: 'dinner', label: 'Dinner' },
+];
+
+export const isMealSlot = (value: unknown): value is MealSlot =>
+  MEAL_SLOTS.some(slot => slot.value === value);
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * The local calendar date as YYYY-MM-DD. Local rather than UTC so a dinner
+ * planned for Friday stays on Friday whatever the time zone offset.
+ */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/** Midnight on the Monday of the week containing `date` */
+export const getWeekStart = (date: Date): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  // getDay() is 0 for Sunday; weeks start on Monday
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+export const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/** The seven days starting at `weekStart` */
+export const getWeekDates = (weekStart: Date): Date[] =>
+  Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+
+/**
+ * Plan entries falling within the week starting at `weekStart`, ordered by
+ * day and then by meal.
+ */
+export const getWeekEntries = (
+  entries: MealPlanEntry[],
+  weekStart: Date,
+): MealPlanEntry[] => {
+  const dates = getWeekDates(weekStart).map(toDateKey);
+  const slotOrder = MEAL_SLOTS.map(slot => slot.value);
+  return entries
+    .filter(entry => dates.includes(entry.date))
+    .sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) ||
+        slotOrder.indexOf(a.slot) - slotOrder.indexOf(b.slot),
+    );
+};
+
+/**
+ * Assigns a recipe to a date and meal, replacing whatever was planned there.
+ * Passing null clears the slot.
+ */
+export const setPlannedRecipe = (
+  entries: MealPlanEntry[],
+  date: string,
+  slot: MealSlot,
+  recipeId: string | null,
+): MealPlanEntry[] => {
+  const others = entries.filter(
+    entry => entry.date !== date || entry.slot !== slot,
+  );
+  return recipeId ? [...others, { date, slot, recipeId }] : others;
+};
+
+export interface WeekSummary {
+  mealCount: number;
+  /** Prep plus cook time across every planned meal */
+  totalMinutes: number;
+  /** Planned meals whose recipe has no time set */
+  untimedMealCount: number;
+  /** Each recipe involved, in plan order, with how many meals it covers */
+  recipes: { recipe: Recipe; count: number }[];
+}
+
+/**
+ * Totals for a week of entries. A recipe planned twice is cooked twice, so
+ * its time counts twice. Entries whose recipe is deleted or missing are
+ * left out.
+ */
+export const getWeekSummary = (
+  entries: MealPlanEntry[],
+  recipesById: ReadonlyMap<string, Recipe>,
+): WeekSummary => {
+  const summary: WeekSummary = {
+    mealCount: 0,
+    totalMinutes: 0,
+    untimedMealCount: 0,
+    recipes: [],
+  };
+
+  entries.forEach(entry => {
+    const recipe = recipesById.get(entry.recipeId);
+    if (!recipe || entry.isRecipeDeleted) {
+      return;
+    }
+
+    summary.mealCount += 1;
+    const minutes = getTotalMinutes(recipe);
+    if (minutes === undefined) {
+      summary.untimedMealCount += 1;
+    } else {
+      summary.totalMinutes += minutes;
+    }
+
+    const existing = summary.recipes.find(item => item.recipe.id === recipe.id);
+    if (existing) {
+      existing.count += 1;
+    } else {
+      summary.recipes.push({ recipe, count: 1 });
+    }
+  });
+
+  return summary;
+};
@@ -0,0 +1,14 @@
+import { MAX_RATING } from '../constants';
+
+export const isValidRating = (value: unknown): value is number =>
+  typeof value === 'number' &&
+  Number.isInteger(value) &&
+  value >= 1 &&
+  value <= MAX_RATING;
+
+/** Filled and empty stars, e.g. "★★★☆☆" for 3 */
+export const formatRatingStars = (rating: number): string =>
+  '★'.repeat(rating) + '☆'.repeat(Math.max(0, MAX_RATING - rating));
+
+export const formatRatingLabel = (rating: number): string =>
+  `Rated ${rating} out of ${MAX_RATING}`;
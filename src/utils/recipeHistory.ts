@@ -0,0 +1,186 @@
+import { Recipe } from '../types/Recipe';
+import { RecipeSnapshot, TrackedRecipeField } from '../types/RecipeHistory';
+import { formatIngredient } from './ingredientParser';
+import { formatDuration } from './durationUtils';
+
+/** Every tracked field, so none can be left out of a snapshot */
+type SnapshotFields = { [Field in TrackedRecipeField]: Recipe[Field] };
+
+/**
+ * Display labels for tracked fields. Typed so that a new recipe field
+ * doesn't compile until it has a label here (or is listed as untracked).
+ */
+const FIELD_LABELS: Record<TrackedRecipeField, string> = {
+  title: 'Title',
+  description: 'Description',
+  images: 'Images',
+  servings: 'Servings',
+  prepMinutes: 'Prep time',
+  cookMinutes: 'Cook time',
+  ingredients: 'Ingredients',
+  steps: 'Steps',
+  tags: 'Tags',
+};
+
+/** Tracked fields in the order their changes are listed */
+const TRACKED_FIELDS: TrackedRecipeField[] = [
+  'title',
+  'description',
+  'images',
+  'servings',
+  'prepMinutes',
+  'cookMinutes',
+  'ingredients',
+  'steps',
+  'tags',
+];
+
+export interface FieldChange {
+  field: TrackedRecipeField;
+  label: string;
+  /** Display text for the older value; empty when the field was unset */
+  before: string;
+  after: string;
+}
+
+// Lists every field so unset ones come through as undefined, which lets a
+// snapshot clear fields when it is applied
+const pickTrackedFields = (source: RecipeSnapshot): SnapshotFields => ({
+  title: source.title,
+  description: source.description,
+  images: source.images,
+  servings: source.servings,
+  prepMinutes: source.prepMinutes,
+  cookMinutes: source.cookMinutes,
+  ingredients: source.ingredients,
+  steps: source.steps,
+  tags: source.tags,
+});
+
+/**
+ * A recipe's edited content: everything except the fields that change
+ * through use (rating, notes, cook log, ...) and the derived ones.
+ */
+export const toRecipeSnapshot = (recipe: Recipe): RecipeSnapshot =>
+  pickTrackedFields(recipe);
+
+/**
+ * Returns `recipe` with its edited content replaced by `snapshot`. Fields
+ * the snapshot doesn't have are cleared; untracked fields are kept.
+ */
+export const applySnapshot = (
+  recipe: Recipe,
+  snapshot: RecipeSnapshot,
+): Recipe => ({ ...recipe, ...pickTrackedFields(snapshot) });
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0);
+
+// Row IDs are regenerated by some edits and aren't something the user sees
+const withoutIds = (value: unknown): unknown =>
+  Array.isArray(value)
+    ? value.map(item =>
+        item && typeof item === 'object'
+          ? Object.fromEntries(
+              Object.entries(item).filter(([key]) => key !== 'id'),
+            )
+          : item,
+      )
+    : value;
+
+const isSameValue = (a: unknown, b: unknown): boolean =>
+  (isEmpty(a) && isEmpty(b)) ||
+  JSON.stringify(withoutIds(a)) === JSON.stringify(withoutIds(b));
+
+const plural = (count: number, noun: string): string =>
+  `${count} ${count === 1 ? noun : `${noun}s`}`;
+
+const formatMinutes = (minutes: number | undefined): string =>
+  minutes === undefined ? '' : formatDuration(minutes);
+
+// Snapshots read back from storage leave out unset fields, so lists may be
+// missing even where the type says otherwise
+const formatField = (
+  field: TrackedRecipeField,
+  fields: SnapshotFields,
+): string => {
+  switch (field) {
+    case 'title':
+    case 'description':
+      return fields[field] ?? '';
+    case 'servings':
+      return fields.servings === undefined ? '' : String(fields.servings);
+    case 'prepMinutes':
+    case 'cookMinutes':
+      return formatMinutes(fields[field]);
+    case 'images': {
+      const count = (fields.images ?? []).length;
+      return count > 0 ? plural(count, 'image') : '';
+    }
+    case 'ingredients':
+      return (fields.ingredients ?? [])
+        .map(
+          ingredient =>
+            formatIngredient(ingredient) +
+            (ingredient.note ? `, ${ingredient.note}` : ''),
+        )
+        .join('\n');
+    case 'steps':
+      return (fields.steps ?? [])
+        .map((step, index) => `${index + 1}. ${step.text}`)
+        .join('\n');
+    case 'tags':
+      return (fields.tags ?? []).join(', ');
+  }
+};
+
+// Image lists show as counts, so say what changed when the count alone
+// wouldn't
+const describeImageChange = (
+  before: SnapshotFields,
+  after: SnapshotFields,
+): string => {
+  const oldImages = before.images ?? [];
+  const newImages = after.images ?? [];
+  const added = newImages.filter(uri => !oldImages.includes(uri)).length;
+  const removed = oldImages.filter(uri => !newImages.includes(uri)).length;
+  const parts = [
+    added > 0 ? `${added} added` : '',
+    removed > 0 ? `${removed} removed` : '',
+  ].filter(Boolean);
+  return `${formatField('images', after) || 'No images'} (${
+    parts.length > 0 ? parts.join(', ') : 'reordered'
+  })`;
+};
+
+/**
+ * Field-by-field changes between two versions of a recipe, in display
+ * order. Unchanged fields are left out.
+ */
+export const diffSnapshots = (
+  older: RecipeSnapshot,
+  newer: RecipeSnapshot,
+): FieldChange[] => {
+  const before = pickTrackedFields(older);
+  const after = pickTrackedFields(newer);
+
+  return TRACKED_FIELDS.filter(
+    field => !isSameValue(before[field], after[field]),
+  ).map(field => ({
+    field,
+    label: FIELD_LABELS[field],
+    before: formatField(field, before),
+    after:
+      field === 'images'
+        ? describeImageChange(before, after)
+        : formatField(field, after),
+  }));
+};
+
+/** Whether saving `updated` over `previous` changes its edited content */
+export const hasTrackedChanges = (previous: Recipe, updated: Recipe): boolean =>
+  diffSnapshots(toRecipeSnapshot(previous), toRecipeSnapshot(updated)).length >
+  0;
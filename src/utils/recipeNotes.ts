@@ -0,0 +1,31 @@
+import { RecipeNote } from '../types/Recipe';
+import { MAX_NOTE_LENGTH } from '../constants';
+import { createLocalId } from './listUtils';
+
+/**
+ * Returns `notes` with a new entry for `text` at the end. Existing entries
+ * are never changed so the log keeps its history. Blank text leaves the
+ * notes unchanged.
+ */
+export const appendRecipeNote = (
+  notes: RecipeNote[] | undefined,
+  text: string,
+  now: Date = new Date(),
+): RecipeNote[] => {
+  const trimmed = text.trim().slice(0, MAX_NOTE_LENGTH);
+  if (!trimmed) {
+    return notes ?? [];
+  }
+  return [
+    ...(notes ?? []),
+    { id: createLocalId(), text: trimmed, createdAt: now.toISOString() },
+  ];
+};
+
+/** The date a note was written, e.g. "Oct 3, 2026" */
+export const formatNoteDate = (note: RecipeNote): string =>
+  new Date(note.createdAt).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
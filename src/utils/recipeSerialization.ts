@@ -0,0 +1,43 @@
+import {
+  DerivedRecipeField,
+  Recipe,
+  SerializableRecipe,
+} from '../types/Recipe';
+
+/**
+ * Returns a copy of `recipe` without the fields storage derives on read,
+ * so they are never persisted or passed around.
+ */
+export const omitDerivedFields = <T extends Recipe>(
+  recipe: T,
+): Omit<T, DerivedRecipeField> => {
+  const copy: Partial<T> = { ...recipe };
+  delete copy.timesCooked;
+  delete copy.lastCookedAt;
+  return copy as Omit<T, DerivedRecipeField>;
+};
+
+/**
+ * Converts a recipe into a navigation-safe shape (dates as ISO strings).
+ */
+export const toSerializableRecipe = (recipe: Recipe): SerializableRecipe => ({
+  ...omitDerivedFields(recipe),
+  createdAt: recipe.createdAt.toISOString(),
+  updatedAt: recipe.updatedAt.toISOString(),
+});
+
+/**
+ * Restores a recipe received through navigation params.
+ */
+export const fromSerializableRecipe = (
+  serializableRecipe: SerializableRecipe,
+): Recipe => {
+  const createdAt = new Date(serializableRecipe.createdAt);
+  const updatedAt = new Date(serializableRecipe.updatedAt);
+
+  return {
+    ...serializableRecipe,
+    createdAt: isNaN(createdAt.getTime()) ? new Date() : createdAt,
+    updatedAt: isNaN(updatedAt.getTime()) ? new Date() : updatedAt,
+  };
+};
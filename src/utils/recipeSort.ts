@@ -0,0 +1,58 @@
+import { Recipe } from '../types/Recipe';
+import { getTotalMinutes } from './durationUtils';
+
+export type SortOrder =
+  | 'created'
+  | 'updated'
+  | 'title'
+  | 'imageCount'
+  | 'totalTime'
+  | 'rating'
+  | 'lastCooked';
+
+export const DEFAULT_SORT_ORDER: SortOrder = 'created';
+
+export const SORT_OPTIONS: readonly { value: SortOrder; label: string }[] = [
+  { value: 'created', label: 'Newest First' },
+  { value: 'updated', label: 'Recently Updated' },
+  { value: 'title', label: 'Title A–Z' },
+  { value: 'imageCount', label: 'Most Images' },
+  { value: 'totalTime', label: 'Quickest First' },
+  { value: 'rating', label: 'Highest Rated' },
+  { value: 'lastCooked', label: 'Not Cooked Lately' },
+];
+
+type Comparator = (a: Recipe, b: Recipe) => number;
+
+const byCreatedDesc: Comparator = (a, b) =>
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+const COMPARATORS: Record<SortOrder, Comparator> = {
+  created: byCreatedDesc,
+  updated: (a, b) =>
+    new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime(),
+  title: (a, b) =>
+    a.title.localeCompare(b.title, undefined, { sensitivity: 'base' }),
+  imageCount: (a, b) => b.images.length - a.images.length,
+  // Recipes without a time sort last
+  totalTime: (a, b) =>
+    (getTotalMinutes(a) ?? Infinity) - (getTotalMinutes(b) ?? Infinity) || 0,
+  // Unrated recipes sort last
+  rating: (a, b) => (b.rating ?? 0) - (a.rating ?? 0),
+  // Longest since it was cooked first; never-cooked recipes lead the list
+  lastCooked: (a, b) =>
+    (a.lastCookedAt?.getTime() ?? 0) - (b.lastCookedAt?.getTime() ?? 0),
+};
+
+export const isSortOrder = (value: unknown): value is SortOrder =>
+  typeof value === 'string' &&
+  Object.prototype.hasOwnProperty.call(COMPARATORS, value);
+
+/**
+ * Returns a sorted copy of `recipes`. Ties fall back to newest first so the
+ * order is stable across reloads.
+ */
+export const sortRecipes = (recipes: Recipe[], order: SortOrder): Recipe[] => {
+  const compare = COMPARATORS[order] ?? byCreatedDesc;
+  return [...recipes].sort((a, b) => compare(a, b) || byCreatedDesc(a, b));
+};
@@ -0,0 +1,115 @@
+import { Recipe } from '../types/Recipe';
+
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+const foldCharacter = (char: string): string =>
+  char.normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase();
+
+/**
+ * Lowercases text and strips diacritics so "Crème" matches "creme".
+ */
+export const normalizeForSearch = (text: string): string =>
+  Array.from(text).map(foldCharacter).join('');
+
+/**
+ * Folds text character by character, keeping a map from every folded
+ * character back to its position in the original string.
+ */
+const foldWithIndexMap = (
+  text: string,
+): { folded: string; indexMap: number[] } => {
+  let folded = '';
+  const indexMap: number[] = [];
+  let offset = 0;
+
+  for (const char of Array.from(text)) {
+    const foldedChar = foldCharacter(char);
+    for (let i = 0; i < foldedChar.length; i++) {
+      indexMap.push(offset);
+    }
+    folded += foldedChar;
+    offset += char.length;
+  }
+  indexMap.push(offset);
+
+  return { folded, indexMap };
+};
+
+export const tokenizeQuery = (query: string): string[] =>
+  normalizeForSearch(query).split(/\s+/).filter(Boolean);
+
+/**
+ * Returns the original-text ranges matching any query token, sorted and
+ * merged so overlapping matches highlight as a single span.
+ */
+export const findMatchRanges = (text: string, query: string): MatchRange[] => {
+  const tokens = tokenizeQuery(query);
+  if (!text || tokens.length === 0) {
+    return [];
+  }
+
+  const { folded, indexMap } = foldWithIndexMap(text);
+  const ranges: MatchRange[] = [];
+
+  tokens.forEach(token => {
+    let from = folded.indexOf(token);
+    while (from !== -1) {
+      const to = from + token.length;
+      ranges.push({ start: indexMap[from], end: indexMap[to] });
+      from = folded.indexOf(token, to);
+    }
+  });
+
+  ranges.sort((a, b) => a.start - b.start);
+
+  return ranges.reduce<MatchRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
+};
+
+const getSearchableText = (recipe: Recipe): string =>
+  normalizeForSearch(
+    [
+      recipe.title,
+      recipe.description,
+      ...(recipe.ingredients ?? []).flatMap(ingredient => [
+        ingredient.name,
+        ingredient.note ?? '',
+      ]),
+    ].join('\n'),
+  );
+
+/**
+ * A recipe matches when every query token appears in its title,
+ * description or ingredients. An empty query matches everything.
+ */
+export const recipeMatchesQuery = (recipe: Recipe, query: string): boolean => {
+  const tokens = tokenizeQuery(query);
+  if (tokens.length === 0) {
+    return true;
+  }
+
+  const searchable = getSearchableText(recipe);
+  return tokens.every(token => searchable.includes(token));
+};
+
+export const filterRecipesByQuery = (
+  recipes: Recipe[],
+  query: string,
+): Recipe[] => {
+  if (tokenizeQuery(query).length === 0) {
+    return recipes;
+  }
+  return recipes.filter(recipe => recipeMatchesQuery(recipe, query));
+};
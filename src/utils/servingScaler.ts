@@ -0,0 +1,162 @@
+import { Ingredient } from '../types/Recipe';
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 1 / 2,
+  '⅓': 1 / 3,
+  '⅔': 2 / 3,
+  '¼': 1 / 4,
+  '¾': 3 / 4,
+  '⅕': 1 / 5,
+  '⅖': 2 / 5,
+  '⅗': 3 / 5,
+  '⅘': 4 / 5,
+  '⅙': 1 / 6,
+  '⅚': 5 / 6,
+  '⅛': 1 / 8,
+  '⅜': 3 / 8,
+  '⅝': 5 / 8,
+  '⅞': 7 / 8,
+};
+
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join('');
+
+// Fractions used when formatting, in the order they are tried
+const FRIENDLY_FRACTIONS: [number, string][] = [
+  [1 / 8, '⅛'],
+  [1 / 4, '¼'],
+  [1 / 3, '⅓'],
+  [3 / 8, '⅜'],
+  [1 / 2, '½'],
+  [5 / 8, '⅝'],
+  [2 / 3, '⅔'],
+  [3 / 4, '¾'],
+  [7 / 8, '⅞'],
+];
+
+/** How close a value must be to a friendly fraction to be shown as one */
+const FRACTION_TOLERANCE = 0.02;
+
+/**
+ * Matches a single quantity: a mixed number ("1 1/2"), a plain fraction
+ * ("3/4"), a number with an optional unicode fraction ("1½", "2.5") or a
+ * lone unicode fraction ("¾").
+ */
+export const QUANTITY_SOURCE = `\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:\\.\\d+)?(?:\\s?[${FRACTION_CHARS}])?|[${FRACTION_CHARS}]`;
+
+const QUANTITY_PATTERN = new RegExp(QUANTITY_SOURCE, 'g');
+
+const QUANTITY_ONLY = new RegExp(`^(?:${QUANTITY_SOURCE})$`);
+
+const parseFraction = (text: string): number | null => {
+  const [numerator, denominator] = text.split('/').map(Number);
+  return denominator ? numerator / denominator : null;
+};
+
+/**
+ * Parses a single quantity such as "2", "1.5", "3/4", "1 1/2", "1½" or
+ * "¾". Returns null for anything else.
+ */
+export const parseQuantity = (text: string): number | null => {
+  const value = text.trim();
+  if (!QUANTITY_ONLY.test(value)) {
+    return null;
+  }
+
+  const unicode = value.slice(-1);
+  if (UNICODE_FRACTIONS[unicode] !== undefined) {
+    const whole = value.slice(0, -1).trim();
+    return (whole ? Number(whole) : 0) + UNICODE_FRACTIONS[unicode];
+  }
+
+  if (value.includes('/')) {
+    const parts = value.split(/\s+/);
+    if (parts.length === 2) {
+      const fraction = parseFraction(parts[1]);
+      return fraction === null ? null : Number(parts[0]) + fraction;
+    }
+    return parseFraction(value);
+  }
+
+  return Number(value);
+};
+
+/**
+ * Formats a quantity for display, preferring friendly fractions
+ * ("1½", "⅔") over long decimals.
+ */
+export const formatQuantity = (value: number): string => {
+  if (!Number.isFinite(value) || value <= 0) {
+    return '0';
+  }
+
+  // Fractions of large amounts are noise ("12⅛ cups")
+  if (value >= 10) {
+    return String(Math.round(value));
+  }
+
+  const whole = Math.floor(value);
+  const remainder = value - whole;
+
+  if (remainder < FRACTION_TOLERANCE) {
+    return String(whole);
+  }
+  if (1 - remainder < FRACTION_TOLERANCE) {
+    return String(whole + 1);
+  }
+
+  const match = FRIENDLY_FRACTIONS.find(
+    ([fraction]) => Math.abs(remainder - fraction) < FRACTION_TOLERANCE,
+  );
+  if (match) {
+    return whole > 0 ? `${whole}${match[1]}` : match[1];
+  }
+
+  return String(Math.round(value * 100) / 100);
+};
+
+export const getScaleFactor = (
+  baseServings: number,
+  targetServings: number,
+): number =>
+  baseServings > 0 && targetServings > 0 ? targetServings / baseServings : 1;
+
+/**
+ * Scales every quantity found in a piece of text, so both ends of a range
+ * such as "2-3" are scaled.
+ */
+export const scaleQuantityText = (text: string, factor: number): string => {
+  if (factor === 1) {
+    return text;
+  }
+  return text.replace(QUANTITY_PATTERN, match => {
+    const value = parseQuantity(match);
+    return value === null ? match : formatQuantity(value * factor);
+  });
+};
+
+export const scaleIngredient = (
+  ingredient: Ingredient,
+  factor: number,
+): Ingredient => {
+  if (factor === 1) {
+    return ingredient;
+  }
+
+  // Notes are left alone: "(14 oz can)" describes a package, not an amount
+  return {
+    ...ingredient,
+    quantity: scaleQuantityText(ingredient.quantity, factor),
+  };
+};
+
+/**
+ * Recomputes ingredient quantities for a different number of servings.
+ */
+export const scaleIngredients = (
+  ingredients: Ingredient[],
+  baseServings: number,
+  targetServings: number,
+): Ingredient[] => {
+  const factor = getScaleFactor(baseServings, targetServings);
+  return ingredients.map(ingredient => scaleIngredient(ingredient, factor));
+};
@@ -0,0 +1,391 @@
+import { Recipe } from '../types/Recipe';
+import { AisleCategory, ShoppingListItem } from '../types/ShoppingList';
+import { ParsedIngredient, parseIngredientBlock } from './ingredientParser';
+import { formatQuantity, parseQuantity } from './servingScaler';
+import { convertUnit, formatUnit, getUnitKind, normalizeUnit } from './units';
+import { findDurationMentions } from './durationUtils';
+import { createLocalId } from './listUtils';
+
+/** Aisles in the order a shop is usually walked, with their section titles */
+export const AISLE_CATEGORIES: readonly {
+  value: AisleCategory;
+  label: string;
+}[] = [
+  { value: 'produce', label: 'Produce' },
+  { value: 'bakery', label: 'Bakery' },
+  { value: 'meat', label: 'Meat & Seafood' },
+  { value: 'dairy', label: 'Dairy & Eggs' },
+  { value: 'pantry', label: 'Pantry' },
+  { value: 'spices', label: 'Spices & Seasonings' },
+  { value: 'frozen', label: 'Frozen' },
+  { value: 'other', label: 'Other' },
+];
+
+const AISLE_KEYWORDS: Record<Exclude<AisleCategory, 'other'>, string[]> = {
+  produce: [
+    'apple',
+    'avocado',
+    'banana',
+    'basil',
+    'bell pepper',
+    'berries',
+    'broccoli',
+    'cabbage',
+    'carrot',
+    'cauliflower',
+    'celery',
+    'chive',
+    'cilantro',
+    'corn',
+    'cucumber',
+    'eggplant',
+    'garlic',
+    'ginger',
+    'green bean',
+    'green onion',
+    'herb',
+    'jalapeño',
+    'kale',
+    'leek',
+    'lemon',
+    'lettuce',
+    'lime',
+    'mint',
+    'mushroom',
+    'onion',
+    'orange',
+    'parsley',
+    'pea',
+    'potato',
+    'pumpkin',
+    'scallion',
+    'shallot',
+    'spinach',
+    'squash',
+    'sweet potato',
+    'tomato',
+    'zucchini',
+  ],
+  bakery: [
+    'bagel',
+    'baguette',
+    'bread',
+    'bun',
+    'croissant',
+    'pita',
+    'tortilla',
+  ],
+  meat: [
+    'bacon',
+    'beef',
+    'chicken',
+    'chorizo',
+    'cod',
+    'fish',
+    'ham',
+    'lamb',
+    'mince',
+    'pork',
+    'prawn',
+    'salmon',
+    'sausage',
+    'shrimp',
+    'steak',
+    'tuna',
+    'turkey',
+  ],
+  dairy: [
+    'butter',
+    'buttermilk',
+    'cheddar',
+    'cheese',
+    'cream',
+    'egg',
+    'feta',
+    'milk',
+    'mozzarella',
+    'parmesan',
+    'ricotta',
+    'sour cream',
+    'yoghurt',
+    'yogurt',
+  ],
+  pantry: [
+    'almond',
+    'baking powder',
+    'baking soda',
+    'bean',
+    'breadcrumb',
+    'broth',
+    'chickpea',
+    'chocolate',
+    'cocoa',
+    'coconut milk',
+    'cornstarch',
+    'flour',
+    'honey',
+    'jam',
+    'ketchup',
+    'lentil',
+    'mayonnaise',
+    'mustard',
+    'noodle',
+    'oat',
+    'oil',
+    'pasta',
+    'peanut butter',
+    'rice',
+    'sauce',
+    'spaghetti',
+    'stock',
+    'sugar',
+    'syrup',
+    'tahini',
+    'tomato paste',
+    'vanilla',
+    'vinegar',
+    'walnut',
+    'yeast',
+  ],
+  spices: [
+    'bay leaf',
+    'bay leaves',
+    'black pepper',
+    'cardamom',
+    'cayenne',
+    'chili flakes',
+    'chili powder',
+    'cinnamon',
+    'clove',
+    'coriander',
+    'cumin',
+    'curry powder',
+    'ground ginger',
+    'nutmeg',
+    'oregano',
+    'paprika',
+    'pepper',
+    'rosemary',
+    'salt',
+    'thyme',
+    'turmeric',
+  ],
+  frozen: ['frozen', 'ice cream'],
+};
+
+const KEYWORD_PATTERNS = (
+  Object.entries(AISLE_KEYWORDS) as [AisleCategory, string[]][]
+).flatMap(([category, keywords]) =>
+  keywords.map(keyword => ({
+    category,
+    keyword,
+    pattern: new RegExp(`\\b${keyword}(?:e?s)?\\b`, 'i'),
+  })),
+);
+
+/**
+ * Guesses the aisle for an ingredient name. The word nearest the end wins,
+ * since that's usually the thing being bought ("chicken stock" is stock),
+ * and longer keywords beat shorter ones ending at the same place ("peanut
+ * butter" over "butter"). Anything frozen goes in the freezer aisle.
+ */
+export const getAisleCategory = (name: string): AisleCategory => {
+  let best: { category: AisleCategory; end: number; length: number } | null =
+    null;
+
+  for (const { category, keyword, pattern } of KEYWORD_PATTERNS) {
+    const match = name.match(pattern);
+    if (!match) {
+      continue;
+    }
+    if (category === 'frozen') {
+      return category;
+    }
+    const end = (match.index ?? 0) + match[0].length;
+    if (
+      !best ||
+      end > best.end ||
+      (end === best.end && keyword.length > best.length)
+    ) {
+      best = { category, end, length: keyword.length };
+    }
+  }
+
+  return best?.category ?? 'other';
+};
+
+const INGREDIENTS_HEADING = /^\s*ingredients\s*:?\s*$/i;
+const METHOD_HEADING =
+  /^\s*(?:method|directions|instructions|steps|preparation)\s*:?\s*$/i;
+
+/** Longest name kept when guessing ingredient lines from free text */
+const MAX_GUESSED_NAME_WORDS = 6;
+
+/**
+ * Ingredient lines in a free-text description. Uses the lines under an
+ * "Ingredients" heading when there is one; otherwise keeps short lines that
+ * start with a quantity and don't read like part of the method (sentences
+ * or anything mentioning a cooking time).
+ */
+const parseDescriptionIngredients = (
+  description: string,
+): ParsedIngredient[] => {
+  const lines = description.split(/\r?\n/);
+  const headingIndex = lines.findIndex(line => INGREDIENTS_HEADING.test(line));
+
+  if (headingIndex !== -1) {
+    const rest = lines.slice(headingIndex + 1);
+    const methodIndex = rest.findIndex(line => METHOD_HEADING.test(line));
+    return parseIngredientBlock(
+      (methodIndex === -1 ? rest : rest.slice(0, methodIndex)).join('\n'),
+    );
+  }
+
+  return parseIngredientBlock(
+    lines
+      .filter(
+        line =>
+          !/[.!?]\s*$/.test(line) && findDurationMentions(line).length === 0,
+      )
+      .join('\n'),
+  ).filter(
+    ingredient =>
+      ingredient.quantity !== '' &&
+      ingredient.name.split(' ').length <= MAX_GUESSED_NAME_WORDS,
+  );
+};
+
+/**
+ * The ingredients to shop for: the recipe's structured ingredients when it
+ * has any, otherwise the ingredient lines found in its description. Notes
+ * and groups are dropped since they don't change what to buy.
+ */
+export const getShoppingIngredients = (recipe: Recipe): ParsedIngredient[] =>
+  (recipe.ingredients && recipe.ingredients.length > 0
+    ? recipe.ingredients
+    : parseDescriptionIngredients(recipe.description)
+  ).map(({ quantity, unit, name }) => ({ quantity, unit, name }));
+
+const singularize = (word: string): string => {
+  if (/(?:[sxzo]|ch|sh)es$/.test(word)) {
+    return word.slice(0, -2);
+  }
+  return /[^s]s$/.test(word) ? word.slice(0, -1) : word;
+};
+
+// "Eggs" and "egg" are the same thing to buy
+const getNameKey = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .split(' ')
+    .map(singularize)
+    .join(' ');
+
+type Amount = Pick<ShoppingListItem, 'quantity' | 'unit'>;
+
+/**
+ * Adds two amounts of the same ingredient, converting the second into the
+ * first's unit when both are volumes or both are weights. Returns null when
+ * they can't be added, such as "2 cloves" and "1 tsp" or a range like "2-3".
+ */
+const addAmounts = (a: Amount, b: Amount): Amount | null => {
+  const sameUnit = a.unit.trim().toLowerCase() === b.unit.trim().toLowerCase();
+  if (!a.quantity && !b.quantity) {
+    return sameUnit ? a : null;
+  }
+
+  const valueA = parseQuantity(a.quantity);
+  const valueB = parseQuantity(b.quantity);
+  if (valueA === null || valueB === null) {
+    return null;
+  }
+
+  const unitA = normalizeUnit(a.unit);
+  const unitB = normalizeUnit(b.unit);
+  if (sameUnit) {
+    const total = valueA + valueB;
+    return {
+      quantity: formatQuantity(total),
+      unit: unitA ? formatUnit(unitA, total) : a.unit,
+    };
+  }
+
+  if (!unitA || !unitB || getUnitKind(unitA) !== getUnitKind(unitB)) {
+    return null;
+  }
+  const converted = convertUnit(valueB, unitB, unitA);
+  if (converted === null || getUnitKind(unitA) === 'temperature') {
+    return null;
+  }
+  const total = valueA + converted;
+  return { quantity: formatQuantity(total), unit: formatUnit(unitA, total) };
+};
+
+/**
+ * Adds ingredients to a shopping list. An ingredient already on the list
+ * (and not yet checked off) has its quantity added to the existing item
+ * when the units allow; otherwise it becomes a new item in its aisle.
+ */
+export const addToShoppingList = (
+  items: ShoppingListItem[],
+  ingredients: ParsedIngredient[],
+  recipeId?: string,
+): ShoppingListItem[] => {
+  const result = [...items];
+
+  ingredients.forEach(({ quantity, unit, name }) => {
+    const key = getNameKey(name);
+    if (!key) {
+      return;
+    }
+
+    const amount = { quantity: quantity.trim(), unit: unit.trim() };
+    const index = result.findIndex(
+      item =>
+        !item.checked &&
+        getNameKey(item.name) === key &&
+        addAmounts(item, amount) !== null,
+    );
+
+    if (index === -1) {
+      result.push({
+        id: createLocalId(),
+        name: name.trim(),
+        ...amount,
+        category: getAisleCategory(name),
+        checked: false,
+        recipeIds: recipeId ? [recipeId] : [],
+      });
+      return;
+    }
+
+    const existing = result[index];
+    result[index] = {
+      ...existing,
+      ...addAmounts(existing, amount),
+      recipeIds:
+        recipeId && !existing.recipeIds.includes(recipeId)
+          ? [...existing.recipeIds, recipeId]
+          : existing.recipeIds,
+    };
+  });
+
+  return result;
+};
+
+/**
+ * Groups items into aisle sections in shop order, leaving out empty aisles.
+ * Checked-off items sink to the bottom of their section.
+ */
+export const groupShoppingList = (
+  items: ShoppingListItem[],
+): { category: AisleCategory; title: string; data: ShoppingListItem[] }[] =>
+  AISLE_CATEGORIES.map(({ value, label }) => ({
+    category: value,
+    title: label,
+    data: items
+      .filter(item => item.category === value)
+      .sort((a, b) => Number(a.checked) - Number(b.checked)),
+  })).filter(section => section.data.length > 0);
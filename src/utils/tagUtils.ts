@@ -0,0 +1,106 @@
+import { Recipe } from '../types/Recipe';
+import { MAX_TAG_LENGTH } from '../constants';
+import { normalizeForSearch } from './searchUtils';
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+/** `all` keeps recipes with every selected tag, `any` with at least one */
+export type TagMatchMode = 'all' | 'any';
+
+/**
+ * Lowercases a tag and collapses whitespace so "Quick  Meals" and
+ * "quick meals" are stored as the same tag. Returns an empty string for
+ * blank input.
+ */
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_TAG_LENGTH);
+
+/**
+ * Normalizes a list of tags, dropping blanks and duplicates while
+ * keeping the original order.
+ */
+export const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags.map(normalizeTag).filter(tag => {
+    if (!tag || seen.has(tag)) {
+      return false;
+    }
+    seen.add(tag);
+    return true;
+  });
+};
+
+/**
+ * Counts how many recipes use each tag, most used first.
+ */
+export const countTags = (recipes: Recipe[]): TagCount[] => {
+  const counts = new Map<string, number>();
+  recipes.forEach(recipe => {
+    (recipe.tags ?? []).forEach(tag => {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    });
+  });
+
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag),
+  );
+};
+
+export const recipeMatchesTags = (
+  recipe: Recipe,
+  tags: string[],
+  mode: TagMatchMode,
+): boolean => {
+  if (tags.length === 0) {
+    return true;
+  }
+  const recipeTags = recipe.tags ?? [];
+  return mode === 'all'
+    ? tags.every(tag => recipeTags.includes(tag))
+    : tags.some(tag => recipeTags.includes(tag));
+};
+
+export const filterRecipesByTags = (
+  recipes: Recipe[],
+  tags: string[],
+  mode: TagMatchMode,
+): Recipe[] =>
+  tags.length === 0
+    ? recipes
+    : recipes.filter(recipe => recipeMatchesTags(recipe, tags, mode));
+
+/**
+ * Suggests existing tags for autocomplete. Tags starting with the query
+ * come before tags that merely contain it; already chosen tags are left out.
+ */
+export const suggestTags = (
+  query: string,
+  tagCounts: TagCount[],
+  exclude: string[] = [],
+  limit = 5,
+): string[] => {
+  const normalizedQuery = normalizeForSearch(normalizeTag(query));
+  const candidates = tagCounts
+    .map(({ tag }) => tag)
+    .filter(tag => !exclude.includes(tag));
+
+  if (!normalizedQuery) {
+    return candidates.slice(0, limit);
+  }
+
+  const prefixMatches: string[] = [];
+  const otherMatches: string[] = [];
+  candidates.forEach(tag => {
+    const folded = normalizeForSearch(tag);
+    if (folded.startsWith(normalizedQuery)) {
+      prefixMatches.push(tag);
+    } else if (folded.includes(normalizedQuery)) {
+      otherMatches.push(tag);
+    }
+  });
+
+  return [...prefixMatches, ...otherMatches].slice(0, limit);
+};
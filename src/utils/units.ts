@@ -0,0 +1,420 @@
+import { Ingredient } from '../types/Recipe';
+import { formatQuantity, parseQuantity } from './servingScaler';
+
+export type MeasurementSystem = 'metric' | 'us';
+
+/** How quantities are displayed: as the recipe wrote them, or converted */
+export type UnitPreference = 'original' | MeasurementSystem;
+
+export type UnitKind = 'volume' | 'mass' | 'temperature' | 'count';
+
+export type UnitId =
+  | 'ml'
+  | 'l'
+  | 'tsp'
+  | 'tbsp'
+  | 'floz'
+  | 'cup'
+  | 'g'
+  | 'kg'
+  | 'oz'
+  | 'lb'
+  | 'celsius'
+  | 'fahrenheit'
+  | 'piece'
+  | 'pinch'
+  | 'dash'
+  | 'clove'
+  | 'slice'
+  | 'can'
+  | 'bunch';
+
+export const DEFAULT_UNIT_PREFERENCE: UnitPreference = 'original';
+
+export const UNIT_OPTIONS: readonly { value: UnitPreference; label: string }[] =
+  [
+    { value: 'original', label: 'As Written' },
+    { value: 'metric', label: 'Metric (g, ml)' },
+    { value: 'us', label: 'US Customary (cups, oz)' },
+  ];
+
+export const isUnitPreference = (value: unknown): value is UnitPreference =>
+  UNIT_OPTIONS.some(option => option.value === value);
+
+interface UnitDefinition {
+  kind: UnitKind;
+  /** Count units belong to neither system and are never converted */
+  system?: MeasurementSystem;
+  /** Size in the base unit of its kind: millilitres or grams */
+  factor: number;
+  label: string;
+  pluralLabel?: string;
+  aliases: string[];
+}
+
+const UNITS: Record<UnitId, UnitDefinition> = {
+  ml: {
+    kind: 'volume',
+    system: 'metric',
+    factor: 1,
+    label: 'ml',
+    aliases: ['ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres'],
+  },
+  l: {
+    kind: 'volume',
+    system: 'metric',
+    factor: 1000,
+    label: 'l',
+    aliases: ['l', 'liter', 'liters', 'litre', 'litres'],
+  },
+  tsp: {
+    kind: 'volume',
+    system: 'us',
+    factor: 4.92892,
+    label: 'tsp',
+    aliases: ['tsp', 'tsps', 'teaspoon', 'teaspoons'],
+  },
+  tbsp: {
+    kind: 'volume',
+    system: 'us',
+    factor: 14.7868,
+    label: 'tbsp',
+    aliases: ['tbsp', 'tbsps', 'tbs', 'tbl', 'tablespoon', 'tablespoons'],
+  },
+  floz: {
+    kind: 'volume',
+    system: 'us',
+    factor: 29.5735,
+    label: 'fl oz',
+    aliases: ['fl oz', 'fl. oz', 'floz', 'fluid ounce', 'fluid ounces'],
+  },
+  cup: {
+    kind: 'volume',
+    system: 'us',
+    factor: 236.588,
+    label: 'cup',
+    pluralLabel: 'cups',
+    aliases: ['cup', 'cups', 'c'],
+  },
+  g: {
+    kind: 'mass',
+    system: 'metric',
+    factor: 1,
+    label: 'g',
+    aliases: ['g', 'gr', 'gram', 'grams', 'gramme', 'grammes'],
+  },
+  kg: {
+    kind: 'mass',
+    system: 'metric',
+    factor: 1000,
+    label: 'kg',
+    aliases: ['kg', 'kgs', 'kilo', 'kilos', 'kilogram', 'kilograms'],
+  },
+  oz: {
+    kind: 'mass',
+    system: 'us',
+    factor: 28.3495,
+    label: 'oz',
+    aliases: ['oz', 'ounce', 'ounces'],
+  },
+  lb: {
+    kind: 'mass',
+    system: 'us',
+    factor: 453.592,
+    label: 'lb',
+    aliases: ['lb', 'lbs', 'pound', 'pounds'],
+  },
+  celsius: {
+    kind: 'temperature',
+    system: 'metric',
+    factor: 1,
+    label: '°C',
+    aliases: ['°c', 'c°', 'celsius', 'degrees c', 'degrees celsius'],
+  },
+  fahrenheit: {
+    kind: 'temperature',
+    system: 'us',
+    factor: 1,
+    label: '°F',
+    aliases: ['°f', 'f°', 'fahrenheit', 'degrees f', 'degrees fahrenheit'],
+  },
+  piece: {
+    kind: 'count',
+    factor: 1,
+    label: 'piece',
+    pluralLabel: 'pieces',
+    aliases: ['piece', 'pieces', 'pc', 'pcs'],
+  },
+  pinch: {
+    kind: 'count',
+    factor: 1,
+    label: 'pinch',
+    pluralLabel: 'pinches',
+    aliases: ['pinch', 'pinches'],
+  },
+  dash: {
+    kind: 'count',
+    factor: 1,
+    label: 'dash',
+    pluralLabel: 'dashes',
+    aliases: ['dash', 'dashes'],
+  },
+  clove: {
+    kind: 'count',
+    factor: 1,
+    label: 'clove',
+    pluralLabel: 'cloves',
+    aliases: ['clove', 'cloves'],
+  },
+  slice: {
+    kind: 'count',
+    factor: 1,
+    label: 'slice',
+    pluralLabel: 'slices',
+    aliases: ['slice', 'slices'],
+  },
+  can: {
+    kind: 'count',
+    factor: 1,
+    label: 'can',
+    pluralLabel: 'cans',
+    aliases: ['can', 'cans', 'tin', 'tins'],
+  },
+  bunch: {
+    kind: 'count',
+    factor: 1,
+    label: 'bunch',
+    pluralLabel: 'bunches',
+    aliases: ['bunch', 'bunches'],
+  },
+};
+
+const ALIASES = new Map<string, UnitId>(
+  (Object.keys(UNITS) as UnitId[]).flatMap(id =>
+    UNITS[id].aliases.map(alias => [alias, id] as [string, UnitId]),
+  ),
+);
+
+// Traditional shorthand where case matters: "1 T" is a tablespoon, "1 t" a teaspoon
+const CASE_SENSITIVE_ALIASES: Record<string, UnitId> = {
+  T: 'tbsp',
+  t: 'tsp',
+};
+
+/**
+ * Grams per millilitre for common pantry items, used to convert between cups
+ * and grams. Matched against whole words of the ingredient name, longest
+ * name first so "brown sugar" wins over "sugar".
+ */
+const INGREDIENT_DENSITIES: [string, number][] = (
+  [
+    ['all-purpose flour', 0.53],
+    ['bread flour', 0.54],
+    ['flour', 0.53],
+    ['powdered sugar', 0.51],
+    ['icing sugar', 0.51],
+    ['brown sugar', 0.93],
+    ['sugar', 0.85],
+    ['cocoa', 0.42],
+    ['butter', 0.96],
+    ['honey', 1.42],
+    ['maple syrup', 1.37],
+    ['oil', 0.92],
+    ['milk', 1.03],
+    ['cream', 1.01],
+    ['yogurt', 1.03],
+    ['water', 1],
+    ['oats', 0.38],
+    ['rice', 0.85],
+    ['salt', 1.2],
+    ['baking powder', 0.81],
+    ['baking soda', 0.93],
+  ] as [string, number][]
+).sort(([a], [b]) => b.length - a.length);
+
+const TEMPERATURE_PATTERN =
+  /(-?\d+(?:\.\d+)?)\s*(?:°\s*|degrees?\s+)([CF])(?:elsius|ahrenheit)?\b/gi;
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Maps a free-text unit ("Tablespoons", "fl. oz", "°F") to its canonical ID,
+ * or null when the unit is unknown.
+ */
+export const normalizeUnit = (text: string | undefined): UnitId | null => {
+  const value = (text ?? '').trim().replace(/\.$/, '').replace(/\s+/g, ' ');
+  if (!value) {
+    return null;
+  }
+  return (
+    CASE_SENSITIVE_ALIASES[value] ?? ALIASES.get(value.toLowerCase()) ?? null
+  );
+};
+
+export const getUnitKind = (unit: UnitId): UnitKind => UNITS[unit].kind;
+
+export const getUnitSystem = (unit: UnitId): MeasurementSystem | undefined =>
+  UNITS[unit].system;
+
+export const formatUnit = (unit: UnitId, value = 1): string => {
+  const { label, pluralLabel } = UNITS[unit];
+  return value > 1 && pluralLabel ? pluralLabel : label;
+};
+
+const convertTemperature = (
+  value: number,
+  from: UnitId,
+  to: UnitId,
+): number => {
+  if (from === to) {
+    return value;
+  }
+  return from === 'celsius' ? (value * 9) / 5 + 32 : ((value - 32) * 5) / 9;
+};
+
+/**
+ * Converts a value between two units of the same kind. Returns null for
+ * count units and for conversions across kinds, which need a density.
+ */
+export const convertUnit = (
+  value: number,
+  from: UnitId,
+  to: UnitId,
+): number | null => {
+  const source = UNITS[from];
+  const target = UNITS[to];
+  if (source.kind !== target.kind || source.kind === 'count') {
+    return from === to ? value : null;
+  }
+  if (source.kind === 'temperature') {
+    return convertTemperature(value, from, to);
+  }
+  return (value * source.factor) / target.factor;
+};
+
+/** Grams per millilitre for a known ingredient, or undefined */
+export const getIngredientDensity = (name: string): number | undefined => {
+  const lowerName = name.toLowerCase();
+  const match = INGREDIENT_DENSITIES.find(([ingredient]) =>
+    new RegExp(`\\b${escapeRegExp(ingredient)}\\b`).test(lowerName),
+  );
+  return match?.[1];
+};
+
+// Picks the unit that keeps a converted amount readable in the given system
+const pickUnit = (
+  kind: 'volume' | 'mass',
+  baseAmount: number,
+  system: MeasurementSystem,
+): UnitId => {
+  if (system === 'metric') {
+    if (kind === 'volume') {
+      return baseAmount >= UNITS.l.factor ? 'l' : 'ml';
+    }
+    return baseAmount >= UNITS.kg.factor ? 'kg' : 'g';
+  }
+
+  if (kind === 'mass') {
+    return baseAmount >= UNITS.lb.factor ? 'lb' : 'oz';
+  }
+  if (baseAmount < UNITS.tbsp.factor) {
+    return 'tsp';
+  }
+  return baseAmount < UNITS.cup.factor / 4 ? 'tbsp' : 'cup';
+};
+
+/**
+ * Metric amounts read best as round numbers: "125 g", not "125.4 g".
+ */
+const formatMetricQuantity = (value: number): string => {
+  if (value >= 100) {
+    return String(Math.round(value / 5) * 5);
+  }
+  if (value >= 10) {
+    return String(Math.round(value));
+  }
+  return String(Math.round(value * 10) / 10);
+};
+
+/**
+ * Converted US amounts are approximate anyway, so round them to the nearest
+ * eighth (never below one) to get "1 tbsp" rather than "1.06 tbsp".
+ */
+const formatUsQuantity = (value: number): string =>
+  formatQuantity(Math.max(1, Math.round(value * 8)) / 8);
+
+/**
+ * Rewrites an ingredient's quantity and unit in the given measurement
+ * system. Volumes of known ingredients become weights in metric (and
+ * weights become cups in US customary); everything else keeps its kind.
+ * Ingredients with unknown units, count units or quantities that aren't a
+ * single number (such as "2-3") are returned unchanged.
+ */
+export const convertIngredient = (
+  ingredient: Ingredient,
+  preference: UnitPreference,
+): Ingredient => {
+  if (preference === 'original') {
+    return ingredient;
+  }
+
+  const unit = normalizeUnit(ingredient.unit);
+  const value = parseQuantity(ingredient.quantity);
+  if (!unit || value === null) {
+    return ingredient;
+  }
+
+  const { kind, system, factor } = UNITS[unit];
+  if ((kind !== 'volume' && kind !== 'mass') || system === preference) {
+    return ingredient;
+  }
+
+  const density = getIngredientDensity(ingredient.name);
+  let baseAmount = value * factor;
+  let targetKind: 'volume' | 'mass' = kind;
+  if (density !== undefined) {
+    if (preference === 'metric' && kind === 'volume') {
+      baseAmount *= density;
+      targetKind = 'mass';
+    } else if (preference === 'us' && kind === 'mass') {
+      baseAmount /= density;
+      targetKind = 'volume';
+    }
+  }
+
+  const targetUnit = pickUnit(targetKind, baseAmount, preference);
+  const converted = baseAmount / UNITS[targetUnit].factor;
+
+  return {
+    ...ingredient,
+    quantity:
+      preference === 'metric'
+        ? formatMetricQuantity(converted)
+        : formatUsQuantity(converted),
+    unit: formatUnit(targetUnit, converted),
+  };
+};
+
+/**
+ * Converts oven temperatures written in text ("Bake at 350°F", "180 degrees
+ * C") to the given system, rounded to the nearest 5 degrees.
+ */
+export const convertTemperaturesInText = (
+  text: string,
+  preference: UnitPreference,
+): string => {
+  if (preference === 'original') {
+    return text;
+  }
+
+  const target: UnitId = preference === 'metric' ? 'celsius' : 'fahrenheit';
+  return text.replace(TEMPERATURE_PATTERN, (match, amount, scale) => {
+    const unit: UnitId = scale.toUpperCase() === 'C' ? 'celsius' : 'fahrenheit';
+    if (unit === target) {
+      return match;
+    }
+    const converted = convertTemperature(Number(amount), unit, target);
+    return `${Math.round(converted / 5) * 5}${UNITS[target].label}`;
+  });
+};